@@ -1,4 +1,4 @@
-import React, { useState, useRef, useCallback, useEffect } from 'react';
+import React, { useState, useRef, useCallback, useEffect, useMemo } from 'react';
 import { 
   Upload, 
   Mic, 
@@ -8,95 +8,138 @@ import {
   Share, 
   Send, 
   File, 
-  Image, 
   MessageSquare, 
   BarChart3,
   Settings,
   Power,
   Users,
-  Activity
+  Activity,
+  History,
+  Bot,
+  RotateCcw,
+  Pencil,
+  Trash2,
+  AlertCircle,
+  Check,
+  Clock,
+  CloudOff,
+  Keyboard,
+  StopCircle,
+  Subtitles,
+  Wifi,
+  WifiOff,
+  Loader2
 } from 'lucide-react';
 import {
   RTVIClientAudio,
   RTVIClientVideo,
   useRTVIClient,
+  useRTVIClientMediaTrack,
   useRTVIClientTransportState,
   RTVIClientProvider
 } from '@pipecat-ai/client-react';
-import { RTVIClient } from '@pipecat-ai/client-js';
-import { DailyTransport } from '@pipecat-ai/daily-transport';
+import { RTVIClient, type TransportState } from '@pipecat-ai/client-js';
 import { cn } from './lib/utils';
-
-// Types
-interface FileData {
-  name: string;
-  type: string;
-  size: number;
-  data: string;
-  uploadedAt: string;
-}
-
-interface Message {
-  sender: 'user' | 'bot' | 'system';
-  content: string;
-  type: 'text' | 'voice' | 'system';
-  timestamp: string;
-}
-
-interface Analytics {
-  totalMessages: number;
-  filesProcessed: number;
-  voiceMessages: number;
-  textMessages: number;
-}
-
-// Configuration - Update these for your deployment
-const CONFIG = {
-  serverUrl: process.env.VITE_SERVER_URL || 'http://localhost:7860',
-  connectEndpoint: '/connect',
-  enableAnalytics: true,
-  maxFileSize: 50 * 1024 * 1024, // 50MB
-  allowedFileTypes: ['image/*', 'application/pdf', '.docx', '.txt']
-};
+import type { Analytics, AnalysisState, DeliveryStatus, FileData, Message } from './lib/types';
+import { useTranscripts } from './hooks/useTranscripts';
+import { connectUrl, createTransport } from './lib/transports';
+import { useLocalMedia } from './hooks/useLocalMedia';
+import { SettingsPanel } from './components/SettingsPanel';
+import { ConfigSettings } from './components/ConfigSettings';
+import { ConfigProvider } from './components/ConfigProvider';
+import { useConfig } from './hooks/useConfig';
+import { useBotPresets } from './hooks/useBotPresets';
+import { BotConfigPanel } from './components/BotConfigPanel';
+import { useFunctionCalls } from './hooks/useFunctionCalls';
+import { FunctionCallApproval } from './components/FunctionCallApproval';
+import { useChunkedUploads } from './hooks/useChunkedUploads';
+import { useReconnection } from './hooks/useReconnection';
+import { useOutboundQueue } from './hooks/useOutboundQueue';
+import type { OutboundItem } from './lib/outboundQueue';
+import { useAnalysisService, useScreenService } from './hooks/useServices';
+import { buildRequest, describeFailure, type ActionFailure } from './lib/services';
+import {
+  createMessage,
+  ensureMessageIds,
+  removeMessage,
+  systemMessage,
+  updateMessage
+} from './lib/messages';
+import { UploadQueue } from './components/UploadQueue';
+import { validateFile } from './lib/fileValidation';
+import { useFilePreview } from './hooks/useFilePreview';
+import { FilePreviewModal, FileThumbnail } from './components/FilePreview';
+import { useSessionHistory } from './hooks/useSessionHistory';
+import { SessionHistory } from './components/SessionHistory';
+import { ExportPanel } from './components/ExportPanel';
+import type { ConversationSource } from './lib/conversationExport';
+import { useScreenShare, type ScreenSource } from './hooks/useScreenShare';
+import { usePipelineMetrics, type PipelineMetrics } from './hooks/usePipelineMetrics';
+import { MetricsDashboard } from './components/MetricsDashboard';
+import { AnalysisResult } from './components/AnalysisResult';
+import { CopyButton, MarkdownContent } from './components/MarkdownContent';
+import { useVoiceActivity } from './hooks/useVoiceActivity';
+import { VoiceActivityOverlay } from './components/VoiceActivity';
+import { useVoiceControls } from './hooks/useVoiceControls';
+import { useShortcuts } from './hooks/useShortcuts';
+import { formatCombo } from './lib/shortcuts';
+import { ShortcutsHelp } from './components/ShortcutsHelp';
+import { useParticipants } from './hooks/useParticipants';
+import { displayName } from './lib/participants';
+import { buildTiles, VideoGrid } from './components/VideoGrid';
+import { useSessionRecorder } from './hooks/useSessionRecorder';
+import { RecordingConsentDialog, RecordingStatus } from './components/SessionRecorder';
+import type { RecordingVideoSource } from './lib/recording';
+import { NotificationProvider } from './components/NotificationProvider';
+import { useNotifications } from './hooks/useNotifications';
+import { useRTVINotifications } from './hooks/useRTVINotifications';
+import { NotificationBell, NotificationCenter } from './components/NotificationCenter';
+import { PanelBoundary } from './components/ErrorBoundary';
+import { PreCallCheck } from './components/PreCallCheck';
+import { saveMediaFlags, type MediaFlags } from './lib/preflight';
+import { loadMicMode } from './lib/voiceActivity';
+import { useCaptions, useCaptionSettings } from './hooks/useCaptions';
+import { CaptionSettingsPanel, CaptionsOverlay } from './components/Captions';
+import { I18nProvider } from './components/I18nProvider';
+import { useI18n } from './hooks/useI18n';
+import type { Translatable } from './lib/i18n';
+import { useSpokenLanguage } from './hooks/useSpokenLanguage';
+import { LanguageSettings, LocaleSwitcher } from './components/LanguageSettings';
+import type { MessageKey } from './lib/locales/en';
+import { AnnouncerProvider } from './components/AnnouncerProvider';
+import { useAnnouncer } from './hooks/useAnnouncer';
+import { nextTabIndex, prefersReducedMotion } from './lib/a11y';
 
 // File Uploader Component
 const FileUploader: React.FC<{
-  onFileUpload: (file: FileData) => void;
+  onFileUpload: (file: File) => void;
   className?: string;
 }> = ({ onFileUpload, className = '' }) => {
   const fileInputRef = useRef<HTMLInputElement>(null);
   const [dragOver, setDragOver] = useState(false);
-  const [uploading, setUploading] = useState(false);
+  const [checking, setChecking] = useState(false);
+  const [rejected, setRejected] = useState<{ name: string; reason: Translatable }[]>([]);
+  const { config } = useConfig();
+  const { t, translateText } = useI18n();
 
-  const processFile = useCallback((file: File) => {
-    if (file.size > CONFIG.maxFileSize) {
-      alert(`File too large. Max size: ${CONFIG.maxFileSize / (1024 * 1024)}MB`);
+  const processFile = useCallback(async (file: File) => {
+    const result = await validateFile(file, config.allowedFileTypes, config.maxFileSize);
+    if (!result.valid) {
+      setRejected(prev => [...prev, { name: file.name, reason: result.reason }]);
       return;
     }
 
-    setUploading(true);
-    const reader = new FileReader();
-    reader.onload = (e) => {
-      const result = e.target?.result as string;
-      const fileData: FileData = {
-        name: file.name,
-        type: file.type,
-        size: file.size,
-        data: result.split(',')[1], // Remove data:type;base64, prefix
-        uploadedAt: new Date().toISOString()
-      };
-      onFileUpload(fileData);
-      setUploading(false);
-    };
-    reader.onerror = () => {
-      alert('Failed to read file');
-      setUploading(false);
-    };
-    reader.readAsDataURL(file);
-  }, [onFileUpload]);
-
-  const handleFileSelect = useCallback((files: FileList) => {
-    Array.from(files).forEach(processFile);
+    // Upload under the sniffed type so the server never sees a spoofed one
+    onFileUpload(file.type === result.mimeType
+      ? file
+      : new globalThis.File([file], file.name, { type: result.mimeType, lastModified: file.lastModified }));
+  }, [config.allowedFileTypes, config.maxFileSize, onFileUpload]);
+
+  const handleFileSelect = useCallback(async (files: FileList) => {
+    setRejected([]);
+    setChecking(true);
+    await Promise.all(Array.from(files).map(processFile));
+    setChecking(false);
   }, [processFile]);
 
   const handleDrop = useCallback((e: React.DragEvent) => {
@@ -107,53 +150,248 @@ const FileUploader: React.FC<{
     }
   }, [handleFileSelect]);
 
+  const openPicker = () => {
+    if (!checking) fileInputRef.current?.click();
+  };
+
+  // Enter and Space open the picker, like a native button
+  const handleKeyDown = (e: React.KeyboardEvent) => {
+    if (e.key !== 'Enter' && e.key !== ' ') return;
+    e.preventDefault();
+    openPicker();
+  };
+
   return (
     <div className={className}>
       <div
+        role="button"
+        tabIndex={0}
+        aria-disabled={checking}
+        aria-describedby="file-dropzone-hint"
         className={cn(
           "border-2 border-dashed rounded-lg p-6 text-center cursor-pointer transition-all duration-200",
-          dragOver ? 'border-blue-500 bg-blue-50 scale-105' : 'border-gray-300 hover:border-gray-400',
-          uploading && 'opacity-50 pointer-events-none'
+          "focus:outline-none focus-visible:ring-2 focus-visible:ring-blue-500 focus-visible:ring-offset-2",
+          dragOver ? 'border-blue-500 bg-blue-50 motion-safe:scale-105' : 'border-gray-300 hover:border-gray-400',
+          checking && 'opacity-50 pointer-events-none'
         )}
         onDrop={handleDrop}
         onDragOver={(e) => { e.preventDefault(); setDragOver(true); }}
         onDragLeave={() => setDragOver(false)}
-        onClick={() => fileInputRef.current?.click()}
+        onClick={openPicker}
+        onKeyDown={handleKeyDown}
       >
         <Upload className={cn(
           "mx-auto mb-2 h-8 w-8 transition-colors",
           dragOver ? 'text-blue-500' : 'text-gray-400'
-        )} />
-        <p className="text-sm text-gray-600">
-          {uploading ? 'Processing...' : 'Drop files here or click to upload'}
+        )} aria-hidden="true" />
+        <p className="text-sm text-gray-600" aria-live="polite">
+          {checking ? t('files.checking') : t('files.dropzone')}
         </p>
-        <p className="text-xs text-gray-500 mt-1">
-          Images, PDFs, Word docs, and text files supported
+        <p id="file-dropzone-hint" className="text-xs text-gray-500 mt-1">
+          {t('files.supported')}
         </p>
       </div>
+      {rejected.length > 0 && (
+        <div role="alert" className="mt-3 p-3 bg-red-50 border border-red-200 rounded-lg">
+          <div className="flex items-center justify-between mb-1">
+            <p className="text-xs font-medium text-red-700">
+              {t('files.rejected', { count: rejected.length })}
+            </p>
+            <button
+              onClick={() => setRejected([])}
+              className="text-xs text-red-600 hover:text-red-800 transition-colors"
+            >
+              {t('common.dismiss')}
+            </button>
+          </div>
+          <ul className="space-y-1">
+            {rejected.map((item, idx) => (
+              <li key={idx} className="text-xs text-red-700">
+                <span className="font-medium">{item.name}</span>: {translateText(item.reason)}
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
       <input
         ref={fileInputRef}
         type="file"
         multiple
         className="hidden"
-        accept={CONFIG.allowedFileTypes.join(',')}
-        onChange={(e) => e.target.files && handleFileSelect(e.target.files)}
+        tabIndex={-1}
+        aria-hidden="true"
+        accept={config.allowedFileTypes.join(',')}
+        onChange={(e) => {
+          if (e.target.files) handleFileSelect(e.target.files);
+          e.target.value = '';
+        }}
       />
     </div>
   );
 };
 
+// Delivery Indicator
+const DELIVERY_LABELS: Record<Exclude<DeliveryStatus, 'failed'>, MessageKey> = {
+  pending: 'chat.pending',
+  queued: 'chat.queued',
+  sent: 'chat.sent'
+};
+
+const DeliveryIndicator: React.FC<{ status: Exclude<DeliveryStatus, 'failed'> }> = ({ status }) => {
+  const { t } = useI18n();
+  return (
+    <span className="ms-1 opacity-75" title={t(DELIVERY_LABELS[status])}>
+      {status === 'sent' ? (
+        <Check className="h-3 w-3" />
+      ) : status === 'queued' ? (
+        <CloudOff className="h-3 w-3" />
+      ) : (
+        <Clock className="h-3 w-3 motion-safe:animate-pulse" />
+      )}
+    </span>
+  );
+};
+
+// Chat Message Item
+const ChatMessageItem: React.FC<{
+  message: Message;
+  onRetry: () => void;
+  onEdit: (content: string) => void;
+  onDelete: () => void;
+}> = ({ message: msg, onRetry, onEdit, onDelete }) => {
+  const { t, formatTime } = useI18n();
+  const [editing, setEditing] = useState(false);
+  const [draft, setDraft] = useState(msg.content);
+  const canEdit = msg.sender === 'user' && msg.type === 'text' && !msg.streaming;
+
+  const startEdit = () => {
+    setDraft(msg.content);
+    setEditing(true);
+  };
+
+  const submitEdit = () => {
+    if (!draft.trim()) return;
+    setEditing(false);
+    onEdit(draft);
+  };
+
+  const actionClass = 'p-1 rounded text-gray-400 hover:text-gray-700 hover:bg-gray-100';
+
+  return (
+    <div
+      className={cn(
+        "group flex flex-col",
+        msg.sender === 'user' ? 'items-end' : 'items-start'
+      )}
+    >
+      <div
+        className={cn(
+          "max-w-[85%] min-w-0 px-3 py-2 rounded-lg text-sm relative",
+          msg.sender === 'user'
+            ? msg.status === 'failed'
+              ? 'bg-red-50 text-red-900 border border-red-200 rounded-ee-none'
+              : 'bg-blue-500 text-white rounded-ee-none'
+            : msg.sender === 'system'
+            ? 'bg-yellow-100 text-yellow-800 border border-yellow-200'
+            : 'bg-gray-100 text-gray-800 rounded-es-none'
+        )}
+      >
+        {editing ? (
+          <div className="space-y-2">
+            <textarea
+              value={draft}
+              onChange={(e) => setDraft(e.target.value)}
+              onKeyDown={(e) => {
+                if (e.key === 'Enter' && !e.shiftKey) {
+                  e.preventDefault();
+                  submitEdit();
+                } else if (e.key === 'Escape') {
+                  setEditing(false);
+                }
+              }}
+              rows={3}
+              autoFocus
+              className="w-64 max-w-full px-2 py-1 rounded text-gray-800 text-sm focus:outline-none focus:ring-2 focus:ring-blue-300"
+            />
+            <div className="flex justify-end space-x-2 text-xs">
+              <button onClick={() => setEditing(false)} className="px-2 py-1 rounded bg-white bg-opacity-20 hover:bg-opacity-30">
+                {t('common.cancel')}
+              </button>
+              <button
+                onClick={submitEdit}
+                disabled={!draft.trim()}
+                className="px-2 py-1 rounded bg-white text-blue-600 hover:bg-blue-50 disabled:opacity-50"
+              >
+                {t('chat.send')}
+              </button>
+            </div>
+          </div>
+        ) : msg.sender === 'system' ? (
+          <span className="whitespace-pre-wrap">{msg.content}</span>
+        ) : (
+          <MarkdownContent text={msg.content} />
+        )}
+        {msg.streaming && (
+          <span className="inline-block w-1.5 h-3 ms-1 bg-current opacity-60 motion-safe:animate-pulse align-middle" aria-hidden="true" />
+        )}
+        {msg.type === 'voice' && (
+          <Activity className="inline w-3 h-3 ms-1 opacity-75" />
+        )}
+        <div className="flex items-center justify-end text-xs mt-1">
+          <span className="opacity-50">{formatTime(msg.timestamp)}</span>
+          {msg.status && msg.status !== 'failed' && (
+            <DeliveryIndicator status={msg.status} />
+          )}
+        </div>
+      </div>
+
+      {msg.status === 'failed' && (
+        <div className="flex items-center mt-1 text-xs text-red-600">
+          <AlertCircle className="h-3 w-3 me-1" />
+          {msg.error ? t('chat.notSentReason', { reason: msg.error }) : t('chat.notSent')}
+          <button onClick={onRetry} className="ms-2 font-medium underline hover:text-red-800">
+            {t('common.retry')}
+          </button>
+        </div>
+      )}
+
+      {!editing && (
+        <div className="flex items-center space-x-1 mt-0.5 opacity-0 group-hover:opacity-100 focus-within:opacity-100 transition-opacity">
+          <CopyButton text={msg.content} label={t('chat.copy')} className={actionClass} />
+          {msg.status === 'failed' && (
+            <button onClick={onRetry} className={actionClass} title={t('common.retry')}>
+              <RotateCcw className="h-3 w-3" />
+            </button>
+          )}
+          {canEdit && (
+            <button onClick={startEdit} className={actionClass} title={t('chat.edit')}>
+              <Pencil className="h-3 w-3" />
+            </button>
+          )}
+          <button onClick={onDelete} className={actionClass} title={t('common.delete')}>
+            <Trash2 className="h-3 w-3" />
+          </button>
+        </div>
+      )}
+    </div>
+  );
+};
+
 // Chat Panel Component
 const ChatPanel: React.FC<{
   messages: Message[];
   onSendMessage: (message: string) => void;
+  onRetryMessage: (id: string) => void;
+  onEditMessage: (id: string, content: string) => void;
+  onDeleteMessage: (id: string) => void;
   isVisible: boolean;
-}> = ({ messages, onSendMessage, isVisible }) => {
+}> = ({ messages, onSendMessage, onRetryMessage, onEditMessage, onDeleteMessage, isVisible }) => {
+  const { t } = useI18n();
   const [textMessage, setTextMessage] = useState('');
   const chatEndRef = useRef<HTMLDivElement>(null);
 
   useEffect(() => {
-    chatEndRef.current?.scrollIntoView({ behavior: 'smooth' });
+    chatEndRef.current?.scrollIntoView({ behavior: prefersReducedMotion() ? 'auto' : 'smooth' });
   }, [messages]);
 
   const handleSend = () => {
@@ -166,13 +404,13 @@ const ChatPanel: React.FC<{
   if (!isVisible) return null;
 
   return (
-    <div className="flex flex-col h-80 bg-white border rounded-lg shadow-sm">
+    <div id="chat-panel" className="flex flex-col h-80 bg-white border rounded-lg shadow-sm">
       <div className="flex items-center px-4 py-3 border-b bg-gray-50 rounded-t-lg">
-        <MessageSquare className="h-5 w-5 mr-2 text-blue-600" />
-        <span className="font-medium text-gray-700">Text Chat</span>
-        <div className="ml-auto flex items-center space-x-2">
-          <div className="w-2 h-2 bg-green-500 rounded-full animate-pulse"></div>
-          <span className="text-xs text-gray-500">Live</span>
+        <MessageSquare className="h-5 w-5 me-2 text-blue-600" />
+        <span className="font-medium text-gray-700">{t('chat.title')}</span>
+        <div className="ms-auto flex items-center space-x-2">
+          <div className="w-2 h-2 bg-green-500 rounded-full motion-safe:animate-pulse" aria-hidden="true"></div>
+          <span className="text-xs text-gray-500">{t('chat.live')}</span>
         </div>
       </div>
       
@@ -180,36 +418,17 @@ const ChatPanel: React.FC<{
         {messages.length === 0 && (
           <div className="text-center text-gray-500 mt-8">
             <MessageSquare className="h-8 w-8 mx-auto mb-2 opacity-50" />
-            <p>Start the conversation...</p>
+            <p>{t('chat.empty')}</p>
           </div>
         )}
-        {messages.map((msg, idx) => (
-          <div
-            key={idx}
-            className={cn(
-              "flex",
-              msg.sender === 'user' ? 'justify-end' : 'justify-start'
-            )}
-          >
-            <div
-              className={cn(
-                "max-w-xs px-3 py-2 rounded-lg text-sm relative",
-                msg.sender === 'user'
-                  ? 'bg-blue-500 text-white rounded-br-none'
-                  : msg.sender === 'system'
-                  ? 'bg-yellow-100 text-yellow-800 border border-yellow-200'
-                  : 'bg-gray-100 text-gray-800 rounded-bl-none'
-              )}
-            >
-              {msg.content}
-              {msg.type === 'voice' && (
-                <Activity className="inline w-3 h-3 ml-1 opacity-75" />
-              )}
-              <div className="text-xs opacity-50 mt-1">
-                {new Date(msg.timestamp).toLocaleTimeString()}
-              </div>
-            </div>
-          </div>
+        {messages.map((msg) => (
+          <ChatMessageItem
+            key={msg.id}
+            message={msg}
+            onRetry={() => onRetryMessage(msg.id)}
+            onEdit={(content) => onEditMessage(msg.id, content)}
+            onDelete={() => onDeleteMessage(msg.id)}
+          />
         ))}
         <div ref={chatEndRef} />
       </div>
@@ -220,13 +439,16 @@ const ChatPanel: React.FC<{
           value={textMessage}
           onChange={(e) => setTextMessage(e.target.value)}
           onKeyPress={(e) => e.key === 'Enter' && handleSend()}
-          placeholder="Type a message..."
-          className="flex-1 px-3 py-2 border rounded-lg mr-2 focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+          placeholder={t('chat.placeholder')}
+          aria-label={t('chat.placeholder')}
+          className="flex-1 px-3 py-2 border rounded-lg me-2 focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent"
         />
         <button
           onClick={handleSend}
           disabled={!textMessage.trim()}
           className="px-4 py-2 bg-blue-500 text-white rounded-lg hover:bg-blue-600 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+          title={t('chat.send')}
+          aria-label={t('chat.send')}
         >
           <Send className="h-4 w-4" />
         </button>
@@ -235,48 +457,83 @@ const ChatPanel: React.FC<{
   );
 };
 
+// File List Item
+const FileListItem: React.FC<{
+  file: FileData;
+  onAnalyze: (file: FileData) => void;
+}> = ({ file, onAnalyze }) => {
+  const { t, formatFileSize, formatTime } = useI18n();
+  const preview = useFilePreview(file);
+  const [showPreview, setShowPreview] = useState(false);
+  const closePreview = useCallback(() => setShowPreview(false), []);
+  const hasPreview = Boolean(preview.url || preview.text);
+
+  return (
+    <div className="p-3 bg-gray-50 rounded-lg border">
+      <div className="flex items-center justify-between">
+        <button
+          onClick={() => setShowPreview(true)}
+          disabled={!hasPreview}
+          className="flex items-center flex-1 min-w-0 text-start disabled:cursor-default"
+          title={hasPreview ? t('files.openPreview') : undefined}
+        >
+          <FileThumbnail file={file} preview={preview} />
+          <div className="min-w-0 flex-1">
+            <p className="text-sm font-medium truncate">{file.name}</p>
+            <p className="text-xs text-gray-500">
+              {formatFileSize(file.size)} • {formatTime(file.uploadedAt)}
+            </p>
+          </div>
+        </button>
+
+        <button
+          onClick={() => onAnalyze(file)}
+          className="ms-3 px-3 py-1 text-xs bg-blue-500 text-white rounded hover:bg-blue-600 transition-colors flex-shrink-0"
+        >
+          {t('files.analyze')}
+        </button>
+      </div>
+
+      {preview.text && (
+        <p className="mt-2 text-xs text-gray-600 whitespace-pre-line max-h-12 overflow-hidden">
+          {preview.text}
+        </p>
+      )}
+
+      {showPreview && (
+        <FilePreviewModal
+          file={file}
+          preview={preview}
+          onClose={closePreview}
+          onAnalyze={(f) => { closePreview(); onAnalyze(f); }}
+        />
+      )}
+    </div>
+  );
+};
+
 // File Analysis Panel
 const FileAnalysisPanel: React.FC<{
   files: FileData[];
   onAnalyze: (file: FileData) => void;
 }> = ({ files, onAnalyze }) => {
+  const { t } = useI18n();
   return (
     <div className="space-y-4">
       <h3 className="font-semibold text-gray-700 flex items-center">
-        <File className="h-5 w-5 mr-2 text-blue-600" />
-        Uploaded Files ({files.length})
+        <File className="h-5 w-5 me-2 text-blue-600" />
+        {t('files.uploaded', { count: files.length })}
       </h3>
       
       {files.length === 0 ? (
         <div className="text-center py-8 text-gray-500">
           <File className="h-8 w-8 mx-auto mb-2 opacity-50" />
-          <p>No files uploaded yet</p>
+          <p>{t('files.none')}</p>
         </div>
       ) : (
         <div className="space-y-3 max-h-64 overflow-y-auto">
-          {files.map((file, idx) => (
-            <div key={idx} className="flex items-center justify-between p-3 bg-gray-50 rounded-lg border">
-              <div className="flex items-center flex-1 min-w-0">
-                {file.type.startsWith('image/') ? (
-                  <Image className="h-5 w-5 mr-3 text-blue-500 flex-shrink-0" />
-                ) : (
-                  <File className="h-5 w-5 mr-3 text-gray-500 flex-shrink-0" />
-                )}
-                <div className="min-w-0 flex-1">
-                  <p className="text-sm font-medium truncate">{file.name}</p>
-                  <p className="text-xs text-gray-500">
-                    {(file.size / 1024).toFixed(1)} KB • {new Date(file.uploadedAt).toLocaleTimeString()}
-                  </p>
-                </div>
-              </div>
-              
-              <button
-                onClick={() => onAnalyze(file)}
-                className="ml-3 px-3 py-1 text-xs bg-blue-500 text-white rounded hover:bg-blue-600 transition-colors flex-shrink-0"
-              >
-                Analyze
-              </button>
-            </div>
+          {files.map((file) => (
+            <FileListItem key={file.id} file={file} onAnalyze={onAnalyze} />
           ))}
         </div>
       )}
@@ -285,46 +542,75 @@ const FileAnalysisPanel: React.FC<{
 };
 
 // Screen Share Component
+const SCREEN_SURFACE_LABELS: Record<ScreenSource['surface'], MessageKey> = {
+  tab: 'screen.surface.tab',
+  window: 'screen.surface.window',
+  screen: 'screen.surface.screen',
+  unknown: 'screen.surface.unknown'
+};
+
 const ScreenShare: React.FC<{
   isSharing: boolean;
+  pending: boolean;
+  source: ScreenSource | null;
+  error: string | null;
+  disabled: boolean;
   onToggle: () => void;
-}> = ({ isSharing, onToggle }) => {
+}> = ({ isSharing, pending, source, error, disabled, onToggle }) => {
+  const { t, formatNumber } = useI18n();
   return (
     <div className="space-y-4">
       <div className="flex items-center justify-between">
         <h3 className="font-semibold text-gray-700 flex items-center">
-          <Share className="h-5 w-5 mr-2 text-blue-600" />
-          Screen Sharing
+          <Share className="h-5 w-5 me-2 text-blue-600" />
+          {t('screen.title')}
         </h3>
         <button
           onClick={onToggle}
+          disabled={disabled || pending}
           className={cn(
-            "px-4 py-2 rounded-lg font-medium transition-colors",
+            "px-4 py-2 rounded-lg font-medium transition-colors disabled:opacity-50 disabled:cursor-not-allowed",
             isSharing
               ? 'bg-red-500 text-white hover:bg-red-600'
               : 'bg-green-500 text-white hover:bg-green-600'
           )}
         >
-          {isSharing ? 'Stop Sharing' : 'Start Sharing'}
+          {pending ? t('screen.choosing') : isSharing ? t('screen.stop') : t('screen.start')}
         </button>
       </div>
       
       {isSharing ? (
-        <div className="p-4 bg-blue-50 border border-blue-200 rounded-lg">
-          <div className="flex items-center">
-            <div className="w-3 h-3 bg-green-500 rounded-full mr-3 animate-pulse"></div>
-            <span className="text-sm text-blue-700">
-              Screen sharing active - AI can see and analyze your screen
-            </span>
+        <div className="space-y-3">
+          <div className="aspect-video bg-gray-900 rounded-lg overflow-hidden border">
+            <RTVIClientVideo participant="local" trackType="screenVideo" fit="contain" />
+          </div>
+          <div className="p-4 bg-blue-50 border border-blue-200 rounded-lg">
+            <div className="flex items-center">
+              <div className="w-3 h-3 bg-green-500 rounded-full me-3 motion-safe:animate-pulse flex-shrink-0" aria-hidden="true"></div>
+              <span className="text-sm text-blue-700">
+                {t('screen.active')}
+              </span>
+            </div>
+            {source && (
+              <p className="text-xs text-blue-600 mt-2 truncate">
+                {t(SCREEN_SURFACE_LABELS[source.surface])}
+                {source.label && ` • ${source.label}`}
+                {source.width && source.height && ` • ${formatNumber(source.width)}×${formatNumber(source.height)}`}
+              </p>
+            )}
           </div>
         </div>
       ) : (
         <div className="p-4 bg-gray-50 border border-gray-200 rounded-lg">
           <p className="text-sm text-gray-600">
-            Share your screen to get contextual help with applications, websites, or any visual content.
+            {disabled ? t('screen.connectFirst') : t('screen.hint')}
           </p>
         </div>
       )}
+
+      {error && (
+        <p className="text-xs text-red-600">{t('screen.failed', { error })}</p>
+      )}
     </div>
   );
 };
@@ -332,85 +618,157 @@ const ScreenShare: React.FC<{
 // Analytics Panel
 const AnalyticsPanel: React.FC<{
   data: Analytics;
+  metrics: PipelineMetrics;
+  analysis: AnalysisState;
   onRefresh: () => void;
-}> = ({ data, onRefresh }) => {
+}> = ({ data, metrics, analysis, onRefresh }) => {
+  const { t, formatNumber, formatTime } = useI18n();
   return (
     <div className="space-y-4">
       <div className="flex items-center justify-between">
         <h3 className="font-semibold text-gray-700 flex items-center">
-          <BarChart3 className="h-5 w-5 mr-2 text-blue-600" />
-          Conversation Analytics
+          <BarChart3 className="h-5 w-5 me-2 text-blue-600" />
+          {t('analytics.title')}
         </h3>
         <button
           onClick={onRefresh}
-          className="px-3 py-1 text-xs bg-gray-500 text-white rounded hover:bg-gray-600 transition-colors"
+          disabled={analysis.loading}
+          className="px-3 py-1 text-xs bg-gray-500 text-white rounded hover:bg-gray-600 transition-colors disabled:opacity-50"
         >
-          Refresh
+          {analysis.loading ? t('analytics.analyzing') : t('common.refresh')}
         </button>
       </div>
       
       <div className="grid grid-cols-2 gap-3">
         <div className="p-3 bg-gradient-to-r from-blue-50 to-blue-100 rounded-lg border border-blue-200">
-          <p className="text-xs text-blue-600 font-medium">Total Messages</p>
-          <p className="text-xl font-bold text-blue-800">{data.totalMessages}</p>
+          <p className="text-xs text-blue-600 font-medium">{t('analytics.totalMessages')}</p>
+          <p className="text-xl font-bold text-blue-800">{formatNumber(data.totalMessages)}</p>
         </div>
         <div className="p-3 bg-gradient-to-r from-green-50 to-green-100 rounded-lg border border-green-200">
-          <p className="text-xs text-green-600 font-medium">Files Processed</p>
-          <p className="text-xl font-bold text-green-800">{data.filesProcessed}</p>
+          <p className="text-xs text-green-600 font-medium">{t('analytics.filesProcessed')}</p>
+          <p className="text-xl font-bold text-green-800">{formatNumber(data.filesProcessed)}</p>
         </div>
         <div className="p-3 bg-gradient-to-r from-purple-50 to-purple-100 rounded-lg border border-purple-200">
-          <p className="text-xs text-purple-600 font-medium">Voice Messages</p>
-          <p className="text-xl font-bold text-purple-800">{data.voiceMessages}</p>
+          <p className="text-xs text-purple-600 font-medium">{t('analytics.voiceMessages')}</p>
+          <p className="text-xl font-bold text-purple-800">{formatNumber(data.voiceMessages)}</p>
         </div>
         <div className="p-3 bg-gradient-to-r from-orange-50 to-orange-100 rounded-lg border border-orange-200">
-          <p className="text-xs text-orange-600 font-medium">Text Messages</p>
-          <p className="text-xl font-bold text-orange-800">{data.textMessages}</p>
+          <p className="text-xs text-orange-600 font-medium">{t('analytics.textMessages')}</p>
+          <p className="text-xl font-bold text-orange-800">{formatNumber(data.textMessages)}</p>
         </div>
       </div>
+
+      <MetricsDashboard metrics={metrics} />
+
+      {(analysis.result !== null || analysis.error) && (
+        <div className="space-y-2">
+          <h4 className="text-sm font-semibold text-gray-700">{t('analytics.analysis')}</h4>
+          {analysis.error ? (
+            <p className="text-xs text-red-600">{analysis.error}</p>
+          ) : (
+            <>
+              <AnalysisResult result={analysis.result} />
+              {analysis.updatedAt && (
+                <p className="text-xs text-gray-400">
+                  {t('analytics.updated', { time: formatTime(analysis.updatedAt) })}
+                </p>
+              )}
+            </>
+          )}
+        </div>
+      )}
     </div>
   );
 };
 
 // Connection Status Component
 const ConnectionStatus: React.FC<{
-  transportState: string;
+  transportState: TransportState;
+  reconnectAttempt: number;
+  reconnectFailedAfter: number | null; // attempts made before giving up
+  queuedCount: number;
   onConnect: () => void;
   onDisconnect: () => void;
-}> = ({ transportState, onConnect, onDisconnect }) => {
+}> = ({ transportState, reconnectAttempt, reconnectFailedAfter, queuedCount, onConnect, onDisconnect }) => {
+  const { t } = useI18n();
+  const { announce } = useAnnouncer();
   const isConnected = ['connected', 'ready'].includes(transportState);
-  const isConnecting = ['connecting'].includes(transportState);
+  const isReconnecting = reconnectAttempt > 0 && !isConnected;
+  const isConnecting = ['connecting'].includes(transportState) || isReconnecting;
+  const hasFailed = reconnectFailedAfter !== null && !isConnected && !isConnecting;
+  const label = isReconnecting
+    ? t('connection.reconnecting', { attempt: reconnectAttempt })
+    : hasFailed
+      ? t('connection.failed', { count: reconnectFailedAfter })
+      : t(`connection.state.${transportState}`);
+
+  // The shape carries the state as well as the colour
+  const StatusIcon = isConnected ? Wifi : isConnecting ? Loader2 : WifiOff;
+
+  // Announce arrivals at connected, reconnecting, failed, disconnected and
+  // error, not every intermediate transport state
+  const milestone = isConnected ? 'connected'
+    : isReconnecting ? `reconnecting-${reconnectAttempt}`
+    : hasFailed ? 'failed'
+    : transportState === 'disconnected' || transportState === 'error' ? transportState
+    : null;
+  const lastMilestone = useRef(milestone);
+
+  useEffect(() => {
+    if (!milestone || milestone === lastMilestone.current) return;
+    lastMilestone.current = milestone;
+    announce(label, milestone === 'error' || milestone === 'failed' ? 'assertive' : 'polite');
+  }, [milestone, label, announce]);
 
   return (
     <div className="flex items-center space-x-3">
       <div className="flex items-center space-x-2">
-        <div className={cn(
-          "w-3 h-3 rounded-full",
-          isConnected ? 'bg-green-500 animate-pulse' :
-          isConnecting ? 'bg-yellow-500 animate-spin' : 'bg-red-500'
-        )}></div>
-        <span className="text-sm font-medium capitalize">{transportState}</span>
+        <StatusIcon
+          aria-hidden="true"
+          className={cn(
+            "h-4 w-4",
+            isConnected ? 'text-green-600 motion-safe:animate-pulse' :
+            isConnecting ? 'text-yellow-600 motion-safe:animate-spin' : 'text-red-600'
+          )}
+        />
+        <span className="text-sm font-medium">
+          {label}
+        </span>
+        {queuedCount > 0 && (
+          <span
+            className="px-2 py-0.5 text-xs rounded-full bg-yellow-100 text-yellow-800"
+            title={t('connection.queuedHint')}
+          >
+            {t('connection.queued', { count: queuedCount })}
+          </span>
+        )}
       </div>
       
       <button
-        onClick={isConnected ? onDisconnect : onConnect}
-        disabled={isConnecting}
+        onClick={isConnected || isReconnecting ? onDisconnect : onConnect}
+        disabled={isConnecting && !isReconnecting}
         className={cn(
           "px-4 py-2 rounded-lg font-medium transition-colors",
-          isConnected
+          isConnected || isReconnecting
             ? 'bg-red-500 text-white hover:bg-red-600'
             : 'bg-blue-500 text-white hover:bg-blue-600',
           'disabled:opacity-50 disabled:cursor-not-allowed'
         )}
       >
-        {isConnected ? (
+        {isReconnecting ? (
+          <>
+            <Power className="h-4 w-4 me-2 inline" />
+            {t('common.cancel')}
+          </>
+        ) : isConnected ? (
           <>
-            <Power className="h-4 w-4 mr-2 inline" />
-            Disconnect
+            <Power className="h-4 w-4 me-2 inline" />
+            {t('connection.disconnect')}
           </>
         ) : (
           <>
-            <Power className="h-4 w-4 mr-2 inline" />
-            Connect
+            <Power className="h-4 w-4 me-2 inline" />
+            {t('connection.connect')}
           </>
         )}
       </button>
@@ -418,17 +776,78 @@ const ConnectionStatus: React.FC<{
   );
 };
 
+// Tab List
+const TabList: React.FC<{
+  tabs: { id: string; label: string; icon: React.ElementType }[];
+  activeTab: string;
+  onSelect: (id: string) => void;
+}> = ({ tabs, activeTab, onSelect }) => {
+  const { t, dir } = useI18n();
+  const tabRefs = useRef(new Map<string, HTMLButtonElement>());
+
+  // Only the selected tab is in the Tab order; arrows, Home and End move
+  // between tabs and select as they go
+  const handleKeyDown = (e: React.KeyboardEvent, index: number) => {
+    const next = nextTabIndex(e.key, index, tabs.length, dir);
+    if (next === null) return;
+    e.preventDefault();
+    const { id } = tabs[next];
+    onSelect(id);
+    tabRefs.current.get(id)?.focus();
+  };
+
+  return (
+    <div role="tablist" aria-label={t('tabs.label')} className="flex space-x-1 p-1 overflow-x-auto scrollbar-hide">
+      {tabs.map((tab, index) => {
+        const Icon = tab.icon;
+        const selected = activeTab === tab.id;
+        return (
+          <button
+            key={tab.id}
+            ref={(el) => { if (el) tabRefs.current.set(tab.id, el); else tabRefs.current.delete(tab.id); }}
+            role="tab"
+            id={`tab-${tab.id}`}
+            aria-selected={selected}
+            aria-controls={selected ? `tabpanel-${tab.id}` : undefined}
+            tabIndex={selected ? 0 : -1}
+            onClick={() => onSelect(tab.id)}
+            onKeyDown={(e) => handleKeyDown(e, index)}
+            className={cn(
+              "flex items-center space-x-2 px-3 py-2 rounded-md text-sm font-medium transition-colors",
+              "focus:outline-none focus-visible:ring-2 focus-visible:ring-blue-500",
+              selected
+                ? 'bg-blue-500 text-white'
+                : 'text-gray-600 hover:text-gray-800 hover:bg-gray-100'
+            )}
+          >
+            <Icon className="h-4 w-4" aria-hidden="true" />
+            <span>{tab.label}</span>
+          </button>
+        );
+      })}
+    </div>
+  );
+};
+
 // Main App Component with RTVI Client
-const RTVIApp: React.FC = () => {
+const RTVIApp: React.FC<{
+  media: MediaFlags;
+  onRunDeviceCheck: () => void;
+}> = ({ media, onRunDeviceCheck }) => {
   const client = useRTVIClient();
   const transportState = useRTVIClientTransportState();
+  const { config } = useConfig();
+  const { notify } = useNotifications();
+  const { t, translateText } = useI18n();
+  const { announce } = useAnnouncer();
   
   const [activeTab, setActiveTab] = useState('chat');
   const [messages, setMessages] = useState<Message[]>([]);
   const [uploadedFiles, setUploadedFiles] = useState<FileData[]>([]);
-  const [isScreenSharing, setIsScreenSharing] = useState(false);
-  const [isMicEnabled, setIsMicEnabled] = useState(true);
-  const [isCameraEnabled, setIsCameraEnabled] = useState(false);
+  const { isMicEnabled, isCameraEnabled, setMic, setCamera, toggleMic, toggleCamera } = useLocalMedia(media);
+  const voiceControls = useVoiceControls(setMic, isMicEnabled);
+  const { micMode, setMicChoice, startTalking, stopTalking, interruptBot } = voiceControls;
+  const isPushToTalk = micMode === 'pushToTalk';
   const [showChat, setShowChat] = useState(true);
   const [analytics, setAnalytics] = useState<Analytics>({
     totalMessages: 0,
@@ -439,84 +858,165 @@ const RTVIApp: React.FC = () => {
 
   const isConnected = ['connected', 'ready'].includes(transportState);
 
+  // A re-run device check can change what we join with. In push-to-talk the
+  // mic stays closed until the key is held; the check's choice applies once
+  // the user goes back to open mic.
+  useEffect(() => {
+    setMicChoice(media.mic);
+    setCamera(media.cam);
+  }, [media, setMicChoice, setCamera]);
+
+  // Transport and bot errors become notifications
+  const [showNotifications, setShowNotifications] = useState(false);
+  useRTVINotifications();
+
+  // Bot presets are sent with /connect even if the Bot tab is never opened
+  const botPresets = useBotPresets();
+
+  // So is the language the bot should listen and speak in
+  useSpokenLanguage();
+
+  // Automatic reconnection and the offline outbox
+  const reconnection = useReconnection();
+
+  // Everyone in the call, for the video grid and the participant count
+  const participants = useParticipants();
+
+  // Who is speaking; the overlay tracks audio levels itself
+  const voiceActivity = useVoiceActivity();
+
+  // Live user/bot speech transcripts, with bot replies attached to their turn
+  const { expectReply, cancelReply } = useTranscripts(setMessages, setAnalytics);
+
+  // Screen readers hear each bot reply once it is complete rather than every
+  // streamed fragment; replies restored from history were never streaming here
+  const streamingBotIds = useRef(new Set<string>());
+
+  useEffect(() => {
+    for (const msg of messages) {
+      if (msg.sender !== 'bot') continue;
+      if (msg.streaming) streamingBotIds.current.add(msg.id);
+      else if (streamingBotIds.current.delete(msg.id)) announce(t('a11y.botSaid', { text: msg.content }));
+    }
+  }, [messages, announce, t]);
+
+  // Captions over the video, for following the bot without the chat open
+  const { settings: captionSettings, updateSettings: updateCaptionSettings } = useCaptionSettings();
+  const captions = useCaptions(captionSettings);
+
+  // Queued chat messages share their id with the outbox item
+  const handleOutboxDelivered = useCallback((item: OutboundItem) => {
+    if (item.request.service === 'chat') {
+      expectReply(item.id);
+      setMessages(prev => updateMessage(prev, item.id, { status: 'sent' }));
+    } else if (item.request.service === 'analysis') {
+      setMessages(prev => [...prev, systemMessage(t('system.analyzingFile', { name: item.label }))]);
+    }
+  }, [expectReply, t]);
+
+  const handleOutboxRejected = useCallback((item: OutboundItem, failure: ActionFailure) => {
+    if (item.request.service !== 'chat') return;
+    setMessages(prev => updateMessage(prev, item.id, { status: 'failed', error: translateText(describeFailure(failure)) }));
+  }, [translateText]);
+
+  const outbox = useOutboundQueue(handleOutboxDelivered, handleOutboxRejected);
+  const { send: sendAction, discard: discardAction } = outbox;
+
+  // Local session history
+  const [showHistory, setShowHistory] = useState(false);
+  const [loadedConversation, setLoadedConversation] = useState<{ title?: string; startedAt: string } | null>(null);
+  const history = useSessionHistory({ messages, files: uploadedFiles, analytics });
+  const { open: openSession } = history;
+
+  const handleOpenSession = useCallback(async (id: string, restoreContext: boolean) => {
+    const session = await openSession(id, restoreContext);
+    if (!session) return;
+
+    setMessages([
+      ...ensureMessageIds(session.messages),
+      ...(restoreContext ? [systemMessage(t('system.sharedOnConnect'))] : [])
+    ]);
+    setUploadedFiles(session.files);
+    setAnalytics(session.analytics);
+    setLoadedConversation({ title: session.title, startedAt: session.startedAt });
+    setShowHistory(false);
+  }, [openSession, t]);
+
   // Add welcome message
   useEffect(() => {
     if (messages.length === 0) {
-      setMessages([{
-        sender: 'system',
-        content: 'Welcome! Connect to start your multi-modal AI conversation.',
-        type: 'system',
-        timestamp: new Date().toISOString()
-      }]);
+      setMessages([systemMessage(t('system.welcome'))]);
     }
-  }, [messages.length]);
+  }, [messages.length, t]);
 
-  // Handle file upload
-  const handleFileUpload = useCallback(async (fileData: FileData) => {
-    try {
-      if (!client) {
-        alert('Please connect first');
-        return;
-      }
-
-      await client.action({
-        service: 'file_processor',
-        action: 'upload_file',
-        arguments: [
-          { name: 'file_data', value: fileData.data },
-          { name: 'filename', value: fileData.name },
-          { name: 'file_type', value: fileData.type }
-        ]
-      });
+  // A connection restarts the conversation's clock, and the origin outlives
+  // the disconnect so SRT/VTT offsets keep measuring from connection start
+  const { activeStartedAt } = history;
 
-      setUploadedFiles(prev => [...prev, fileData]);
-      
-      setMessages(prev => [...prev, {
-        sender: 'system',
-        content: `File uploaded: ${fileData.name}`,
-        type: 'system',
-        timestamp: new Date().toISOString()
-      }]);
+  useEffect(() => {
+    if (!activeStartedAt) return;
+    setLoadedConversation(prev => ({ title: prev?.title, startedAt: activeStartedAt }));
+  }, [activeStartedAt]);
 
-      setAnalytics(prev => ({
-        ...prev,
-        filesProcessed: prev.filesProcessed + 1
-      }));
+  // Conversation export/import
+  const exportSource: ConversationSource = {
+    title: loadedConversation?.title ?? t('export.defaultTitle'),
+    startedAt: activeStartedAt
+      ?? loadedConversation?.startedAt
+      ?? messages[0]?.timestamp
+      ?? new Date().toISOString(),
+    messages,
+    files: uploadedFiles
+  };
 
-    } catch (error) {
-      console.error('File upload failed:', error);
-      setMessages(prev => [...prev, {
-        sender: 'system',
-        content: `Failed to upload ${fileData.name}`,
-        type: 'system',
-        timestamp: new Date().toISOString()
-      }]);
-    }
-  }, [client]);
+  const handleImportConversation = useCallback((conversation: ConversationSource) => {
+    setMessages(conversation.messages);
+    setUploadedFiles(conversation.files);
+    setLoadedConversation({ title: conversation.title, startedAt: conversation.startedAt });
+  }, []);
 
-  // Handle text message
-  const handleSendMessage = useCallback(async (message: string) => {
-    try {
-      if (!client) {
-        alert('Please connect first');
-        return;
-      }
-
-      await client.action({
-        service: 'chat',
-        action: 'send_text',
-        arguments: [
-          { name: 'message', value: message },
-          { name: 'mode', value: 'mixed' }
-        ]
-      });
+  const handleImportError = useCallback((reason: string) => {
+    notify({ severity: 'error', title: t('notify.importFailed'), message: reason, source: t('notify.source.export') });
+  }, [notify, t]);
+
+  // Handle completed uploads
+  const handleUploadComplete = useCallback((fileData: FileData) => {
+    setUploadedFiles(prev => [...prev, fileData]);
+
+    setMessages(prev => [...prev, systemMessage(t('system.fileUploaded', { name: fileData.name }))]);
+
+    setAnalytics(prev => ({
+      ...prev,
+      filesProcessed: prev.filesProcessed + 1
+    }));
+  }, [t]);
 
-      setMessages(prev => [...prev, {
-        sender: 'user',
-        content: message,
-        type: 'text',
-        timestamp: new Date().toISOString()
-      }]);
+  const {
+    uploads,
+    start: startUpload,
+    retry: retryUpload,
+    cancel: cancelUpload
+  } = useChunkedUploads(config.uploadChunkSize, handleUploadComplete);
+
+  // Handle file upload
+  const handleFileUpload = useCallback((file: File) => {
+    startUpload(file);
+  }, [startUpload]);
+
+  // Sends an already-inserted user message. The bubble shows it as pending
+  // until the bot acknowledges it, queued while offline, or failed.
+  const deliverMessage = useCallback(async (id: string, message: string) => {
+    setMessages(prev => updateMessage(prev, id, { content: message, status: 'pending', error: undefined }));
+    expectReply(id);
+
+    try {
+      const outcome = await sendAction(
+        buildRequest('chat', 'send_text', { message, mode: 'mixed', message_id: id }),
+        { label: message, id }
+      );
+      // A duplicate is the same message still waiting in the outbox
+      setMessages(prev => updateMessage(prev, id, { status: outcome === 'sent' ? 'sent' : 'queued' }));
+      if (outcome === 'duplicate') return;
 
       setAnalytics(prev => ({
         ...prev,
@@ -526,97 +1026,202 @@ const RTVIApp: React.FC = () => {
 
     } catch (error) {
       console.error('Send message failed:', error);
+      cancelReply(id);
+      setMessages(prev => updateMessage(prev, id, { status: 'failed', error: translateText(describeFailure(error)) }));
     }
-  }, [client]);
+  }, [sendAction, expectReply, cancelReply, translateText]);
+
+  // Handle text message
+  const handleSendMessage = useCallback((message: string) => {
+    const pending = createMessage('user', message, 'text', { status: 'pending' });
+    setMessages(prev => [...prev, pending]);
+    deliverMessage(pending.id, message);
+  }, [deliverMessage]);
+
+  // Message actions
+  const handleDeleteMessage = useCallback((id: string) => {
+    discardAction(id);
+    cancelReply(id);
+    setMessages(prev => removeMessage(prev, id));
+  }, [discardAction, cancelReply]);
+
+  const handleRetryMessage = useCallback((id: string) => {
+    const message = messages.find(m => m.id === id);
+    if (message?.status === 'failed') deliverMessage(id, message.content);
+  }, [messages, deliverMessage]);
+
+  const handleEditMessage = useCallback((id: string, content: string) => {
+    // A failed original is corrected in place; a delivered one stays in the history
+    const message = messages.find(m => m.id === id);
+    if (message?.status === 'failed') deliverMessage(id, content);
+    else handleSendMessage(content);
+  }, [messages, deliverMessage, handleSendMessage]);
 
   // Handle screen sharing
-  const handleScreenShareToggle = useCallback(async () => {
-    try {
-      if (!client) {
-        alert('Please connect first');
-        return;
-      }
+  const screenShare = useScreenShare();
+  const { setSharing } = useScreenService();
+  const { isSharing: isScreenSharing } = screenShare;
+  const wasScreenSharing = useRef(false);
 
-      const newState = !isScreenSharing;
-      
-      await client.action({
-        service: 'screen',
-        action: 'toggle_sharing',
-        arguments: [
-          { name: 'enabled', value: newState }
-        ]
-      });
+  // Tell the bot whenever sharing starts or stops, including from the browser's own controls
+  useEffect(() => {
+    if (wasScreenSharing.current === isScreenSharing) return;
+    wasScreenSharing.current = isScreenSharing;
 
-      setIsScreenSharing(newState);
-      
-      setMessages(prev => [...prev, {
-        sender: 'system',
-        content: `Screen sharing ${newState ? 'started' : 'stopped'}`,
-        type: 'system',
-        timestamp: new Date().toISOString()
-      }]);
+    setMessages(prev => [...prev, systemMessage(
+      t(isScreenSharing ? 'system.screenSharingStarted' : 'system.screenSharingStopped')
+    )]);
 
-    } catch (error) {
-      console.error('Screen share toggle failed:', error);
-    }
-  }, [client, isScreenSharing]);
+    if (!client?.connected) return;
+    setSharing(isScreenSharing)
+      .catch(error => {
+        console.error('Screen share notification failed:', error);
+        notify({
+          severity: 'warning',
+          title: t('notify.screenShareNotSent'),
+          message: translateText(describeFailure(error)),
+          source: t('notify.source.screen')
+        });
+      });
+  }, [client, isScreenSharing, setSharing, notify, t, translateText]);
 
   // Handle file analysis
   const handleAnalyzeFile = useCallback(async (file: FileData) => {
     try {
-      if (!client) {
-        alert('Please connect first');
-        return;
-      }
-
-      await client.action({
-        service: 'analysis',
-        action: 'analyze_content',
-        arguments: [
-          { name: 'content_type', value: 'file' },
-          { name: 'data', value: { filename: file.name, type: file.type } }
-        ]
-      });
+      const outcome = await sendAction(buildRequest('analysis', 'analyze_content', {
+        content_type: 'file',
+        data: { filename: file.name, type: file.type }
+      }), { label: file.name, dedupeKey: `analyze:${file.id}` });
 
-      setMessages(prev => [...prev, {
-        sender: 'system',
-        content: `Analyzing file: ${file.name}`,
-        type: 'system',
-        timestamp: new Date().toISOString()
-      }]);
+      if (outcome === 'duplicate') return;
+
+      setMessages(prev => [...prev, systemMessage(
+        t(outcome === 'queued' ? 'system.queuedAnalysis' : 'system.analyzingFile', { name: file.name })
+      )]);
 
     } catch (error) {
       console.error('File analysis failed:', error);
+      notify({
+        severity: 'error',
+        title: t('notify.analysisFailed', { name: file.name }),
+        message: translateText(describeFailure(error)),
+        source: t('notify.source.files')
+      });
     }
-  }, [client]);
+  }, [sendAction, notify, t, translateText]);
 
   // Handle analytics refresh
+  const { metrics } = usePipelineMetrics();
+  const [analysis, setAnalysis] = useState<AnalysisState>({
+    result: null,
+    loading: false,
+    error: null,
+    updatedAt: null
+  });
+
+  const { analyzeConversation } = useAnalysisService();
+
   const handleRefreshAnalytics = useCallback(async () => {
+    setAnalysis(prev => ({ ...prev, loading: true, error: null }));
+
     try {
-      if (!client) return;
-
-      const result = await client.action({
-        service: 'analysis',
-        action: 'analyze_content',
-        arguments: [
-          { name: 'content_type', value: 'conversation' },
-          { name: 'data', value: {} }
-        ]
-      });
+      const result = await analyzeConversation();
 
-      console.log('Analytics refreshed:', result);
+      setAnalysis({
+        result: result ?? null,
+        loading: false,
+        error: null,
+        updatedAt: new Date().toISOString()
+      });
 
     } catch (error) {
       console.error('Analytics refresh failed:', error);
+      setAnalysis(prev => ({
+        ...prev,
+        loading: false,
+        error: t('analytics.failed', { reason: translateText(describeFailure(error)) })
+      }));
     }
-  }, [client]);
+  }, [analyzeConversation, t, translateText]);
 
   const tabs = [
-    { id: 'chat', label: 'Chat', icon: MessageSquare },
-    { id: 'files', label: 'Files', icon: File },
-    { id: 'screen', label: 'Screen', icon: Share },
-    { id: 'analytics', label: 'Analytics', icon: BarChart3 }
-  ];
+    { id: 'chat', label: t('tabs.chat'), icon: MessageSquare },
+    { id: 'files', label: t('tabs.files'), icon: File },
+    { id: 'screen', label: t('tabs.screen'), icon: Share },
+    { id: 'analytics', label: t('tabs.analytics'), icon: BarChart3 },
+    { id: 'bot', label: t('tabs.bot'), icon: Bot },
+    { id: 'settings', label: t('tabs.settings'), icon: Settings }
+  ].filter(tab => tab.id !== 'analytics' || config.enableAnalytics);
+
+  useEffect(() => {
+    if (!config.enableAnalytics && activeTab === 'analytics') setActiveTab('chat');
+  }, [config.enableAnalytics, activeTab]);
+
+  // Local session recording
+  const recorder = useSessionRecorder(messages);
+  const { start: startRecording } = recorder;
+  const [showRecordingConsent, setShowRecordingConsent] = useState(false);
+  const isRecording = recorder.status === 'recording';
+  const wasRecording = useRef(false);
+
+  const handleStartRecording = useCallback((options: { videoSource: RecordingVideoSource; consentedAt: string }) => {
+    setShowRecordingConsent(false);
+    startRecording(options);
+  }, [startRecording]);
+
+  useEffect(() => {
+    if (wasRecording.current === isRecording) return;
+    wasRecording.current = isRecording;
+    setMessages(prev => [...prev, systemMessage(t(isRecording ? 'system.recordingStarted' : 'system.recordingStopped'))]);
+  }, [isRecording, t]);
+
+  useEffect(() => {
+    if (!recorder.error) return;
+    notify({
+      severity: 'error',
+      title: t('notify.recordingFailed'),
+      message: translateText(recorder.error),
+      source: t('notify.source.recording')
+    });
+  }, [recorder.error, notify, t, translateText]);
+
+  // Keyboard shortcuts
+  const [showShortcuts, setShowShortcuts] = useState(false);
+  const isReconnecting = reconnection.status === 'reconnecting';
+  const tabIds = tabs.map(tab => tab.id).join(',');
+
+  const cycleTab = useCallback((step: number) => {
+    const ids = tabIds.split(',');
+    setActiveTab(current => ids[(ids.indexOf(current) + step + ids.length) % ids.length]);
+  }, [tabIds]);
+
+  const shortcuts = useShortcuts({
+    // Space and the mute key only mean something in their own mic mode
+    ...(isPushToTalk
+      ? { pushToTalk: { down: startTalking, up: stopTalking } }
+      : { toggleMic: { down: toggleMic } }),
+    toggleCamera: { down: toggleCamera },
+    toggleChat: { down: () => setShowChat(visible => !visible) },
+    toggleConnection: { down: isConnected || isReconnecting ? reconnection.disconnect : reconnection.connect },
+    interruptBot: { down: interruptBot },
+    nextTab: { down: () => cycleTab(1) },
+    previousTab: { down: () => cycleTab(-1) },
+    showShortcuts: { down: () => setShowShortcuts(visible => !visible) }
+  });
+
+  // Client-side functions the bot's LLM can call
+  const cameraTrack = useRTVIClientMediaTrack('video', 'local');
+
+  const logFunctionCall = useCallback((content: string) => {
+    setMessages(prev => [...prev, systemMessage(content)]);
+  }, []);
+
+  const functionCalls = useFunctionCalls({
+    files: uploadedFiles,
+    tabs: tabs.map(tab => tab.id),
+    setActiveTab,
+    cameraTrack: isCameraEnabled ? cameraTrack : null
+  }, logFunctionCall);
 
   return (
     <div className="min-h-screen bg-gray-50">
@@ -626,22 +1231,92 @@ const RTVIApp: React.FC = () => {
           <div className="flex items-center justify-between">
             <div>
               <h1 className="text-3xl font-bold text-gray-800 flex items-center">
-                <Activity className="h-8 w-8 mr-3 text-blue-600" />
-                Advanced AI Assistant
+                <Activity className="h-8 w-8 me-3 text-blue-600" />
+                {t('app.title')}
               </h1>
               <p className="text-gray-600 mt-1">
-                Multi-modal conversation with voice, text, files, and screen sharing
+                {t('app.subtitle')}
               </p>
             </div>
             
-            <ConnectionStatus
-              transportState={transportState}
-              onConnect={() => client?.connect()}
-              onDisconnect={() => client?.disconnect()}
-            />
+            <div className="flex items-center space-x-3">
+              <RecordingStatus
+                status={recorder.status}
+                elapsedMs={recorder.elapsedMs}
+                bytes={recorder.bytes}
+                error={recorder.error}
+                bundle={recorder.bundle}
+                canRecord={isConnected}
+                onRecord={() => setShowRecordingConsent(true)}
+                onStop={recorder.stop}
+                onDownload={recorder.download}
+                onDiscard={recorder.discard}
+              />
+              <button
+                onClick={() => setShowShortcuts(true)}
+                className="p-2 rounded-lg text-gray-600 hover:text-gray-800 hover:bg-gray-100 transition-colors"
+                title={t('header.shortcuts', { combo: formatCombo(shortcuts.bindings.showShortcuts) })}
+              >
+                <Keyboard className="h-5 w-5" />
+              </button>
+              <LocaleSwitcher />
+              <NotificationBell onClick={() => setShowNotifications(true)} />
+              <button
+                onClick={() => setShowHistory(true)}
+                className="p-2 rounded-lg text-gray-600 hover:text-gray-800 hover:bg-gray-100 transition-colors"
+                title={t('header.history')}
+              >
+                <History className="h-5 w-5" />
+              </button>
+              <ConnectionStatus
+                transportState={transportState}
+                reconnectAttempt={reconnection.status === 'reconnecting' ? reconnection.attempt : 0}
+                reconnectFailedAfter={reconnection.status === 'failed' ? reconnection.attempt : null}
+                queuedCount={outbox.pending.length}
+                onConnect={reconnection.connect}
+                onDisconnect={reconnection.disconnect}
+              />
+            </div>
           </div>
         </header>
 
+        {showRecordingConsent && (
+          <RecordingConsentDialog
+            available={recorder.available}
+            onStart={handleStartRecording}
+            onCancel={() => setShowRecordingConsent(false)}
+          />
+        )}
+
+        {showNotifications && <NotificationCenter onClose={() => setShowNotifications(false)} />}
+
+        {showShortcuts && (
+          <ShortcutsHelp
+            bindings={shortcuts.bindings}
+            onChange={shortcuts.setBinding}
+            onReset={shortcuts.resetBindings}
+            onClose={() => setShowShortcuts(false)}
+          />
+        )}
+
+        <FunctionCallApproval
+          approvals={functionCalls.approvals}
+          onApprove={functionCalls.approve}
+          onDeny={functionCalls.deny}
+        />
+
+        {showHistory && (
+          <SessionHistory
+            sessions={history.sessions}
+            activeId={history.activeId}
+            isConnected={isConnected}
+            onOpen={handleOpenSession}
+            onRename={history.rename}
+            onDelete={history.remove}
+            onClose={() => setShowHistory(false)}
+          />
+        )}
+
         {/* Main Content */}
         <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
           {/* Video & Chat Panel */}
@@ -650,49 +1325,106 @@ const RTVIApp: React.FC = () => {
             <div className="bg-white rounded-lg shadow-sm overflow-hidden border">
               <div className="aspect-video bg-gradient-to-br from-gray-900 to-gray-700 relative">
                 {isConnected ? (
-                  <RTVIClientVideo participant="bot" fit="cover" />
+                  <PanelBoundary name={t('video.panel')}>
+                    <VideoGrid
+                      tiles={buildTiles(participants, isScreenSharing)}
+                      isCameraEnabled={isCameraEnabled}
+                      isMicEnabled={isMicEnabled}
+                    />
+                  </PanelBoundary>
                 ) : (
                   <div className="flex items-center justify-center h-full text-white">
                     <div className="text-center">
                       <div className="w-20 h-20 mx-auto mb-4 bg-gray-600 rounded-full flex items-center justify-center text-3xl">
                         🤖
                       </div>
-                      <h3 className="text-xl font-semibold mb-2">AI Assistant</h3>
-                      <p className="text-gray-300">Connect to start conversation</p>
+                      <h3 className="text-xl font-semibold mb-2">{t('video.assistant')}</h3>
+                      <p className="text-gray-300">{t('video.connectPrompt')}</p>
                     </div>
                   </div>
                 )}
                 
+                {/* Speaking state and audio levels */}
+                <VoiceActivityOverlay phase={voiceActivity.phase} isMicEnabled={isMicEnabled} />
+
+                <CaptionsOverlay cues={captions} settings={captionSettings} />
+
                 {/* Controls overlay */}
-                <div className="absolute bottom-4 left-4 flex space-x-2">
+                <div className="absolute bottom-4 start-4 flex space-x-2">
+                  {isPushToTalk ? (
+                    <button
+                      onPointerDown={startTalking}
+                      onPointerUp={stopTalking}
+                      onPointerLeave={stopTalking}
+                      className={cn(
+                        "flex items-center px-4 py-3 rounded-full text-white text-sm font-medium select-none touch-none transition-all",
+                        voiceControls.isTalking ? 'bg-green-500 motion-safe:scale-105' : 'bg-gray-600 hover:bg-gray-500'
+                      )}
+                      title={t('video.holdToTalkTitle', { key: formatCombo(shortcuts.bindings.pushToTalk) || t('common.noKey') })}
+                      aria-pressed={voiceControls.isTalking}
+                    >
+                      {voiceControls.isTalking ? <Mic className="h-5 w-5 me-2" /> : <MicOff className="h-5 w-5 me-2" />}
+                      {voiceControls.isTalking ? t('video.talking') : t('video.holdToTalk')}
+                    </button>
+                  ) : (
+                    <button
+                      onClick={toggleMic}
+                      className={cn(
+                        "p-3 rounded-full text-white hover:opacity-80 transition-all",
+                        isMicEnabled ? 'bg-green-500' : 'bg-red-500'
+                      )}
+                      title={isMicEnabled ? t('video.mute') : t('video.unmute')}
+                      aria-label={isMicEnabled ? t('video.mute') : t('video.unmute')}
+                    >
+                      {isMicEnabled ? <Mic className="h-5 w-5" /> : <MicOff className="h-5 w-5" />}
+                    </button>
+                  )}
+                  
                   <button
-                    onClick={() => setIsMicEnabled(!isMicEnabled)}
+                    onClick={toggleCamera}
                     className={cn(
                       "p-3 rounded-full text-white hover:opacity-80 transition-all",
-                      isMicEnabled ? 'bg-green-500' : 'bg-red-500'
+                      isCameraEnabled ? 'bg-green-500' : 'bg-gray-500'
                     )}
-                    title={isMicEnabled ? 'Mute microphone' : 'Unmute microphone'}
+                    title={isCameraEnabled ? t('video.cameraOff') : t('video.cameraOn')}
+                    aria-label={isCameraEnabled ? t('video.cameraOff') : t('video.cameraOn')}
                   >
-                    {isMicEnabled ? <Mic className="h-5 w-5" /> : <MicOff className="h-5 w-5" />}
+                    {isCameraEnabled ? <Video className="h-5 w-5" /> : <VideoOff className="h-5 w-5" />}
                   </button>
-                  
+
                   <button
-                    onClick={() => setIsCameraEnabled(!isCameraEnabled)}
+                    onClick={() => updateCaptionSettings({ enabled: !captionSettings.enabled })}
                     className={cn(
                       "p-3 rounded-full text-white hover:opacity-80 transition-all",
-                      isCameraEnabled ? 'bg-green-500' : 'bg-gray-500'
+                      captionSettings.enabled ? 'bg-blue-500 ring-2 ring-white' : 'bg-gray-500'
                     )}
-                    title={isCameraEnabled ? 'Turn off camera' : 'Turn on camera'}
+                    title={captionSettings.enabled ? t('video.hideCaptions') : t('video.showCaptions')}
+                    aria-label={t('video.showCaptions')}
+                    aria-pressed={captionSettings.enabled}
                   >
-                    {isCameraEnabled ? <Video className="h-5 w-5" /> : <VideoOff className="h-5 w-5" />}
+                    <Subtitles className="h-5 w-5" />
                   </button>
+
+                  {['thinking', 'botSpeaking'].includes(voiceActivity.phase) && (
+                    <button
+                      onClick={interruptBot}
+                      className="flex items-center px-4 py-3 rounded-full bg-red-500 text-white text-sm font-medium hover:opacity-80 transition-all"
+                      title={t('video.interruptTitle', { key: formatCombo(shortcuts.bindings.interruptBot) || t('common.noKey') })}
+                    >
+                      <StopCircle className="h-5 w-5 me-2" />
+                      {t('video.interrupt')}
+                    </button>
+                  )}
                 </div>
 
                 {/* Status indicator */}
-                <div className="absolute top-4 right-4">
-                  <div className="flex items-center space-x-2 bg-black bg-opacity-50 rounded-full px-3 py-1">
-                    <Users className="h-4 w-4 text-white" />
-                    <span className="text-white text-sm">1 connected</span>
+                <div className="absolute top-4 end-4">
+                  <div
+                    className="flex items-center space-x-2 bg-black bg-opacity-50 rounded-full px-3 py-1"
+                    title={participants.map(p => translateText(displayName(p))).join(', ')}
+                  >
+                    <Users className="h-4 w-4 text-white" aria-hidden="true" />
+                    <span className="text-white text-sm">{t('video.participants', { count: participants.length })}</span>
                   </div>
                 </div>
               </div>
@@ -702,20 +1434,27 @@ const RTVIApp: React.FC = () => {
                 <button
                   onClick={() => setShowChat(!showChat)}
                   className="flex items-center space-x-2 text-blue-600 hover:text-blue-700 transition-colors"
+                  aria-expanded={showChat}
+                  aria-controls="chat-panel"
                 >
                   <MessageSquare className="h-5 w-5" />
-                  <span>{showChat ? 'Hide' : 'Show'} Text Chat</span>
+                  <span>{showChat ? t('video.hideChat') : t('video.showChat')}</span>
                 </button>
               </div>
             </div>
 
             {/* Chat Panel */}
             {showChat && (
-              <ChatPanel
-                messages={messages}
-                onSendMessage={handleSendMessage}
-                isVisible={showChat}
-              />
+              <PanelBoundary name={t('chat.panel')}>
+                <ChatPanel
+                  messages={messages}
+                  onSendMessage={handleSendMessage}
+                  onRetryMessage={handleRetryMessage}
+                  onEditMessage={handleEditMessage}
+                  onDeleteMessage={handleDeleteMessage}
+                  isVisible={showChat}
+                />
+              </PanelBoundary>
             )}
           </div>
 
@@ -724,52 +1463,83 @@ const RTVIApp: React.FC = () => {
             {/* Tab Navigation */}
             <div className="bg-white rounded-lg shadow-sm border">
               <div className="border-b">
-                <nav className="flex space-x-1 p-1">
-                  {tabs.map((tab) => {
-                    const Icon = tab.icon;
-                    return (
-                      <button
-                        key={tab.id}
-                        onClick={() => setActiveTab(tab.id)}
-                        className={cn(
-                          "flex items-center space-x-2 px-3 py-2 rounded-md text-sm font-medium transition-colors",
-                          activeTab === tab.id
-                            ? 'bg-blue-500 text-white'
-                            : 'text-gray-600 hover:text-gray-800 hover:bg-gray-100'
-                        )}
-                      >
-                        <Icon className="h-4 w-4" />
-                        <span>{tab.label}</span>
-                      </button>
-                    );
-                  })}
-                </nav>
+                <TabList tabs={tabs} activeTab={activeTab} onSelect={setActiveTab} />
               </div>
               
               {/* Tab Content */}
-              <div className="p-4">
-                {activeTab === 'chat' && (
-                  <div className="text-center text-gray-500 py-8">
-                    <MessageSquare className="h-8 w-8 mx-auto mb-2 opacity-50" />
-                    <p>Chat panel shown below video</p>
-                    <p className="text-xs mt-1">Toggle visibility with the button above</p>
-                  </div>
-                )}
-                
-                {activeTab === 'files' && (
-                  <div className="space-y-4">
-                    <FileUploader onFileUpload={handleFileUpload} />
-                    <FileAnalysisPanel files={uploadedFiles} onAnalyze={handleAnalyzeFile} />
-                  </div>
-                )}
-                
-                {activeTab === 'screen' && (
-                  <ScreenShare isSharing={isScreenSharing} onToggle={handleScreenShareToggle} />
-                )}
-                
-                {activeTab === 'analytics' && (
-                  <AnalyticsPanel data={analytics} onRefresh={handleRefreshAnalytics} />
-                )}
+              <div
+                role="tabpanel"
+                id={`tabpanel-${activeTab}`}
+                aria-labelledby={`tab-${activeTab}`}
+                tabIndex={0}
+                className="p-4 focus:outline-none focus-visible:ring-2 focus-visible:ring-inset focus-visible:ring-blue-500 rounded-b-lg"
+              >
+                {/* A crashed tab is replaced by its fallback; switching tabs starts it fresh */}
+                <PanelBoundary key={activeTab} name={tabs.find(tab => tab.id === activeTab)?.label ?? t('panel.generic')}>
+                  {activeTab === 'chat' && (
+                    <div className="space-y-4">
+                      <div className="text-center text-gray-500 py-4">
+                        <MessageSquare className="h-8 w-8 mx-auto mb-2 opacity-50" />
+                        <p>{t('tabs.chatHint')}</p>
+                        <p className="text-xs mt-1">{t('tabs.chatToggleHint')}</p>
+                      </div>
+                      <ExportPanel
+                        source={exportSource}
+                        onImport={handleImportConversation}
+                        onImportError={handleImportError}
+                      />
+                    </div>
+                  )}
+                  
+                  {activeTab === 'files' && (
+                    <div className="space-y-4">
+                      <FileUploader onFileUpload={handleFileUpload} />
+                      <UploadQueue
+                        uploads={uploads}
+                        onCancel={cancelUpload}
+                        onRetry={retryUpload}
+                      />
+                      <FileAnalysisPanel files={uploadedFiles} onAnalyze={handleAnalyzeFile} />
+                    </div>
+                  )}
+                  
+                  {activeTab === 'screen' && (
+                    <ScreenShare
+                      isSharing={screenShare.isSharing}
+                      pending={screenShare.pending}
+                      source={screenShare.source}
+                      error={screenShare.error}
+                      disabled={!isConnected}
+                      onToggle={screenShare.toggle}
+                    />
+                  )}
+                  
+                  {activeTab === 'analytics' && (
+                    <AnalyticsPanel
+                      data={analytics}
+                      metrics={metrics}
+                      analysis={analysis}
+                      onRefresh={handleRefreshAnalytics}
+                    />
+                  )}
+
+                  {activeTab === 'bot' && <BotConfigPanel presets={botPresets} />}
+
+                  {activeTab === 'settings' && (
+                    <div className="space-y-8">
+                      <SettingsPanel
+                        micMode={micMode}
+                        onMicModeChange={voiceControls.setMicMode}
+                        talkKey={shortcuts.bindings.pushToTalk}
+                        onShowShortcuts={() => setShowShortcuts(true)}
+                        onRunDeviceCheck={isConnected || isReconnecting ? null : onRunDeviceCheck}
+                      />
+                      <LanguageSettings isConnected={isConnected} />
+                      <CaptionSettingsPanel settings={captionSettings} onChange={updateCaptionSettings} />
+                      <ConfigSettings />
+                    </div>
+                  )}
+                </PanelBoundary>
               </div>
             </div>
           </div>
@@ -782,34 +1552,113 @@ const RTVIApp: React.FC = () => {
 };
 
 // RTVI Provider Component
-const RTVIProvider: React.FC<{ children: React.ReactNode }> = ({ children }) => {
-  const transport = new DailyTransport();
-
-  const client = new RTVIClient({
-    transport,
-    params: {
-      baseUrl: CONFIG.serverUrl,
-      endpoints: {
-        connect: CONFIG.connectEndpoint,
-      },
-    },
-    enableMic: true,
-    enableCam: false,
-  });
+const RTVIProvider: React.FC<{ media: MediaFlags; children: React.ReactNode }> = ({ media, children }) => {
+  const { config: { transport: kind, serverUrl, connectEndpoint }, overrides, saveOverrides } = useConfig();
+  const { mic: enableMic, cam: enableCam } = media;
+  const { t } = useI18n();
+
+  const setup = useMemo(() => {
+    try {
+      const { transport, params } = createTransport(kind, { serverUrl, connectEndpoint });
+
+      // Push-to-talk joins with the mic closed rather than opening it until ready
+      const client = new RTVIClient({
+        transport,
+        params,
+        enableMic: enableMic && loadMicMode() === 'open',
+        enableCam,
+      });
+      return { client, error: null };
+    } catch (error) {
+      console.error('Transport setup failed:', error);
+      return { client: null, error: error as Error };
+    }
+  }, [kind, serverUrl, connectEndpoint, enableMic, enableCam]);
+
+  // A client replaced by new connection settings must not keep its session
+  useEffect(() => () => {
+    setup.client?.disconnect().catch(() => {});
+  }, [setup.client]);
+
+  // Settings live inside the app this screen replaces, so recovery has to
+  // happen here: dropping the saved overrides rebuilds the client from the
+  // remaining layers
+  if (!setup.client) {
+    const hasOverrides = Object.keys(overrides).length > 0;
+    return (
+      <div className="min-h-screen flex items-center justify-center bg-gray-50">
+        <div className="max-w-md p-6 bg-white border border-red-200 rounded-lg shadow-sm text-center">
+          <h1 className="text-xl font-bold text-gray-800 mb-2">{t('app.transportFailed')}</h1>
+          <p className="text-sm text-red-700">{setup.error?.message}</p>
+          <p className="text-sm text-gray-600 mt-3">
+            {t(hasOverrides ? 'app.transportFailedSaved' : 'app.transportFailedDeployed')}
+          </p>
+          <div className="flex justify-center space-x-2 mt-4">
+            {hasOverrides && (
+              <button onClick={() => saveOverrides({})} className="btn-primary text-sm">
+                {t('app.resetSettings')}
+              </button>
+            )}
+            <button onClick={() => window.location.reload()} className="btn-outline text-sm">
+              {t('app.crashRefresh')}
+            </button>
+          </div>
+        </div>
+      </div>
+    );
+  }
 
   return (
-    <RTVIClientProvider client={client}>
+    <RTVIClientProvider client={setup.client}>
       {children}
     </RTVIClientProvider>
   );
 };
 
+// Session: the pre-call check runs first and its results decide whether the
+// client starts with the mic and camera on
+const Session: React.FC = () => {
+  const { config } = useConfig();
+  const [media, setMedia] = useState<MediaFlags | null>(null);
+  const [checking, setChecking] = useState(true);
+
+  const handleCheckComplete = useCallback((flags: MediaFlags) => {
+    saveMediaFlags(flags);
+    setMedia(flags);
+    setChecking(false);
+  }, []);
+
+  return (
+    <>
+      {checking && (
+        <PreCallCheck
+          endpointUrl={connectUrl(config.transport, config)}
+          onComplete={handleCheckComplete}
+        />
+      )}
+      {media ? (
+        <RTVIProvider media={media}>
+          <RTVIApp media={media} onRunDeviceCheck={() => setChecking(true)} />
+        </RTVIProvider>
+      ) : (
+        <div className="min-h-screen bg-gray-50" />
+      )}
+    </>
+  );
+};
+
 // Main App Component
 const App: React.FC = () => {
   return (
-    <RTVIProvider>
-      <RTVIApp />
-    </RTVIProvider>
+    <I18nProvider>
+      <AnnouncerProvider>
+        <NotificationProvider>
+          <ConfigProvider>
+            <Session />
+          </ConfigProvider>
+        </NotificationProvider>
+      </AnnouncerProvider>
+    </I18nProvider>
   );
 };
 
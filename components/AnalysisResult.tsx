@@ -0,0 +1,55 @@
+import React from 'react';
+import { useI18n } from '../hooks/useI18n';
+
+const humanize = (key: string) =>
+  key.replace(/[_-]+/g, ' ').replace(/([a-z])([A-Z])/g, '$1 $2').replace(/^\w/, c => c.toUpperCase());
+
+// Renders whatever structure analysis/analyze_content returns: objects become
+// labelled rows, arrays become lists and scalars are shown as text.
+const ResultValue: React.FC<{ value: unknown; depth: number }> = ({ value, depth }) => {
+  const { t, formatNumber } = useI18n();
+
+  if (value === null || value === undefined || value === '') {
+    return <span className="text-gray-400">—</span>;
+  }
+
+  if (Array.isArray(value)) {
+    if (value.length === 0) return <span className="text-gray-400">{t('analysis.none')}</span>;
+    return (
+      <ul className="list-disc ps-4 space-y-1">
+        {value.map((item, idx) => (
+          <li key={idx}><ResultValue value={item} depth={depth + 1} /></li>
+        ))}
+      </ul>
+    );
+  }
+
+  if (typeof value === 'object') {
+    return (
+      <dl className={depth > 0 ? 'ps-3 border-s space-y-1' : 'space-y-2'}>
+        {Object.entries(value as Record<string, unknown>).map(([key, item]) => (
+          <div key={key}>
+            <dt className="text-xs font-medium text-gray-600">{humanize(key)}</dt>
+            <dd className="text-sm text-gray-800"><ResultValue value={item} depth={depth + 1} /></dd>
+          </div>
+        ))}
+      </dl>
+    );
+  }
+
+  if (typeof value === 'number') {
+    return <span>{formatNumber(value, { maximumFractionDigits: 2 })}</span>;
+  }
+
+  if (typeof value === 'boolean') {
+    return <span>{t(value ? 'analysis.yes' : 'analysis.no')}</span>;
+  }
+
+  return <span className="whitespace-pre-wrap">{String(value)}</span>;
+};
+
+export const AnalysisResult: React.FC<{ result: unknown }> = ({ result }) => (
+  <div className="p-3 bg-gray-50 rounded-lg border max-h-64 overflow-y-auto scrollbar-thin">
+    <ResultValue value={result} depth={0} />
+  </div>
+);
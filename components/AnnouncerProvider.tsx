@@ -0,0 +1,31 @@
+import React, { useCallback, useMemo, useRef, useState } from 'react';
+import { AnnouncerContext } from '../hooks/useAnnouncer';
+import type { Announcement, Politeness } from '../lib/a11y';
+
+// Announcer Provider
+export const AnnouncerProvider: React.FC<{ children: React.ReactNode }> = ({ children }) => {
+  const [polite, setPolite] = useState<Announcement | null>(null);
+  const [assertive, setAssertive] = useState<Announcement | null>(null);
+  const nextId = useRef(0);
+
+  const announce = useCallback((message: string, politeness: Politeness = 'polite') => {
+    if (!message.trim()) return;
+    const announcement = { id: ++nextId.current, message, politeness };
+    (politeness === 'assertive' ? setAssertive : setPolite)(announcement);
+  }, []);
+
+  const value = useMemo(() => ({ announce }), [announce]);
+
+  // Keyed by id so repeating the same text inserts a new node and is read again
+  return (
+    <AnnouncerContext.Provider value={value}>
+      {children}
+      <div className="sr-only" role="status" aria-live="polite" aria-atomic="true">
+        {polite && <span key={polite.id}>{polite.message}</span>}
+      </div>
+      <div className="sr-only" role="alert" aria-live="assertive" aria-atomic="true">
+        {assertive && <span key={assertive.id}>{assertive.message}</span>}
+      </div>
+    </AnnouncerContext.Provider>
+  );
+};
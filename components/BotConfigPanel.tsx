@@ -0,0 +1,208 @@
+import React, { useEffect, useState } from 'react';
+import { Bot, RefreshCw, Save, Trash2, Zap } from 'lucide-react';
+import { useRTVIClientTransportState } from '@pipecat-ai/client-react';
+import { useBotConfig } from '../hooks/useBotConfig';
+import { useI18n } from '../hooks/useI18n';
+import type { useBotPresets } from '../hooks/useBotPresets';
+import type { BotSettings } from '../lib/botConfig';
+import { cn } from '../lib/utils';
+
+const toDraft = (settings: BotSettings | null | undefined): Required<BotSettings> => ({
+  llmModel: settings?.llmModel ?? '',
+  systemPrompt: settings?.systemPrompt ?? '',
+  ttsVoice: settings?.ttsVoice ?? '',
+  sttLanguage: settings?.sttLanguage ?? ''
+});
+
+// Blank fields mean "leave as is"
+const fromDraft = (draft: Required<BotSettings>): BotSettings => ({
+  llmModel: draft.llmModel.trim() || undefined,
+  systemPrompt: draft.systemPrompt.trim() || undefined,
+  ttsVoice: draft.ttsVoice.trim() || undefined,
+  sttLanguage: draft.sttLanguage.trim() || undefined
+});
+
+// Text Field
+const TextField: React.FC<{
+  label: string;
+  value: string;
+  placeholder?: string;
+  onChange: (value: string) => void;
+}> = ({ label, value, placeholder, onChange }) => (
+  <label className="block">
+    <span className="block text-xs font-medium text-gray-600 mb-1">{label}</span>
+    <input
+      type="text"
+      value={value}
+      placeholder={placeholder}
+      onChange={(e) => onChange(e.target.value)}
+      className="input-field text-sm"
+    />
+  </label>
+);
+
+// Bot Config Panel
+export const BotConfigPanel: React.FC<{
+  presets: ReturnType<typeof useBotPresets>;
+}> = ({ presets }) => {
+  const transportState = useRTVIClientTransportState();
+  const isReady = transportState === 'ready';
+  const { settings: live, loading, applying, error, refresh, apply } = useBotConfig();
+  const { presets: saved, activeId, activePreset, select, save, remove } = presets;
+  const { t, translateText } = useI18n();
+
+  const [draft, setDraft] = useState<Required<BotSettings>>(() => toDraft(activePreset?.settings));
+  const [presetName, setPresetName] = useState(activePreset?.name ?? '');
+  const [interrupt, setInterrupt] = useState(false);
+  const [applied, setApplied] = useState(false);
+
+  // The panel isn't mounted when the bot becomes ready if another tab is open
+  useEffect(() => {
+    if (isReady && !live) refresh();
+  }, [isReady, live, refresh]);
+
+  // Show what the bot is actually running once we know it
+  useEffect(() => {
+    if (live) setDraft(toDraft(live));
+  }, [live]);
+
+  const setField = (key: keyof BotSettings, value: string) => {
+    setDraft(prev => ({ ...prev, [key]: value }));
+    setApplied(false);
+  };
+
+  const handleApply = async () => {
+    setApplied(await apply(fromDraft(draft), interrupt));
+  };
+
+  const handleSelectPreset = (id: string) => {
+    const preset = saved.find(p => p.id === id);
+    select(preset ? preset.id : null);
+    setPresetName(preset?.name ?? '');
+    if (preset) setDraft(toDraft(preset.settings));
+  };
+
+  const handleSavePreset = () => {
+    const name = presetName.trim();
+    if (name) save(name, fromDraft(draft));
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center justify-between">
+        <h3 className="font-semibold text-gray-700 flex items-center">
+          <Bot className="h-5 w-5 me-2 text-blue-600" />
+          {t('bot.title')}
+        </h3>
+        <button
+          onClick={refresh}
+          disabled={!isReady || loading}
+          className="px-3 py-1 text-xs bg-gray-500 text-white rounded hover:bg-gray-600 transition-colors disabled:opacity-50"
+        >
+          <RefreshCw className={cn('h-3 w-3 me-1 inline', loading && 'motion-safe:animate-spin')} />
+          {t('bot.reload')}
+        </button>
+      </div>
+
+      <p className="text-xs text-gray-500">
+        {t(isReady ? 'bot.editingLive' : 'bot.offline')}
+      </p>
+
+      <TextField
+        label={t('bot.llmModel')}
+        value={draft.llmModel}
+        placeholder={t('bot.serverDefault')}
+        onChange={(value) => setField('llmModel', value)}
+      />
+      <label className="block">
+        <span className="block text-xs font-medium text-gray-600 mb-1">{t('bot.systemPrompt')}</span>
+        <textarea
+          value={draft.systemPrompt}
+          placeholder={t('bot.serverDefault')}
+          onChange={(e) => setField('systemPrompt', e.target.value)}
+          rows={5}
+          className="input-field text-sm resize-y"
+        />
+      </label>
+      <div className="grid grid-cols-2 gap-3">
+        <TextField
+          label={t('bot.ttsVoice')}
+          value={draft.ttsVoice}
+          placeholder={t('bot.voiceId')}
+          onChange={(value) => setField('ttsVoice', value)}
+        />
+        <TextField
+          label={t('bot.sttLanguage')}
+          value={draft.sttLanguage}
+          placeholder={t('bot.languageExample')}
+          onChange={(value) => setField('sttLanguage', value)}
+        />
+      </div>
+
+      <div className="flex items-center justify-between">
+        <label className="flex items-center text-xs text-gray-600">
+          <input
+            type="checkbox"
+            checked={interrupt}
+            onChange={(e) => setInterrupt(e.target.checked)}
+            className="me-2"
+          />
+          {t('bot.interrupt')}
+        </label>
+        <button
+          onClick={handleApply}
+          disabled={!isReady || !live || applying}
+          className="px-3 py-1 text-xs bg-blue-500 text-white rounded hover:bg-blue-600 transition-colors disabled:opacity-50"
+        >
+          <Zap className="h-3 w-3 me-1 inline" />
+          {t(applying ? 'bot.applying' : 'bot.apply')}
+        </button>
+      </div>
+
+      {applied && <p className="text-xs text-green-600">{t('bot.applied')}</p>}
+      {error && <p className="text-xs text-red-600">{translateText(error)}</p>}
+
+      <div className="pt-4 border-t space-y-3">
+        <h4 className="text-sm font-semibold text-gray-700">{t('bot.presets')}</h4>
+        <label className="block">
+          <span className="block text-xs font-medium text-gray-600 mb-1">{t('bot.sentOnConnect')}</span>
+          <select
+            value={activeId ?? ''}
+            onChange={(e) => handleSelectPreset(e.target.value)}
+            className="input-field text-sm"
+          >
+            <option value="">{t('bot.noPreset')}</option>
+            {saved.map(preset => (
+              <option key={preset.id} value={preset.id}>{preset.name}</option>
+            ))}
+          </select>
+        </label>
+        <div className="flex space-x-2">
+          <input
+            type="text"
+            value={presetName}
+            onChange={(e) => setPresetName(e.target.value)}
+            placeholder={t('bot.presetName')}
+            className="input-field text-sm flex-1"
+          />
+          <button
+            onClick={handleSavePreset}
+            disabled={!presetName.trim()}
+            className="px-3 py-1 text-xs bg-blue-500 text-white rounded hover:bg-blue-600 transition-colors disabled:opacity-50"
+            title={t('bot.savePreset')}
+          >
+            <Save className="h-3 w-3 inline" />
+          </button>
+          <button
+            onClick={() => activeId && remove(activeId)}
+            disabled={!activeId}
+            className="px-3 py-1 text-xs bg-red-500 text-white rounded hover:bg-red-600 transition-colors disabled:opacity-50"
+            title={t('bot.deletePreset')}
+          >
+            <Trash2 className="h-3 w-3 inline" />
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
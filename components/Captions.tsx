@@ -0,0 +1,156 @@
+import React from 'react';
+import { Subtitles } from 'lucide-react';
+import { cn } from '../lib/utils';
+import { useI18n } from '../hooks/useI18n';
+import {
+  CAPTION_FONT_SIZES,
+  MAX_CAPTION_LINES,
+  MIN_CAPTION_LINES,
+  type CaptionCue,
+  type CaptionFontSize,
+  type CaptionPosition,
+  type CaptionSettings
+} from '../lib/captions';
+
+const LINE_HEIGHT = 1.4;
+
+// Captions Overlay
+export const CaptionsOverlay: React.FC<{
+  cues: CaptionCue[];
+  settings: CaptionSettings;
+}> = ({ cues, settings }) => {
+  const { t } = useI18n();
+  if (!settings.enabled || cues.length === 0) return null;
+
+  return (
+    <div
+      className={cn(
+        'absolute left-1/2 -translate-x-1/2 w-[90%] flex justify-center pointer-events-none',
+        settings.position === 'top' ? 'top-14' : 'bottom-20'
+      )}
+    >
+      {/* Older lines overflow at the top and are clipped, so the box always
+          shows the newest `lines` lines however the text wraps */}
+      <div
+        className={cn(
+          'flex flex-col justify-end overflow-hidden px-3 py-1 rounded text-white text-center',
+          CAPTION_FONT_SIZES[settings.fontSize].className
+        )}
+        style={{
+          backgroundColor: `rgba(0, 0, 0, ${settings.backgroundOpacity / 100})`,
+          lineHeight: LINE_HEIGHT,
+          maxHeight: `calc(${settings.lines * LINE_HEIGHT}em + 0.5rem)`
+        }}
+      >
+        {cues.map(cue => (
+          <p key={cue.id} className={cn(cue.speaker === 'user' && 'text-yellow-200')}>
+            {cue.speaker === 'user' && <span className="font-semibold">{t('captions.youSaid')} </span>}
+            {cue.text}
+          </p>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+// Caption Settings
+export const CaptionSettingsPanel: React.FC<{
+  settings: CaptionSettings;
+  onChange: (patch: Partial<CaptionSettings>) => void;
+}> = ({ settings, onChange }) => {
+  const positions: CaptionPosition[] = ['bottom', 'top'];
+  const { t, formatNumber } = useI18n();
+
+  return (
+    <div className="space-y-4">
+      <h3 className="font-semibold text-gray-700 flex items-center">
+        <Subtitles className="h-5 w-5 me-2 text-blue-600" />
+        {t('captions.title')}
+      </h3>
+
+      <label className="flex items-center text-sm">
+        <input
+          type="checkbox"
+          checked={settings.enabled}
+          onChange={(e) => onChange({ enabled: e.target.checked })}
+          className="me-2"
+        />
+        {t('captions.enable')}
+      </label>
+
+      <fieldset disabled={!settings.enabled} className="space-y-3 disabled:opacity-50">
+        <label className="flex items-center text-sm">
+          <input
+            type="checkbox"
+            checked={settings.showUser}
+            onChange={(e) => onChange({ showUser: e.target.checked })}
+            className="me-2"
+          />
+          {t('captions.showUser')}
+        </label>
+
+        <label className="block">
+          <span className="block text-xs font-medium text-gray-600 mb-1">{t('captions.fontSize')}</span>
+          <select
+            value={settings.fontSize}
+            onChange={(e) => onChange({ fontSize: e.target.value as CaptionFontSize })}
+            className="input-field text-sm"
+          >
+            {(Object.keys(CAPTION_FONT_SIZES) as CaptionFontSize[]).map(size => (
+              <option key={size} value={size}>{t(CAPTION_FONT_SIZES[size].label)}</option>
+            ))}
+          </select>
+        </label>
+
+        <div>
+          <span className="block text-xs font-medium text-gray-600 mb-1">{t('captions.position')}</span>
+          <div className="flex space-x-4 text-sm">
+            {positions.map(position => (
+              <label key={position} className="flex items-center">
+                <input
+                  type="radio"
+                  name="caption-position"
+                  checked={settings.position === position}
+                  onChange={() => onChange({ position })}
+                  className="me-2"
+                />
+                {t(position === 'top' ? 'captions.top' : 'captions.bottom')}
+              </label>
+            ))}
+          </div>
+        </div>
+
+        <label className="block">
+          <span className="flex justify-between text-xs font-medium text-gray-600 mb-1">
+            {t('captions.opacity')}
+            <span>{formatNumber(settings.backgroundOpacity / 100, { style: 'percent' })}</span>
+          </span>
+          <input
+            type="range"
+            min={0}
+            max={100}
+            step={5}
+            value={settings.backgroundOpacity}
+            onChange={(e) => onChange({ backgroundOpacity: Number(e.target.value) })}
+            className="w-full"
+          />
+        </label>
+
+        <label className="block">
+          <span className="flex justify-between text-xs font-medium text-gray-600 mb-1">
+            {t('captions.lines')}
+            <span>{formatNumber(settings.lines)}</span>
+          </span>
+          <input
+            type="range"
+            min={MIN_CAPTION_LINES}
+            max={MAX_CAPTION_LINES}
+            value={settings.lines}
+            onChange={(e) => onChange({ lines: Number(e.target.value) })}
+            className="w-full"
+          />
+        </label>
+      </fieldset>
+    </div>
+  );
+};
@@ -0,0 +1,58 @@
+import React, { useCallback, useEffect, useMemo, useState } from 'react';
+import { Loader } from 'lucide-react';
+import { ConfigContext } from '../hooks/useConfig';
+import { useI18n } from '../hooks/useI18n';
+import {
+  fetchConfigFile,
+  loadConfigOverrides,
+  readEnvLayer,
+  readQueryLayer,
+  resolveConfig,
+  saveConfigOverrides,
+  type ConfigLayer
+} from '../lib/config';
+
+// Config Provider
+export const ConfigProvider: React.FC<{ children: React.ReactNode }> = ({ children }) => {
+  const [file, setFile] = useState<Awaited<ReturnType<typeof fetchConfigFile>> | null>(null);
+  const { t } = useI18n();
+  const [overrides, setOverrides] = useState<ConfigLayer>(loadConfigOverrides);
+
+  useEffect(() => {
+    let cancelled = false;
+    fetchConfigFile().then(result => {
+      if (!cancelled) setFile(result);
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  const saveOverrides = useCallback((next: ConfigLayer) => {
+    saveConfigOverrides(next);
+    setOverrides(next);
+  }, []);
+
+  const value = useMemo(() => {
+    if (!file) return null;
+    const resolved = resolveConfig([
+      ['env', readEnvLayer()],
+      ['file', file.layer],
+      ['user', overrides],
+      ['query', readQueryLayer()]
+    ]);
+    if (file.error) resolved.issues.unshift({ source: 'file', key: '*', message: file.error });
+    return { ...resolved, overrides, saveOverrides };
+  }, [file, overrides, saveOverrides]);
+
+  if (!value) {
+    return (
+      <div className="min-h-screen flex items-center justify-center bg-gray-50 text-gray-500">
+        <Loader className="h-5 w-5 me-2 motion-safe:animate-spin" />
+        {t('config.loading')}
+      </div>
+    );
+  }
+
+  return <ConfigContext.Provider value={value}>{children}</ConfigContext.Provider>;
+};
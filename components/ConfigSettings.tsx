@@ -0,0 +1,229 @@
+import React, { useEffect, useState } from 'react';
+import { SlidersHorizontal, RotateCcw, Bug, AlertTriangle } from 'lucide-react';
+import { useRTVIClientTransportState } from '@pipecat-ai/client-react';
+import { useConfig } from '../hooks/useConfig';
+import { useI18n } from '../hooks/useI18n';
+import {
+  checkConfigValue,
+  CONFIG_KEYS,
+  parseConfigInput,
+  type AppConfig,
+  type ConfigKey,
+  type ConfigSource
+} from '../lib/config';
+import { TRANSPORT_KINDS, transportLabel } from '../lib/transports';
+import { cn } from '../lib/utils';
+import type { Translatable } from '../lib/i18n';
+import type { MessageKey } from '../lib/locales/en';
+
+const LABELS: Record<ConfigKey, MessageKey> = {
+  serverUrl: 'config.key.serverUrl',
+  connectEndpoint: 'config.key.connectEndpoint',
+  transport: 'config.key.transport',
+  enableAnalytics: 'config.key.enableAnalytics',
+  maxFileSize: 'config.key.maxFileSize',
+  uploadChunkSize: 'config.key.uploadChunkSize',
+  allowedFileTypes: 'config.key.allowedFileTypes'
+};
+
+// Changing these rebuilds the RTVI client, which would end a live session
+const CONNECTION_KEYS: ConfigKey[] = ['serverUrl', 'connectEndpoint', 'transport'];
+
+const SOURCE_LABELS: Record<ConfigSource, MessageKey> = {
+  default: 'config.source.default',
+  env: 'config.source.env',
+  file: 'config.source.file',
+  user: 'config.source.user',
+  query: 'config.source.query'
+};
+
+const toInput = (value: AppConfig[ConfigKey]) =>
+  Array.isArray(value) ? value.join(', ') : String(value);
+
+const toDraft = (config: AppConfig) =>
+  Object.fromEntries(CONFIG_KEYS.map(key => [key, toInput(config[key])])) as Record<ConfigKey, string>;
+
+// Source Badge
+const SourceBadge: React.FC<{ source: ConfigSource }> = ({ source }) => {
+  const { t } = useI18n();
+  return (
+    <span className={cn(
+      'ms-2 px-1.5 py-0.5 rounded text-[10px] font-medium',
+      source === 'default' ? 'bg-gray-100 text-gray-500' : 'bg-blue-100 text-blue-700'
+    )}>
+      {t(SOURCE_LABELS[source])}
+    </span>
+  );
+};
+
+// Config Settings
+export const ConfigSettings: React.FC = () => {
+  const { config, origins, issues, overrides, saveOverrides } = useConfig();
+  const transportState = useRTVIClientTransportState();
+  const { t, translateText } = useI18n();
+  const isConnected = ['connecting', 'connected', 'ready'].includes(transportState);
+
+  const [draft, setDraft] = useState(() => toDraft(config));
+  const [errors, setErrors] = useState<Partial<Record<ConfigKey, Translatable>>>({});
+
+  useEffect(() => {
+    setDraft(toDraft(config));
+  }, [config]);
+
+  const setField = (key: ConfigKey, raw: string) => {
+    setDraft(prev => ({ ...prev, [key]: raw }));
+    setErrors(prev => ({ ...prev, [key]: undefined }));
+  };
+
+  const handleSave = () => {
+    const next = { ...overrides };
+    const nextErrors: Partial<Record<ConfigKey, Translatable>> = {};
+
+    for (const key of CONFIG_KEYS) {
+      if (draft[key] === toInput(config[key])) continue;
+      const value = parseConfigInput(key, draft[key]);
+      const error = checkConfigValue(key, value);
+      if (error) nextErrors[key] = error;
+      else next[key] = value;
+    }
+
+    setErrors(nextErrors);
+    if (Object.keys(nextErrors).length === 0) saveOverrides(next);
+  };
+
+  const resetField = (key: ConfigKey) => {
+    const next = { ...overrides };
+    delete next[key];
+    saveOverrides(next);
+  };
+
+  const isDirty = CONFIG_KEYS.some(key => draft[key] !== toInput(config[key]));
+
+  const renderInput = (key: ConfigKey, disabled: boolean) => {
+    if (key === 'enableAnalytics') {
+      return (
+        <input
+          type="checkbox"
+          checked={draft[key] === 'true'}
+          onChange={(e) => setField(key, String(e.target.checked))}
+          disabled={disabled}
+          className="h-4 w-4"
+        />
+      );
+    }
+    if (key === 'transport') {
+      return (
+        <select
+          value={draft[key]}
+          onChange={(e) => setField(key, e.target.value)}
+          disabled={disabled}
+          className="input-field text-sm disabled:opacity-50"
+        >
+          {TRANSPORT_KINDS.map(kind => (
+            <option key={kind} value={kind}>{transportLabel(kind)}</option>
+          ))}
+        </select>
+      );
+    }
+    return (
+      <input
+        type={key === 'maxFileSize' || key === 'uploadChunkSize' ? 'number' : 'text'}
+        value={draft[key]}
+        onChange={(e) => setField(key, e.target.value)}
+        disabled={disabled}
+        className={cn('input-field text-sm disabled:opacity-50', errors[key] && 'border-red-400')}
+      />
+    );
+  };
+
+  return (
+    <div className="space-y-4">
+      <h3 className="font-semibold text-gray-700 flex items-center">
+        <SlidersHorizontal className="h-5 w-5 me-2 text-blue-600" />
+        {t('config.title')}
+      </h3>
+
+      {isConnected && (
+        <p className="text-xs text-gray-500">{t('config.disconnectFirst')}</p>
+      )}
+
+      <div className="space-y-3">
+        {CONFIG_KEYS.map(key => {
+          const disabled = isConnected && CONNECTION_KEYS.includes(key);
+          return (
+            <div key={key}>
+              <div className="flex items-center text-xs font-medium text-gray-600 mb-1">
+                {t(LABELS[key])}
+                <SourceBadge source={origins[key]} />
+                {key in overrides && (
+                  <button
+                    onClick={() => resetField(key)}
+                    disabled={disabled}
+                    className="ms-auto text-gray-400 hover:text-gray-600 disabled:opacity-50"
+                    title={t('config.removeOverride')}
+                  >
+                    <RotateCcw className="h-3 w-3" />
+                  </button>
+                )}
+              </div>
+              {renderInput(key, disabled)}
+              {origins[key] === 'query' && (
+                <p className="text-xs text-gray-500 mt-1">{t('config.setByUrl', { key })}</p>
+              )}
+              {errors[key] && <p className="text-xs text-red-600 mt-1">{translateText(errors[key])}</p>}
+            </div>
+          );
+        })}
+      </div>
+
+      <div className="flex space-x-2">
+        <button
+          onClick={handleSave}
+          disabled={!isDirty}
+          className="px-3 py-1 text-xs bg-blue-500 text-white rounded hover:bg-blue-600 transition-colors disabled:opacity-50"
+        >
+          {t('config.save')}
+        </button>
+        <button
+          onClick={() => saveOverrides({})}
+          disabled={Object.keys(overrides).length === 0 || isConnected}
+          className="px-3 py-1 text-xs bg-gray-500 text-white rounded hover:bg-gray-600 transition-colors disabled:opacity-50"
+        >
+          {t('config.resetAll')}
+        </button>
+      </div>
+
+      {issues.length > 0 && (
+        <div className="p-3 bg-yellow-50 border border-yellow-200 rounded-lg space-y-1">
+          {issues.map((issue, idx) => (
+            <p key={idx} className="text-xs text-yellow-800 flex items-start">
+              <AlertTriangle className="h-3 w-3 me-1 mt-0.5 flex-shrink-0" />
+              <span>
+                <span className="font-medium">{t(SOURCE_LABELS[issue.source])}</span>{' '}
+                {t('config.issue', { key: issue.key, message: translateText(issue.message) })}
+              </span>
+            </p>
+          ))}
+        </div>
+      )}
+
+      <details className="text-xs">
+        <summary className="cursor-pointer text-gray-600 flex items-center">
+          <Bug className="h-3 w-3 me-1" />
+          {t('config.resolved')}
+        </summary>
+        <table className="mt-2 w-full">
+          <tbody>
+            {CONFIG_KEYS.map(key => (
+              <tr key={key} className="border-t">
+                <td className="py-1 pe-2 font-mono text-gray-600 align-top">{key}</td>
+                <td className="py-1 pe-2 font-mono break-all">{JSON.stringify(config[key])}</td>
+                <td className="py-1 text-gray-500 align-top">{t(SOURCE_LABELS[origins[key]])}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </details>
+    </div>
+  );
+};
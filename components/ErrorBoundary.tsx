@@ -0,0 +1,72 @@
+import React from 'react';
+import { AlertTriangle, RotateCcw } from 'lucide-react';
+import { useNotifications } from '../hooks/useNotifications';
+import { useI18n } from '../hooks/useI18n';
+
+interface ErrorBoundaryProps {
+  children: React.ReactNode;
+  fallback: (error: Error, reset: () => void) => React.ReactNode;
+  onError?: (error: Error, errorInfo: React.ErrorInfo) => void;
+}
+
+// Catches render errors below it. reset() remounts the children from scratch,
+// so a panel can recover without touching the rest of the app.
+export class ErrorBoundary extends React.Component<ErrorBoundaryProps, { error: Error | null }> {
+  constructor(props: ErrorBoundaryProps) {
+    super(props);
+    this.state = { error: null };
+    this.reset = this.reset.bind(this);
+  }
+
+  static getDerivedStateFromError(error: Error) {
+    return { error };
+  }
+
+  componentDidCatch(error: Error, errorInfo: React.ErrorInfo) {
+    this.props.onError?.(error, errorInfo);
+  }
+
+  reset() {
+    this.setState({ error: null });
+  }
+
+  render() {
+    if (this.state.error) return this.props.fallback(this.state.error, this.reset);
+    return this.props.children;
+  }
+}
+
+// Panel Boundary
+export const PanelBoundary: React.FC<{ name: string; children: React.ReactNode }> = ({ name, children }) => {
+  const { notify } = useNotifications();
+  const { t } = useI18n();
+
+  const handleError = (error: Error, errorInfo: React.ErrorInfo) => {
+    console.error(`${name} crashed:`, error, errorInfo);
+    notify({ severity: 'error', title: t('panel.crashed', { name }), message: error.message, source: name });
+  };
+
+  return (
+    <ErrorBoundary
+      onError={handleError}
+      fallback={(error, reset) => (
+        <div className="p-4 rounded-lg border border-red-200 bg-red-50 text-sm text-red-800">
+          <p className="flex items-center font-medium">
+            <AlertTriangle className="h-4 w-4 me-2" />
+            {t('panel.crashed', { name })}
+          </p>
+          <p className="mt-1 text-xs break-words opacity-80">{error.message}</p>
+          <button
+            onClick={reset}
+            className="mt-3 px-3 py-1 text-xs rounded bg-red-500 text-white hover:bg-red-600 transition-colors"
+          >
+            <RotateCcw className="h-3 w-3 me-1 inline" />
+            {t('panel.tryAgain')}
+          </button>
+        </div>
+      )}
+    >
+      {children}
+    </ErrorBoundary>
+  );
+};
@@ -0,0 +1,97 @@
+import React, { useRef } from 'react';
+import { Download, FileText, Subtitles, Upload } from 'lucide-react';
+import {
+  ConversationImportError,
+  parseConversationJSON,
+  toJSON,
+  toMarkdown,
+  toSRT,
+  toWebVTT,
+  type ConversationSource
+} from '../lib/conversationExport';
+import { downloadBlob } from '../lib/utils';
+import { useI18n } from '../hooks/useI18n';
+
+const FORMATS = [
+  { id: 'md', label: 'Markdown', icon: FileText, mime: 'text/markdown', render: toMarkdown },
+  { id: 'json', label: 'JSON', icon: Download, mime: 'application/json', render: toJSON },
+  { id: 'srt', label: 'SRT', icon: Subtitles, mime: 'application/x-subrip', render: toSRT },
+  { id: 'vtt', label: 'WebVTT', icon: Subtitles, mime: 'text/vtt', render: toWebVTT }
+];
+
+const fileSlug = (title: string) =>
+  title.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '').slice(0, 40) || 'conversation';
+
+// Export Panel
+export const ExportPanel: React.FC<{
+  source: ConversationSource;
+  onImport: (conversation: ConversationSource) => void;
+  onImportError: (message: string) => void;
+}> = ({ source, onImport, onImportError }) => {
+  const importRef = useRef<HTMLInputElement>(null);
+  const { t, translateText } = useI18n();
+  const hasVoice = source.messages.some(m => m.type === 'voice');
+  const isEmpty = !source.messages.some(m => m.sender !== 'system');
+
+  const handleExport = (format: typeof FORMATS[number]) => {
+    const blob = new Blob([format.render(source)], { type: format.mime });
+    downloadBlob(blob, `${fileSlug(source.title)}.${format.id}`);
+  };
+
+  const handleImport = async (file: File) => {
+    try {
+      onImport(parseConversationJSON(await file.text()));
+    } catch (error) {
+      onImportError(error instanceof ConversationImportError ? translateText(error.reason)
+        : error instanceof Error ? error.message
+        : String(error));
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      <h3 className="font-semibold text-gray-700 flex items-center">
+        <Download className="h-5 w-5 me-2 text-blue-600" />
+        {t('export.title')}
+      </h3>
+
+      <div className="grid grid-cols-2 gap-2">
+        {FORMATS.map((format) => {
+          const Icon = format.icon;
+          const isSubtitle = format.id === 'srt' || format.id === 'vtt';
+          return (
+            <button
+              key={format.id}
+              onClick={() => handleExport(format)}
+              disabled={isEmpty || (isSubtitle && !hasVoice)}
+              title={isSubtitle && !hasVoice ? t('export.needsVoice') : undefined}
+              className="btn-outline text-sm flex items-center justify-center disabled:opacity-50"
+            >
+              <Icon className="h-4 w-4 me-2" />
+              {format.label}
+            </button>
+          );
+        })}
+      </div>
+
+      <button
+        onClick={() => importRef.current?.click()}
+        className="w-full btn-outline text-sm flex items-center justify-center"
+      >
+        <Upload className="h-4 w-4 me-2" />
+        {t('export.import')}
+      </button>
+      <input
+        ref={importRef}
+        type="file"
+        accept="application/json,.json"
+        className="hidden"
+        onChange={(e) => {
+          const file = e.target.files?.[0];
+          if (file) handleImport(file);
+          e.target.value = '';
+        }}
+      />
+    </div>
+  );
+};
@@ -0,0 +1,93 @@
+import React from 'react';
+import { File, Image, X } from 'lucide-react';
+import type { FileData } from '../lib/types';
+import type { FilePreview } from '../hooks/useFilePreview';
+import { useDialogFocus } from '../hooks/useDialogFocus';
+import { useI18n } from '../hooks/useI18n';
+
+// File Thumbnail
+export const FileThumbnail: React.FC<{
+  file: FileData;
+  preview: FilePreview;
+}> = ({ file, preview }) => {
+  if (preview.kind === 'image' && preview.url) {
+    return (
+      <img
+        src={preview.url}
+        alt={file.name}
+        className="h-10 w-10 me-3 rounded object-cover border flex-shrink-0"
+      />
+    );
+  }
+
+  return file.type.startsWith('image/') ? (
+    <Image className="h-5 w-5 me-3 text-blue-500 flex-shrink-0" />
+  ) : (
+    <File className="h-5 w-5 me-3 text-gray-500 flex-shrink-0" />
+  );
+};
+
+// File Preview Modal
+export const FilePreviewModal: React.FC<{
+  file: FileData;
+  preview: FilePreview;
+  onClose: () => void;
+  onAnalyze: (file: FileData) => void;
+}> = ({ file, preview, onClose, onAnalyze }) => {
+  const dialogRef = useDialogFocus(onClose);
+  const { t, formatFileSize } = useI18n();
+
+  return (
+    <div
+      className="fixed inset-0 z-50 flex items-center justify-center bg-black bg-opacity-60 p-4"
+      onClick={onClose}
+    >
+      <div
+        ref={dialogRef}
+        role="dialog"
+        aria-modal="true"
+        aria-label={file.name}
+        tabIndex={-1}
+        className="bg-white rounded-lg shadow-lg w-full max-w-3xl max-h-full flex flex-col focus:outline-none"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="flex items-center px-4 py-3 border-b">
+          <p className="font-medium text-gray-700 truncate">{file.name}</p>
+          <button
+            onClick={onClose}
+            className="ms-auto p-1 text-gray-500 hover:text-gray-700 transition-colors"
+            title={t('preview.close')}
+          >
+            <X className="h-5 w-5" />
+          </button>
+        </div>
+
+        <div className="flex-1 overflow-auto p-4 min-h-[12rem]">
+          {preview.kind === 'image' && preview.url ? (
+            <img src={preview.url} alt={file.name} className="max-w-full max-h-[70vh] mx-auto" />
+          ) : preview.kind === 'pdf' && preview.url ? (
+            <iframe src={preview.url} title={file.name} className="w-full h-[70vh] border rounded" />
+          ) : preview.loading ? (
+            <p className="text-sm text-gray-500">{t('preview.loading')}</p>
+          ) : preview.text ? (
+            <pre className="text-sm text-gray-700 whitespace-pre-wrap font-sans">{preview.text}</pre>
+          ) : (
+            <p className="text-sm text-gray-500">{t('preview.unavailable')}</p>
+          )}
+        </div>
+
+        <div className="flex items-center justify-between px-4 py-3 border-t bg-gray-50 rounded-b-lg">
+          <p className="text-xs text-gray-500">
+            {file.type || t('preview.unknownType')} • {formatFileSize(file.size)}
+          </p>
+          <button
+            onClick={() => onAnalyze(file)}
+            className="px-3 py-1 text-xs bg-blue-500 text-white rounded hover:bg-blue-600 transition-colors"
+          >
+            {t('files.analyze')}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
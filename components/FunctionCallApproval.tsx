@@ -0,0 +1,75 @@
+import React from 'react';
+import { ShieldAlert, Check, X } from 'lucide-react';
+import type { PendingApproval } from '../hooks/useFunctionCalls';
+import { useDialogFocus } from '../hooks/useDialogFocus';
+import { useI18n } from '../hooks/useI18n';
+
+// Function Call Approval
+export const FunctionCallApproval: React.FC<{
+  approvals: PendingApproval[];
+  onApprove: (id: string) => void;
+  onDeny: (id: string) => void;
+}> = ({ approvals, onApprove, onDeny }) => {
+  if (approvals.length === 0) return null;
+  return <ApprovalDialog approvals={approvals} onApprove={onApprove} onDeny={onDeny} />;
+};
+
+// Mounted only while approvals are pending, so focus moves in when the first
+// arrives and returns when the last is answered. Escape denies.
+const ApprovalDialog: React.FC<{
+  approvals: PendingApproval[];
+  onApprove: (id: string) => void;
+  onDeny: (id: string) => void;
+}> = ({ approvals, onApprove, onDeny }) => {
+  const [current] = approvals;
+  const dialogRef = useDialogFocus(() => onDeny(current.id));
+  const { t } = useI18n();
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black bg-opacity-40 p-4">
+      <div
+        ref={dialogRef}
+        role="alertdialog"
+        aria-modal="true"
+        aria-labelledby="function-call-title"
+        aria-describedby="function-call-description"
+        tabIndex={-1}
+        className="w-full max-w-md bg-white rounded-lg shadow-xl p-5 space-y-4 focus:outline-none"
+      >
+        <div className="flex items-start">
+          <ShieldAlert className="h-6 w-6 me-3 text-yellow-500 flex-shrink-0" aria-hidden="true" />
+          <div>
+            <h2 id="function-call-title" className="font-semibold text-gray-800">{t('functions.title', { name: current.name })}</h2>
+            <p id="function-call-description" className="text-sm text-gray-600 mt-1">{current.description}</p>
+          </div>
+        </div>
+
+        <pre className="text-xs bg-gray-50 border rounded p-2 max-h-40 overflow-auto whitespace-pre-wrap">
+          {JSON.stringify(current.args ?? {}, null, 2)}
+        </pre>
+
+        <div className="flex items-center justify-between">
+          <span className="text-xs text-gray-500">
+            {approvals.length > 1 && t('functions.moreWaiting', { count: approvals.length - 1 })}
+          </span>
+          <div className="flex space-x-2">
+            <button
+              onClick={() => onDeny(current.id)}
+              className="px-4 py-2 text-sm rounded-lg bg-gray-200 text-gray-700 hover:bg-gray-300 transition-colors"
+            >
+              <X className="h-4 w-4 me-1 inline" />
+              {t('functions.deny')}
+            </button>
+            <button
+              onClick={() => onApprove(current.id)}
+              className="px-4 py-2 text-sm rounded-lg bg-blue-500 text-white hover:bg-blue-600 transition-colors"
+            >
+              <Check className="h-4 w-4 me-1 inline" />
+              {t('functions.allow')}
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,59 @@
+import React, { useCallback, useEffect, useMemo, useState } from 'react';
+import { I18nContext } from '../hooks/useI18n';
+import {
+  formatDate,
+  formatFileSize,
+  formatNumber,
+  formatTime,
+  loadLocale,
+  loadSpokenLanguage,
+  LOCALES,
+  saveLocale,
+  saveSpokenLanguage,
+  translate,
+  translateText,
+  type Locale,
+  type MessageParams,
+  type Translatable
+} from '../lib/i18n';
+import type { MessageKey } from '../lib/locales/en';
+
+// I18n Provider
+export const I18nProvider: React.FC<{ children: React.ReactNode }> = ({ children }) => {
+  const [locale, setLocaleState] = useState<Locale>(loadLocale);
+  const [spokenLanguageOverride, setSpokenOverride] = useState<string | null>(loadSpokenLanguage);
+  const { dir, speech } = LOCALES[locale];
+
+  // Direction lives on <html> so portals and overlays flip too
+  useEffect(() => {
+    document.documentElement.lang = locale;
+    document.documentElement.dir = dir;
+  }, [locale, dir]);
+
+  const setLocale = useCallback((next: Locale) => {
+    saveLocale(next);
+    setLocaleState(next);
+  }, []);
+
+  const setSpokenLanguage = useCallback((language: string | null) => {
+    saveSpokenLanguage(language);
+    setSpokenOverride(language);
+  }, []);
+
+  const value = useMemo(() => ({
+    locale,
+    dir,
+    setLocale,
+    spokenLanguage: spokenLanguageOverride ?? speech,
+    spokenLanguageOverride,
+    setSpokenLanguage,
+    t: (key: MessageKey, params?: MessageParams) => translate(locale, key, params),
+    translateText: (text: Translatable) => translateText(locale, text),
+    formatNumber: (value: number, options?: Intl.NumberFormatOptions) => formatNumber(locale, value, options),
+    formatTime: (date: string | number | Date) => formatTime(locale, date),
+    formatDate: (date: string | number | Date, options?: Intl.DateTimeFormatOptions) => formatDate(locale, date, options),
+    formatFileSize: (bytes: number) => formatFileSize(locale, bytes)
+  }), [locale, dir, speech, spokenLanguageOverride, setLocale, setSpokenLanguage]);
+
+  return <I18nContext.Provider value={value}>{children}</I18nContext.Provider>;
+};
@@ -0,0 +1,72 @@
+import React from 'react';
+import { Languages } from 'lucide-react';
+import { useI18n } from '../hooks/useI18n';
+import { isLocale, LOCALE_IDS, LOCALES, SPOKEN_LANGUAGES } from '../lib/i18n';
+
+// Locale Switcher
+export const LocaleSwitcher: React.FC = () => {
+  const { locale, setLocale, t } = useI18n();
+
+  return (
+    <label className="flex items-center text-gray-600" title={t('header.language')}>
+      <Languages className="h-5 w-5 me-1" />
+      <select
+        value={locale}
+        onChange={(e) => isLocale(e.target.value) && setLocale(e.target.value)}
+        className="bg-transparent text-sm rounded hover:bg-gray-100 focus:outline-none focus:ring-2 focus:ring-blue-500"
+        aria-label={t('header.language')}
+      >
+        {LOCALE_IDS.map(id => (
+          <option key={id} value={id}>{LOCALES[id].label}</option>
+        ))}
+      </select>
+    </label>
+  );
+};
+
+// Language Settings
+export const LanguageSettings: React.FC<{ isConnected: boolean }> = ({ isConnected }) => {
+  const { locale, setLocale, spokenLanguageOverride, setSpokenLanguage, t } = useI18n();
+  const interfaceSpeech = LOCALES[locale].speech;
+  const interfaceSpeechLabel = SPOKEN_LANGUAGES.find(l => l.tag === interfaceSpeech)?.label ?? interfaceSpeech;
+
+  return (
+    <div className="space-y-4">
+      <h3 className="font-semibold text-gray-700 flex items-center">
+        <Languages className="h-5 w-5 me-2 text-blue-600" />
+        {t('language.title')}
+      </h3>
+
+      <label className="block">
+        <span className="block text-xs font-medium text-gray-600 mb-1">{t('language.interface')}</span>
+        <select
+          value={locale}
+          onChange={(e) => isLocale(e.target.value) && setLocale(e.target.value)}
+          className="input-field text-sm"
+        >
+          {LOCALE_IDS.map(id => (
+            <option key={id} value={id}>{LOCALES[id].label}</option>
+          ))}
+        </select>
+      </label>
+
+      <label className="block">
+        <span className="block text-xs font-medium text-gray-600 mb-1">{t('language.spoken')}</span>
+        <select
+          value={spokenLanguageOverride ?? ''}
+          onChange={(e) => setSpokenLanguage(e.target.value || null)}
+          className="input-field text-sm"
+        >
+          <option value="">{t('language.followInterface', { language: interfaceSpeechLabel })}</option>
+          {SPOKEN_LANGUAGES.map(language => (
+            <option key={language.tag} value={language.tag}>{language.label}</option>
+          ))}
+        </select>
+        <span className="block text-xs text-gray-500 mt-1">
+          {t('language.spokenHint')}
+          {isConnected && ` ${t('language.appliesNextConnect')}`}
+        </span>
+      </label>
+    </div>
+  );
+};
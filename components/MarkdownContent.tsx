@@ -0,0 +1,196 @@
+import React, { useMemo, useState } from 'react';
+import { Copy, Check, Image as ImageIcon } from 'lucide-react';
+import { parseMarkdown, type Align, type Block, type Inline } from '../lib/markdown';
+import { highlight, type TokenType } from '../lib/highlight';
+import { cn } from '../lib/utils';
+import { useI18n } from '../hooks/useI18n';
+
+const TOKEN_CLASSES: Record<TokenType, string> = {
+  plain: '',
+  comment: 'text-gray-400 italic',
+  string: 'text-green-300',
+  number: 'text-orange-300',
+  keyword: 'text-purple-300',
+  literal: 'text-sky-300',
+  function: 'text-yellow-200'
+};
+
+const ALIGN_CLASSES: Record<Exclude<Align, null>, string> = {
+  left: 'text-start',
+  center: 'text-center',
+  right: 'text-end'
+};
+
+// Copy Button
+export const CopyButton: React.FC<{
+  text: string;
+  className?: string;
+  label?: string;
+}> = ({ text, className = '', label }) => {
+  const [copied, setCopied] = useState(false);
+  const { t } = useI18n();
+
+  const handleCopy = async () => {
+    try {
+      await navigator.clipboard.writeText(text);
+      setCopied(true);
+      setTimeout(() => setCopied(false), 1500);
+    } catch (error) {
+      console.error('Copy failed:', error);
+    }
+  };
+
+  return (
+    <button onClick={handleCopy} className={className} title={copied ? t('markdown.copied') : label ?? t('markdown.copy')}>
+      {copied ? <Check className="h-3 w-3" /> : <Copy className="h-3 w-3" />}
+    </button>
+  );
+};
+
+// Code Block
+const CodeBlock: React.FC<{ lang: string; text: string }> = ({ lang, text }) => {
+  const tokens = useMemo(() => highlight(text, lang), [text, lang]);
+  const { t } = useI18n();
+
+  return (
+    <div className="my-2 rounded-md overflow-hidden bg-gray-900 text-gray-100">
+      <div className="flex items-center justify-between px-3 py-1 text-[10px] uppercase tracking-wide text-gray-400 bg-gray-800">
+        <span>{lang || t('markdown.code')}</span>
+        <CopyButton text={text} label={t('markdown.copyCode')} className="p-1 rounded hover:bg-gray-700 hover:text-white" />
+      </div>
+      <pre className="p-3 overflow-x-auto text-xs leading-relaxed scrollbar-thin">
+        <code>
+          {tokens.map((token, idx) => (
+            <span key={idx} className={TOKEN_CLASSES[token.type]}>{token.text}</span>
+          ))}
+        </code>
+      </pre>
+    </div>
+  );
+};
+
+// Remote images are only fetched once the user asks for them, so a reply
+// can't make the browser request an attacker-chosen URL on its own
+const RemoteImage: React.FC<{ src: string; alt: string }> = ({ src, alt }) => {
+  const [loaded, setLoaded] = useState(false);
+  const { t } = useI18n();
+
+  if (!loaded) {
+    return (
+      <button
+        onClick={() => setLoaded(true)}
+        className="my-1 inline-flex items-center gap-1 px-2 py-1 text-xs rounded border border-dashed border-current opacity-80 hover:opacity-100"
+        title={src}
+      >
+        <ImageIcon className="h-3 w-3" />
+        <span>{t('markdown.loadImage', { host: new URL(src).host })}</span>
+        {alt && <span className="italic truncate max-w-[12rem]">{alt}</span>}
+      </button>
+    );
+  }
+
+  return (
+    <a href={src} target="_blank" rel="noopener noreferrer nofollow" className="block my-1">
+      <img src={src} alt={alt} referrerPolicy="no-referrer" className="max-w-full max-h-64 rounded" />
+    </a>
+  );
+};
+
+const renderInline = (nodes: Inline[]): React.ReactNode[] =>
+  nodes.map((node, idx) => {
+    switch (node.type) {
+      case 'text':
+        return <React.Fragment key={idx}>{node.text}</React.Fragment>;
+      case 'code':
+        return (
+          <code key={idx} className="px-1 py-0.5 rounded bg-black bg-opacity-10 font-mono text-[0.85em]">
+            {node.text}
+          </code>
+        );
+      case 'strong':
+        return <strong key={idx}>{renderInline(node.children)}</strong>;
+      case 'em':
+        return <em key={idx}>{renderInline(node.children)}</em>;
+      case 'del':
+        return <del key={idx}>{renderInline(node.children)}</del>;
+      case 'link':
+        return (
+          <a key={idx} href={node.href} target="_blank" rel="noopener noreferrer nofollow" className="underline break-words">
+            {renderInline(node.children)}
+          </a>
+        );
+      case 'image':
+        return node.remote
+          ? <RemoteImage key={idx} src={node.src} alt={node.alt} />
+          : <img key={idx} src={node.src} alt={node.alt} className="block my-1 max-w-full max-h-64 rounded" />;
+      case 'break':
+        return <br key={idx} />;
+    }
+  });
+
+const HEADING_CLASSES = ['text-base font-bold', 'text-base font-semibold', 'text-sm font-semibold'];
+
+const renderBlocks = (blocks: Block[]): React.ReactNode[] =>
+  blocks.map((block, idx) => {
+    switch (block.type) {
+      case 'paragraph':
+        return <p key={idx} className="my-1 first:mt-0 last:mb-0">{renderInline(block.children)}</p>;
+      case 'heading': {
+        const Tag = `h${Math.min(block.level + 2, 6)}` as 'h3';
+        return (
+          <Tag key={idx} className={cn('mt-2 mb-1 first:mt-0', HEADING_CLASSES[Math.min(block.level, 3) - 1])}>
+            {renderInline(block.children)}
+          </Tag>
+        );
+      }
+      case 'code':
+        return <CodeBlock key={idx} lang={block.lang} text={block.text} />;
+      case 'list': {
+        const items = block.items.map((item, i) => <li key={i}>{renderBlocks(item)}</li>);
+        return block.ordered
+          ? <ol key={idx} start={block.start} className="my-1 ps-5 list-decimal space-y-0.5">{items}</ol>
+          : <ul key={idx} className="my-1 ps-5 list-disc space-y-0.5">{items}</ul>;
+      }
+      case 'quote':
+        return (
+          <blockquote key={idx} className="my-1 ps-3 border-s-2 border-current border-opacity-30 opacity-80">
+            {renderBlocks(block.children)}
+          </blockquote>
+        );
+      case 'table':
+        return (
+          <div key={idx} className="my-2 overflow-x-auto scrollbar-thin">
+            <table className="text-xs border-collapse">
+              <thead>
+                <tr>
+                  {block.header.map((cell, col) => (
+                    <th key={col} className={cn('px-2 py-1 border font-semibold', block.align[col] && ALIGN_CLASSES[block.align[col]!])}>
+                      {renderInline(cell)}
+                    </th>
+                  ))}
+                </tr>
+              </thead>
+              <tbody>
+                {block.rows.map((row, r) => (
+                  <tr key={r}>
+                    {row.map((cell, col) => (
+                      <td key={col} className={cn('px-2 py-1 border', block.align[col] && ALIGN_CLASSES[block.align[col]!])}>
+                        {renderInline(cell)}
+                      </td>
+                    ))}
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        );
+      case 'rule':
+        return <hr key={idx} className="my-2 border-current opacity-20" />;
+    }
+  });
+
+// Markdown Content
+export const MarkdownContent: React.FC<{ text: string }> = ({ text }) => {
+  const blocks = useMemo(() => parseMarkdown(text), [text]);
+  return <div className="break-words">{renderBlocks(blocks)}</div>;
+};
@@ -0,0 +1,120 @@
+import React from 'react';
+import { Timer } from 'lucide-react';
+import type { PipelineMetrics } from '../hooks/usePipelineMetrics';
+import { formatMs, percentile, SERVICE_KINDS, type MetricSample, type ServiceKind } from '../lib/metrics';
+import { useI18n } from '../hooks/useI18n';
+
+const SERVICE_LABELS: Record<ServiceKind, string> = {
+  stt: 'STT',
+  llm: 'LLM',
+  tts: 'TTS'
+};
+
+const SERVICE_COLORS: Record<ServiceKind, string> = {
+  stt: '#8b5cf6',
+  llm: '#3b82f6',
+  tts: '#10b981'
+};
+
+const CHART_WIDTH = 240;
+const CHART_HEIGHT = 48;
+
+// Time Series Chart
+const TimeSeriesChart: React.FC<{
+  series: { samples: MetricSample[]; color: string }[];
+}> = ({ series }) => {
+  const { t } = useI18n();
+  const all = series.flatMap(s => s.samples);
+  if (all.length === 0) {
+    return (
+      <div className="h-12 flex items-center justify-center text-xs text-gray-400 bg-gray-50 rounded">
+        {t('metrics.noData')}
+      </div>
+    );
+  }
+
+  const minAt = Math.min(...all.map(s => s.at));
+  const maxAt = Math.max(...all.map(s => s.at));
+  const maxValue = Math.max(...all.map(s => s.value), 1);
+  const x = (at: number) => (maxAt === minAt ? CHART_WIDTH : ((at - minAt) / (maxAt - minAt)) * CHART_WIDTH);
+  const y = (value: number) => CHART_HEIGHT - (value / maxValue) * (CHART_HEIGHT - 4) - 2;
+
+  return (
+    <svg
+      viewBox={`0 0 ${CHART_WIDTH} ${CHART_HEIGHT}`}
+      preserveAspectRatio="none"
+      className="w-full h-12 bg-gray-50 rounded"
+    >
+      {series.map(({ samples, color }, idx) => samples.length === 1 ? (
+        <circle key={idx} cx={x(samples[0].at)} cy={y(samples[0].value)} r={2} fill={color} />
+      ) : (
+        <polyline
+          key={idx}
+          fill="none"
+          stroke={color}
+          strokeWidth={1.5}
+          vectorEffect="non-scaling-stroke"
+          points={samples.map(s => `${x(s.at)},${y(s.value)}`).join(' ')}
+        />
+      ))}
+    </svg>
+  );
+};
+
+// Percentile Summary
+const PercentileRow: React.FC<{
+  label: string;
+  color: string;
+  samples: MetricSample[];
+}> = ({ label, color, samples }) => {
+  const { locale, formatNumber } = useI18n();
+  return (
+    <div className="flex items-center text-xs">
+      <span className="w-2 h-2 rounded-full me-2" style={{ backgroundColor: color }} />
+      <span className="font-medium text-gray-700 w-10">{label}</span>
+      <span className="text-gray-500">p50 {formatMs(locale, percentile(samples, 50))}</span>
+      <span className="text-gray-500 ms-3">p95 {formatMs(locale, percentile(samples, 95))}</span>
+      <span className="text-gray-400 ms-auto">n={formatNumber(samples.length)}</span>
+    </div>
+  );
+};
+
+// Metric Section
+const ServiceMetricSection: React.FC<{
+  title: string;
+  series: Record<ServiceKind, MetricSample[]>;
+}> = ({ title, series }) => (
+  <div className="space-y-2">
+    <p className="text-xs font-medium text-gray-600">{title}</p>
+    <TimeSeriesChart
+      series={SERVICE_KINDS.map(kind => ({ samples: series[kind], color: SERVICE_COLORS[kind] }))}
+    />
+    {SERVICE_KINDS.map(kind => (
+      <PercentileRow key={kind} label={SERVICE_LABELS[kind]} color={SERVICE_COLORS[kind]} samples={series[kind]} />
+    ))}
+  </div>
+);
+
+// Metrics Dashboard
+export const MetricsDashboard: React.FC<{
+  metrics: PipelineMetrics;
+}> = ({ metrics }) => {
+  const { t } = useI18n();
+  return (
+    <div className="space-y-4">
+      <h4 className="text-sm font-semibold text-gray-700 flex items-center">
+        <Timer className="h-4 w-4 me-2 text-blue-600" />
+        {t('metrics.title')}
+      </h4>
+
+      <div className="space-y-2">
+        <p className="text-xs font-medium text-gray-600">{t('metrics.turnLatency')}</p>
+        <TimeSeriesChart series={[{ samples: metrics.turnLatency, color: '#f97316' }]} />
+        <PercentileRow label={t('metrics.turn')} color="#f97316" samples={metrics.turnLatency} />
+      </div>
+
+      <ServiceMetricSection title={t('metrics.ttfb')} series={metrics.ttfb} />
+      <ServiceMetricSection title={t('metrics.processing')} series={metrics.processing} />
+    </div>
+  );
+};
@@ -0,0 +1,104 @@
+import React, { useEffect } from 'react';
+import { Bell, X, Trash2 } from 'lucide-react';
+import { cn } from '../lib/utils';
+import { useNotifications } from '../hooks/useNotifications';
+import { useDialogFocus } from '../hooks/useDialogFocus';
+import { useI18n } from '../hooks/useI18n';
+import { SEVERITY_STYLES } from './NotificationProvider';
+
+// Notification Bell
+export const NotificationBell: React.FC<{ onClick: () => void }> = ({ onClick }) => {
+  const { notifications } = useNotifications();
+  const { t, formatNumber } = useI18n();
+  const unread = notifications.filter(n => !n.read).length;
+
+  return (
+    <button
+      onClick={onClick}
+      className="relative p-2 rounded-lg text-gray-600 hover:text-gray-800 hover:bg-gray-100 transition-colors"
+      title={unread > 0 ? t('notifications.unread', { count: unread }) : t('notifications.title')}
+    >
+      <Bell className="h-5 w-5" />
+      {unread > 0 && (
+        <span className="absolute -top-0.5 -end-0.5 min-w-[1.1rem] h-[1.1rem] px-1 rounded-full bg-red-500 text-white text-[10px] leading-[1.1rem] text-center">
+          {unread > 99 ? `${formatNumber(99)}+` : formatNumber(unread)}
+        </span>
+      )}
+    </button>
+  );
+};
+
+// Notification Center
+export const NotificationCenter: React.FC<{ onClose: () => void }> = ({ onClose }) => {
+  const { notifications, markAllRead, remove, clear } = useNotifications();
+  const dialogRef = useDialogFocus<HTMLElement>(onClose);
+  const { t, formatTime, formatNumber } = useI18n();
+
+  // Everything listed counts as seen, including what arrives while open
+  useEffect(() => {
+    if (notifications.some(n => !n.read)) markAllRead();
+  }, [notifications, markAllRead]);
+
+  return (
+    <div className="fixed inset-0 z-50 flex justify-end bg-black bg-opacity-30" onClick={onClose}>
+      <aside
+        ref={dialogRef}
+        role="dialog"
+        aria-modal="true"
+        aria-labelledby="notification-center-title"
+        tabIndex={-1}
+        className="w-full max-w-sm h-full bg-white shadow-xl flex flex-col focus:outline-none"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="flex items-center justify-between px-4 py-3 border-b">
+          <h2 id="notification-center-title" className="font-semibold text-gray-800 flex items-center">
+            <Bell className="h-5 w-5 me-2 text-blue-600" />
+            {t('notifications.title')}
+          </h2>
+          <div className="flex items-center space-x-1">
+            {notifications.length > 0 && (
+              <button onClick={clear} className="px-2 py-1 text-xs rounded text-gray-600 hover:bg-gray-100">
+                {t('notifications.clear')}
+              </button>
+            )}
+            <button onClick={onClose} className="p-1 rounded text-gray-400 hover:text-gray-700" title={t('common.close')}>
+              <X className="h-5 w-5" />
+            </button>
+          </div>
+        </div>
+
+        <div className="flex-1 overflow-y-auto p-3 space-y-2">
+          {notifications.length === 0 && (
+            <p className="text-sm text-gray-500 text-center mt-8">{t('notifications.empty')}</p>
+          )}
+          {notifications.map(notification => {
+            const { icon: Icon, className } = SEVERITY_STYLES[notification.severity];
+            return (
+              <div key={notification.id} className={cn('group flex items-start p-3 rounded-lg border text-sm', className)}>
+                <Icon className="h-4 w-4 me-2 mt-0.5 flex-shrink-0" />
+                <div className="flex-1 min-w-0">
+                  <p className="font-medium">
+                    {notification.title}
+                    {notification.count > 1 && <span className="ms-1 text-xs opacity-75">×{formatNumber(notification.count)}</span>}
+                  </p>
+                  {notification.message && <p className="mt-0.5 text-xs break-words">{notification.message}</p>}
+                  <p className="mt-1 text-[11px] opacity-60">
+                    {notification.source && `${notification.source} · `}
+                    {formatTime(notification.createdAt)}
+                  </p>
+                </div>
+                <button
+                  onClick={() => remove(notification.id)}
+                  className="ms-2 p-0.5 rounded opacity-0 group-hover:opacity-60 hover:!opacity-100"
+                  title={t('notifications.remove')}
+                >
+                  <Trash2 className="h-3.5 w-3.5" />
+                </button>
+              </div>
+            );
+          })}
+        </div>
+      </aside>
+    </div>
+  );
+};
@@ -0,0 +1,104 @@
+import React, { useCallback, useEffect, useMemo, useRef, useState } from 'react';
+import { AlertCircle, AlertTriangle, CheckCircle2, Info, X } from 'lucide-react';
+import { NotificationContext } from '../hooks/useNotifications';
+import { useI18n } from '../hooks/useI18n';
+import { cn } from '../lib/utils';
+import {
+  addNotification,
+  TOAST_DURATION_MS,
+  type AppNotification,
+  type NotificationInput,
+  type Severity
+} from '../lib/notifications';
+
+export const SEVERITY_STYLES: Record<Severity, { icon: React.ElementType; className: string }> = {
+  info: { icon: Info, className: 'border-blue-200 bg-blue-50 text-blue-800' },
+  success: { icon: CheckCircle2, className: 'border-green-200 bg-green-50 text-green-800' },
+  warning: { icon: AlertTriangle, className: 'border-yellow-200 bg-yellow-50 text-yellow-800' },
+  error: { icon: AlertCircle, className: 'border-red-200 bg-red-50 text-red-800' }
+};
+
+// Toast
+const Toast: React.FC<{ notification: AppNotification; onDismiss: () => void }> = ({ notification, onDismiss }) => {
+  const { icon: Icon, className } = SEVERITY_STYLES[notification.severity];
+  const { t, formatNumber } = useI18n();
+
+  return (
+    <div
+      role={notification.severity === 'error' ? 'alert' : 'status'}
+      className={cn('flex items-start w-80 p-3 rounded-lg border shadow-lg text-sm', className)}
+    >
+      <Icon className="h-5 w-5 me-2 flex-shrink-0" />
+      <div className="flex-1 min-w-0">
+        <p className="font-medium">
+          {notification.title}
+          {notification.count > 1 && <span className="ms-1 text-xs opacity-75">×{formatNumber(notification.count)}</span>}
+        </p>
+        {notification.message && <p className="mt-0.5 text-xs break-words opacity-90">{notification.message}</p>}
+      </div>
+      <button onClick={onDismiss} className="ms-2 p-0.5 rounded opacity-60 hover:opacity-100" title={t('common.dismiss')}>
+        <X className="h-4 w-4" />
+      </button>
+    </div>
+  );
+};
+
+// Notification Provider
+export const NotificationProvider: React.FC<{ children: React.ReactNode }> = ({ children }) => {
+  const [notifications, setNotifications] = useState<AppNotification[]>([]);
+  const [toastIds, setToastIds] = useState<string[]>([]);
+  // notify() needs the latest history synchronously to collapse repeats
+  const notificationsRef = useRef(notifications);
+  const timers = useRef(new Map<string, ReturnType<typeof setTimeout>>());
+
+  const dismissToast = useCallback((id: string) => {
+    clearTimeout(timers.current.get(id));
+    timers.current.delete(id);
+    setToastIds(prev => prev.filter(toastId => toastId !== id));
+  }, []);
+
+  const notify = useCallback((input: NotificationInput) => {
+    const { history, id } = addNotification(notificationsRef.current, input);
+    notificationsRef.current = history;
+    setNotifications(history);
+    setToastIds(prev => (prev.includes(id) ? prev : [...prev, id]));
+
+    // A repeat restarts the countdown of the toast it collapsed into
+    clearTimeout(timers.current.get(id));
+    timers.current.set(id, setTimeout(() => dismissToast(id), TOAST_DURATION_MS[input.severity]));
+  }, [dismissToast]);
+
+  useEffect(() => {
+    const pending = timers.current;
+    return () => pending.forEach(clearTimeout);
+  }, []);
+
+  const update = useCallback((next: (prev: AppNotification[]) => AppNotification[]) => {
+    notificationsRef.current = next(notificationsRef.current);
+    setNotifications(notificationsRef.current);
+  }, []);
+
+  const markAllRead = useCallback(() => update(prev => prev.map(n => (n.read ? n : { ...n, read: true }))), [update]);
+  const remove = useCallback((id: string) => update(prev => prev.filter(n => n.id !== id)), [update]);
+  const clear = useCallback(() => update(() => []), [update]);
+
+  const value = useMemo(
+    () => ({ notifications, notify, markAllRead, remove, clear }),
+    [notifications, notify, markAllRead, remove, clear]
+  );
+
+  const toasts = toastIds
+    .map(id => notifications.find(n => n.id === id))
+    .filter((n): n is AppNotification => !!n);
+
+  return (
+    <NotificationContext.Provider value={value}>
+      {children}
+      <div className="fixed bottom-4 end-4 z-[60] flex flex-col items-end space-y-2" aria-live="polite">
+        {toasts.map(notification => (
+          <Toast key={notification.id} notification={notification} onDismiss={() => dismissToast(notification.id)} />
+        ))}
+      </div>
+    </NotificationContext.Provider>
+  );
+};
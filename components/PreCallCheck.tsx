@@ -0,0 +1,346 @@
+import React, { useEffect, useRef, useState } from 'react';
+import {
+  AlertTriangle,
+  CheckCircle2,
+  Circle,
+  Loader2,
+  Mic,
+  Play,
+  ShieldCheck,
+  Video,
+  Volume2,
+  Wifi,
+  XCircle
+} from 'lucide-react';
+import { cn } from '../lib/utils';
+import { meterLevel } from '../lib/voiceActivity';
+import { usePreflight } from '../hooks/usePreflight';
+import { useDialogFocus } from '../hooks/useDialogFocus';
+import { useI18n } from '../hooks/useI18n';
+import type { MessageKey } from '../lib/locales/en';
+import {
+  CHECK_IDS,
+  CHECK_LABELS,
+  loadMediaFlags,
+  mediaFlagsFor,
+  summarize,
+  type CheckId,
+  type CheckResult,
+  type CheckStatus,
+  type MediaFlags
+} from '../lib/preflight';
+
+const STATUS_ICONS: Record<CheckStatus, { icon: React.ElementType; className: string }> = {
+  pending: { icon: Circle, className: 'text-gray-300' },
+  running: { icon: Loader2, className: 'text-blue-500 motion-safe:animate-spin' },
+  pass: { icon: CheckCircle2, className: 'text-green-500' },
+  warn: { icon: AlertTriangle, className: 'text-yellow-500' },
+  fail: { icon: XCircle, className: 'text-red-500' }
+};
+
+const STEP_ICONS: Record<CheckId, React.ElementType> = {
+  permissions: ShieldCheck,
+  microphone: Mic,
+  camera: Video,
+  speaker: Volume2,
+  network: Wifi
+};
+
+const STATUS_LABELS: Record<CheckStatus, MessageKey> = {
+  pending: 'precall.status.pending',
+  running: 'precall.status.running',
+  pass: 'precall.status.pass',
+  warn: 'precall.status.warn',
+  fail: 'precall.status.fail'
+};
+
+const SUMMARY_TEXT: Record<'pass' | 'warn' | 'fail', { title: MessageKey; className: string }> = {
+  pass: { title: 'precall.summary.pass', className: 'bg-green-50 border-green-200 text-green-800' },
+  warn: { title: 'precall.summary.warn', className: 'bg-yellow-50 border-yellow-200 text-yellow-800' },
+  fail: { title: 'precall.summary.fail', className: 'bg-red-50 border-red-200 text-red-800' }
+};
+
+const buttonClass = 'px-3 py-1.5 text-sm rounded-lg transition-colors disabled:opacity-50 disabled:cursor-not-allowed';
+
+const StatusLine: React.FC<{ result: CheckResult }> = ({ result }) => {
+  const { t, translateText } = useI18n();
+  const { icon: Icon, className } = STATUS_ICONS[result.status];
+  return (
+    <p className="flex items-start text-sm text-gray-700">
+      <Icon className={cn('h-4 w-4 me-2 mt-0.5 flex-shrink-0', className)} />
+      <span>
+        {result.detail !== undefined
+          ? translateText(result.detail)
+          : t(result.status === 'pending' ? 'precall.notChecked' : 'precall.checking')}
+      </span>
+    </p>
+  );
+};
+
+const CameraPreview: React.FC<{ stream: MediaStream | null }> = ({ stream }) => {
+  const videoRef = useRef<HTMLVideoElement>(null);
+
+  useEffect(() => {
+    if (videoRef.current) videoRef.current.srcObject = stream;
+  }, [stream]);
+
+  return (
+    <div className="aspect-video bg-gray-900 rounded-lg overflow-hidden flex items-center justify-center">
+      {stream?.getVideoTracks().length
+        ? <video ref={videoRef} autoPlay muted playsInline className="w-full h-full object-cover -scale-x-100" />
+        : <Video className="h-10 w-10 text-gray-600" />}
+    </div>
+  );
+};
+
+// Pre-Call Check
+export const PreCallCheck: React.FC<{
+  endpointUrl: string;
+  onComplete: (flags: MediaFlags) => void;
+}> = ({ endpointUrl, onComplete }) => {
+  const preflight = usePreflight(endpointUrl);
+  const { results, requestPermissions, checkNetwork, release } = preflight;
+  const [step, setStep] = useState(0);
+  const [flags, setFlags] = useState<MediaFlags>(loadMediaFlags);
+  const dialogRef = useDialogFocus();
+  const { t } = useI18n();
+
+  const steps: (CheckId | 'summary')[] = [...CHECK_IDS, 'summary'];
+  const current = steps[step];
+  const isSummary = current === 'summary';
+  const overall = summarize(results);
+
+  // The network check needs no input, so it runs as soon as its step opens
+  useEffect(() => {
+    if (current === 'network' && results.network.status === 'pending') checkNetwork();
+  }, [current, results.network.status, checkNetwork]);
+
+  // Devices that failed start off; the user can still change either toggle
+  useEffect(() => {
+    if (isSummary) setFlags(prev => mediaFlagsFor(results, prev));
+  }, [isSummary, results]);
+
+  // The transport opens the devices itself once we join
+  const finish = (chosen: MediaFlags) => {
+    release();
+    onComplete(chosen);
+  };
+
+  const renderStep = () => {
+    switch (current) {
+      case 'permissions':
+        return (
+          <>
+            <p className="text-sm text-gray-600">{t('precall.permissions.intro')}</p>
+            <button
+              onClick={requestPermissions}
+              disabled={results.permissions.status === 'running'}
+              className={cn(buttonClass, 'bg-blue-500 text-white hover:bg-blue-600')}
+            >
+              {t(results.permissions.status === 'pending' ? 'precall.permissions.allow' : 'precall.permissions.askAgain')}
+            </button>
+            <StatusLine result={results.permissions} />
+          </>
+        );
+
+      case 'microphone':
+        return (
+          <>
+            <div className="flex items-center space-x-3">
+              <Mic className="h-5 w-5 text-gray-500" />
+              <div className="flex-1 h-2 bg-gray-200 rounded-full overflow-hidden">
+                <div
+                  className="h-full bg-green-500 transition-[width] duration-75"
+                  style={{ width: `${meterLevel(preflight.level) * 100}%` }}
+                />
+              </div>
+            </div>
+            <div className="flex items-center space-x-2">
+              <button
+                onClick={preflight.recordTest}
+                disabled={!preflight.stream || preflight.recording}
+                className={cn(buttonClass, 'bg-gray-200 text-gray-700 hover:bg-gray-300')}
+              >
+                {t(preflight.recording ? 'precall.microphone.recording' : 'precall.microphone.record', { seconds: 3 })}
+              </button>
+              {preflight.playbackUrl && <audio src={preflight.playbackUrl} controls className="h-8 flex-1" />}
+            </div>
+            <StatusLine result={results.microphone} />
+          </>
+        );
+
+      case 'camera':
+        return (
+          <>
+            <CameraPreview stream={preflight.stream} />
+            <StatusLine result={results.camera} />
+          </>
+        );
+
+      case 'speaker':
+        return (
+          <>
+            <button
+              onClick={preflight.playTone}
+              disabled={preflight.playingTone}
+              className={cn(buttonClass, 'flex items-center bg-blue-500 text-white hover:bg-blue-600')}
+            >
+              <Play className="h-4 w-4 me-1" />
+              {t('precall.speaker.play')}
+            </button>
+            {results.speaker.status !== 'pending' && (
+              <div className="flex space-x-2">
+                <button
+                  onClick={() => preflight.confirmSpeaker(true)}
+                  className={cn(buttonClass, 'bg-green-500 text-white hover:bg-green-600')}
+                >
+                  {t('precall.speaker.yes')}
+                </button>
+                <button
+                  onClick={() => preflight.confirmSpeaker(false)}
+                  className={cn(buttonClass, 'bg-gray-200 text-gray-700 hover:bg-gray-300')}
+                >
+                  {t('precall.speaker.no')}
+                </button>
+              </div>
+            )}
+            <StatusLine result={results.speaker} />
+          </>
+        );
+
+      case 'network':
+        return (
+          <>
+            <p className="text-sm text-gray-600 break-all">
+              {t('precall.network.checking')}{' '}
+              <span className="font-mono">{endpointUrl || t('precall.network.notConfigured')}</span>
+            </p>
+            <button
+              onClick={checkNetwork}
+              disabled={results.network.status === 'running'}
+              className={cn(buttonClass, 'bg-gray-200 text-gray-700 hover:bg-gray-300')}
+            >
+              {t('precall.network.again')}
+            </button>
+            <StatusLine result={results.network} />
+          </>
+        );
+
+      case 'summary':
+        return (
+          <>
+            <div className={cn('p-3 rounded-lg border text-sm font-medium', SUMMARY_TEXT[overall].className)}>
+              {t(SUMMARY_TEXT[overall].title)}
+            </div>
+            <ul className="space-y-2">
+              {CHECK_IDS.map(id => (
+                <li key={id}>
+                  <p className="text-xs font-medium text-gray-500">{t(CHECK_LABELS[id])}</p>
+                  <StatusLine result={results[id]} />
+                </li>
+              ))}
+            </ul>
+            <div className="flex space-x-4 text-sm">
+              <label className="flex items-center">
+                <input
+                  type="checkbox"
+                  checked={flags.mic}
+                  onChange={(e) => setFlags(prev => ({ ...prev, mic: e.target.checked }))}
+                  className="me-2"
+                />
+                {t('precall.joinMic')}
+              </label>
+              <label className="flex items-center">
+                <input
+                  type="checkbox"
+                  checked={flags.cam}
+                  onChange={(e) => setFlags(prev => ({ ...prev, cam: e.target.checked }))}
+                  className="me-2"
+                />
+                {t('precall.joinCam')}
+              </label>
+            </div>
+          </>
+        );
+    }
+  };
+
+  const StepIcon = isSummary ? CheckCircle2 : STEP_ICONS[current];
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black bg-opacity-40 p-4">
+      <div
+        ref={dialogRef}
+        role="dialog"
+        aria-modal="true"
+        aria-labelledby="precall-title"
+        tabIndex={-1}
+        className="w-full max-w-lg bg-white rounded-lg shadow-xl p-5 space-y-4 focus:outline-none"
+      >
+        <div className="flex items-center justify-between">
+          <h2 id="precall-title" className="font-semibold text-gray-800 flex items-center">
+            <StepIcon className="h-5 w-5 me-2 text-blue-600" aria-hidden="true" />
+            {isSummary ? t('precall.ready') : t('precall.title', { check: t(CHECK_LABELS[current]) })}
+          </h2>
+          <span className="text-xs text-gray-500">{t('precall.step', { step: step + 1, total: steps.length })}</span>
+        </div>
+
+        <ol className="flex space-x-1">
+          {CHECK_IDS.map((id, idx) => {
+            const { icon: Icon, className } = STATUS_ICONS[results[id].status];
+            return (
+              <li key={id} className="flex-1">
+                <button
+                  onClick={() => setStep(idx)}
+                  className={cn(
+                    'w-full flex items-center justify-center py-1 rounded text-xs',
+                    idx === step ? 'bg-blue-50 text-blue-700' : 'text-gray-500 hover:bg-gray-50'
+                  )}
+                  title={t(CHECK_LABELS[id])}
+                  aria-label={`${t(CHECK_LABELS[id])}: ${t(STATUS_LABELS[results[id].status])}`}
+                  aria-current={idx === step ? 'step' : undefined}
+                >
+                  <Icon className={cn('h-3.5 w-3.5 me-1', className)} />
+                  <span className="hidden sm:inline">{t(CHECK_LABELS[id])}</span>
+                </button>
+              </li>
+            );
+          })}
+        </ol>
+
+        <div className="space-y-3 min-h-[10rem]" aria-live="polite">{renderStep()}</div>
+
+        <div className="flex items-center justify-between pt-2 border-t">
+          <button onClick={() => finish(loadMediaFlags())} className="text-sm text-gray-500 hover:text-gray-700">
+            {t('precall.skip')}
+          </button>
+          <div className="flex space-x-2">
+            {step > 0 && (
+              <button
+                onClick={() => setStep(step - 1)}
+                className={cn(buttonClass, 'bg-gray-200 text-gray-700 hover:bg-gray-300')}
+              >
+                {t('precall.back')}
+              </button>
+            )}
+            {isSummary ? (
+              <button
+                onClick={() => finish(flags)}
+                className={cn(buttonClass, 'bg-blue-500 text-white hover:bg-blue-600')}
+              >
+                {t('precall.continue')}
+              </button>
+            ) : (
+              <button
+                onClick={() => setStep(step + 1)}
+                className={cn(buttonClass, 'bg-blue-500 text-white hover:bg-blue-600')}
+              >
+                {t('precall.next')}
+              </button>
+            )}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,178 @@
+import React, { useMemo, useState } from 'react';
+import { History, Search, Pencil, Trash2, X, Check, Play } from 'lucide-react';
+import { searchSessions, type StoredSession } from '../lib/sessionStore';
+import { cn } from '../lib/utils';
+import { useDialogFocus } from '../hooks/useDialogFocus';
+import { useI18n } from '../hooks/useI18n';
+
+const SESSION_DATE: Intl.DateTimeFormatOptions = {
+  year: 'numeric',
+  month: 'short',
+  day: 'numeric',
+  hour: 'numeric',
+  minute: '2-digit'
+};
+
+// Session Row
+const SessionRow: React.FC<{
+  session: StoredSession;
+  isLive: boolean;
+  canOpen: boolean;
+  onOpen: (id: string, restoreContext: boolean) => void;
+  onRename: (id: string, title: string) => void;
+  onDelete: (id: string) => void;
+}> = ({ session, isLive, canOpen, onOpen, onRename, onDelete }) => {
+  const [editing, setEditing] = useState(false);
+  const [title, setTitle] = useState(session.title);
+  const { t, formatDate } = useI18n();
+
+  const commitRename = () => {
+    const trimmed = title.trim();
+    if (trimmed && trimmed !== session.title) onRename(session.id, trimmed);
+    setEditing(false);
+  };
+
+  return (
+    <li className={cn(
+      "p-3 rounded-lg border",
+      isLive ? 'bg-blue-50 border-blue-200' : 'bg-gray-50'
+    )}>
+      {editing ? (
+        <div className="flex items-center space-x-1">
+          <input
+            autoFocus
+            value={title}
+            onChange={(e) => setTitle(e.target.value)}
+            onKeyDown={(e) => {
+              if (e.key === 'Enter') commitRename();
+              if (e.key === 'Escape') setEditing(false);
+            }}
+            className="input-field text-sm py-1"
+          />
+          <button onClick={commitRename} className="p-1 text-green-600 hover:text-green-700" title={t('history.saveName')}>
+            <Check className="h-4 w-4" />
+          </button>
+        </div>
+      ) : (
+        <p className="text-sm font-medium text-gray-800 truncate">{session.title}</p>
+      )}
+
+      <p className="text-xs text-gray-500 mt-1">
+        {formatDate(session.startedAt, SESSION_DATE)} • {t('history.messages', { count: session.messages.length })}
+        {session.files.length > 0 && ` • ${t('history.files', { count: session.files.length })}`}
+        {isLive && ` • ${t('history.live')}`}
+      </p>
+
+      <div className="flex items-center space-x-2 mt-2">
+        <button
+          onClick={() => onOpen(session.id, false)}
+          disabled={!canOpen}
+          className="px-2 py-1 text-xs bg-gray-500 text-white rounded hover:bg-gray-600 transition-colors disabled:opacity-50"
+        >
+          {t('history.open')}
+        </button>
+        <button
+          onClick={() => onOpen(session.id, true)}
+          disabled={!canOpen}
+          className="px-2 py-1 text-xs bg-blue-500 text-white rounded hover:bg-blue-600 transition-colors disabled:opacity-50"
+          title={t('history.continueHint')}
+        >
+          <Play className="h-3 w-3 me-1 inline" />
+          {t('history.continue')}
+        </button>
+        <button
+          onClick={() => { setTitle(session.title); setEditing(true); }}
+          className="ms-auto p-1 text-gray-500 hover:text-gray-700 transition-colors"
+          title={t('history.rename')}
+        >
+          <Pencil className="h-4 w-4" />
+        </button>
+        <button
+          onClick={() => confirm(t('history.confirmDelete', { title: session.title })) && onDelete(session.id)}
+          disabled={isLive}
+          className="p-1 text-gray-500 hover:text-red-600 transition-colors disabled:opacity-50"
+          title={t('common.delete')}
+        >
+          <Trash2 className="h-4 w-4" />
+        </button>
+      </div>
+    </li>
+  );
+};
+
+// Session History Sidebar
+export const SessionHistory: React.FC<{
+  sessions: StoredSession[];
+  activeId: string | null;
+  isConnected: boolean;
+  onOpen: (id: string, restoreContext: boolean) => void;
+  onRename: (id: string, title: string) => void;
+  onDelete: (id: string) => void;
+  onClose: () => void;
+}> = ({ sessions, activeId, isConnected, onOpen, onRename, onDelete, onClose }) => {
+  const [query, setQuery] = useState('');
+  const results = useMemo(() => searchSessions(sessions, query), [sessions, query]);
+  const dialogRef = useDialogFocus<HTMLElement>(onClose);
+  const { t } = useI18n();
+
+  return (
+    <div className="fixed inset-0 z-40 flex" onClick={onClose}>
+      <aside
+        ref={dialogRef}
+        role="dialog"
+        aria-modal="true"
+        aria-label={t('header.history')}
+        tabIndex={-1}
+        className="w-80 max-w-full h-full bg-white shadow-lg border-e flex flex-col motion-safe:animate-slide-in focus:outline-none"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="flex items-center px-4 py-3 border-b bg-gray-50">
+          <History className="h-5 w-5 me-2 text-blue-600" />
+          <span className="font-medium text-gray-700">{t('header.history')}</span>
+          <button
+            onClick={onClose}
+            className="ms-auto p-1 text-gray-500 hover:text-gray-700 transition-colors"
+            title={t('history.close')}
+          >
+            <X className="h-5 w-5" />
+          </button>
+        </div>
+
+        <div className="p-3 border-b">
+          <div className="relative">
+            <Search className="absolute start-3 top-1/2 -translate-y-1/2 h-4 w-4 text-gray-400" />
+            <input
+              value={query}
+              onChange={(e) => setQuery(e.target.value)}
+              placeholder={t('history.search')}
+              className="input-field ps-9 text-sm"
+            />
+          </div>
+          {isConnected && (
+            <p className="text-xs text-gray-500 mt-2">{t('history.disconnectFirst')}</p>
+          )}
+        </div>
+
+        <ul className="flex-1 overflow-y-auto p-3 space-y-2 scrollbar-thin">
+          {results.length === 0 && (
+            <li className="text-center text-sm text-gray-500 py-8">
+              {t(sessions.length === 0 ? 'history.empty' : 'history.noMatches')}
+            </li>
+          )}
+          {results.map((session) => (
+            <SessionRow
+              key={session.id}
+              session={session}
+              isLive={session.id === activeId}
+              canOpen={!isConnected}
+              onOpen={onOpen}
+              onRename={onRename}
+              onDelete={onDelete}
+            />
+          ))}
+        </ul>
+      </aside>
+      <div className="flex-1 bg-black bg-opacity-30" />
+    </div>
+  );
+};
@@ -0,0 +1,168 @@
+import React, { useState } from 'react';
+import { Circle, Download, Square, Trash2, X, AlertTriangle } from 'lucide-react';
+import { cn } from '../lib/utils';
+import { useDialogFocus } from '../hooks/useDialogFocus';
+import { useI18n } from '../hooks/useI18n';
+import type { Translatable } from '../lib/i18n';
+import {
+  formatElapsed,
+  VIDEO_SOURCE_LABELS,
+  type RecordingVideoSource
+} from '../lib/recording';
+import type { RecorderStatus, RecordingBundle } from '../hooks/useSessionRecorder';
+
+// Recording Consent Dialog
+export const RecordingConsentDialog: React.FC<{
+  available: { bot: boolean; screen: boolean };
+  onStart: (options: { videoSource: RecordingVideoSource; consentedAt: string }) => void;
+  onCancel: () => void;
+}> = ({ available, onStart, onCancel }) => {
+  const [consented, setConsented] = useState(false);
+  const [videoSource, setVideoSource] = useState<RecordingVideoSource>('none');
+  const dialogRef = useDialogFocus(onCancel);
+  const { t } = useI18n();
+
+  const sources: RecordingVideoSource[] = ['none', 'bot', 'screen'];
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black bg-opacity-40 p-4">
+      <div
+        ref={dialogRef}
+        role="dialog"
+        aria-modal="true"
+        aria-labelledby="recording-consent-title"
+        tabIndex={-1}
+        className="w-full max-w-md bg-white rounded-lg shadow-xl p-5 space-y-4 focus:outline-none"
+      >
+        <div className="flex items-center justify-between">
+          <h2 id="recording-consent-title" className="font-semibold text-gray-800 flex items-center">
+            <Circle className="h-4 w-4 me-2 fill-red-500 text-red-500" aria-hidden="true" />
+            {t('recording.title')}
+          </h2>
+          <button onClick={onCancel} className="p-1 rounded text-gray-400 hover:text-gray-700" title={t('common.cancel')}>
+            <X className="h-5 w-5" />
+          </button>
+        </div>
+
+        <p className="text-sm text-gray-600">{t('recording.intro')}</p>
+
+        <fieldset>
+          <legend className="text-xs font-medium text-gray-600 mb-1">{t('recording.video')}</legend>
+          <div className="space-y-1">
+            {sources.map(source => {
+              const disabled = source !== 'none' && !available[source];
+              return (
+                <label key={source} className={cn('flex items-center text-sm', disabled && 'opacity-50')}>
+                  <input
+                    type="radio"
+                    name="recording-video"
+                    checked={videoSource === source}
+                    disabled={disabled}
+                    onChange={() => setVideoSource(source)}
+                    className="me-2"
+                  />
+                  {t(VIDEO_SOURCE_LABELS[source])}
+                  {disabled && <span className="ms-1 text-xs text-gray-500">{t('recording.notActive')}</span>}
+                </label>
+              );
+            })}
+          </div>
+        </fieldset>
+
+        <label className="flex items-start text-sm p-3 rounded-lg bg-yellow-50 border border-yellow-200">
+          <input
+            type="checkbox"
+            checked={consented}
+            onChange={(e) => setConsented(e.target.checked)}
+            className="mt-0.5 me-2"
+          />
+          <span className="text-yellow-900">{t('recording.consent')}</span>
+        </label>
+
+        <div className="flex justify-end space-x-2">
+          <button
+            onClick={onCancel}
+            className="px-4 py-2 text-sm rounded-lg bg-gray-200 text-gray-700 hover:bg-gray-300 transition-colors"
+          >
+            {t('common.cancel')}
+          </button>
+          <button
+            onClick={() => onStart({ videoSource, consentedAt: new Date().toISOString() })}
+            disabled={!consented}
+            className="px-4 py-2 text-sm rounded-lg bg-red-500 text-white hover:bg-red-600 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+          >
+            {t('recording.start')}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+// Recording Status
+export const RecordingStatus: React.FC<{
+  status: RecorderStatus;
+  elapsedMs: number;
+  bytes: number;
+  error: Translatable | null;
+  bundle: RecordingBundle | null;
+  canRecord: boolean;
+  onRecord: () => void;
+  onStop: () => void;
+  onDownload: () => void;
+  onDiscard: () => void;
+}> = ({ status, elapsedMs, bytes, error, bundle, canRecord, onRecord, onStop, onDownload, onDiscard }) => {
+  const { t, translateText, formatFileSize } = useI18n();
+
+  if (status === 'recording' || status === 'finalizing') {
+    return (
+      <div className="flex items-center space-x-2 px-3 py-1.5 rounded-full bg-red-50 border border-red-200 text-red-700 text-sm">
+        <span className="w-2.5 h-2.5 rounded-full bg-red-500 motion-safe:animate-pulse" />
+        <span className="font-semibold">{t('recording.rec')}</span>
+        <span className="font-mono text-xs">{formatElapsed(elapsedMs)}</span>
+        <span className="text-xs opacity-75">{formatFileSize(bytes)}</span>
+        <button
+          onClick={onStop}
+          disabled={status === 'finalizing'}
+          className="p-1 rounded hover:bg-red-100 disabled:opacity-50"
+          title={t('recording.stop')}
+        >
+          <Square className="h-3.5 w-3.5 fill-current" />
+        </button>
+      </div>
+    );
+  }
+
+  if (status === 'ready' && bundle) {
+    return (
+      <div className="flex items-center space-x-2 px-3 py-1.5 rounded-full bg-green-50 border border-green-200 text-green-800 text-sm">
+        <span>{t('recording.ready', { size: formatFileSize(bundle.blob.size) })}</span>
+        <button onClick={onDownload} className="p-1 rounded hover:bg-green-100" title={t('recording.download')}>
+          <Download className="h-4 w-4" />
+        </button>
+        <button onClick={onDiscard} className="p-1 rounded hover:bg-green-100" title={t('recording.discard')}>
+          <Trash2 className="h-4 w-4" />
+        </button>
+      </div>
+    );
+  }
+
+  return (
+    <div className="flex items-center">
+      {error && (
+        <span className="flex items-center me-2 text-xs text-red-600" title={translateText(error)}>
+          <AlertTriangle className="h-4 w-4 me-1" />
+          {t('notify.recordingFailed')}
+        </span>
+      )}
+      <button
+        onClick={onRecord}
+        disabled={!canRecord}
+        className="p-2 rounded-lg text-gray-600 hover:text-red-600 hover:bg-gray-100 transition-colors disabled:opacity-40 disabled:cursor-not-allowed"
+        title={t(canRecord ? 'recording.record' : 'recording.connectFirst')}
+      >
+        <Circle className="h-5 w-5" />
+      </button>
+    </div>
+  );
+};
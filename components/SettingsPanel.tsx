@@ -0,0 +1,158 @@
+import React, { useEffect } from 'react';
+import { Settings, Mic, Video, Volume2, RefreshCw, Keyboard, ShieldCheck } from 'lucide-react';
+import { useDeviceSelection, deviceIdOf } from '../hooks/useDeviceSelection';
+import { useI18n } from '../hooks/useI18n';
+import { cn } from '../lib/utils';
+import { formatCombo } from '../lib/shortcuts';
+import type { MicMode } from '../lib/voiceActivity';
+import type { MessageKey } from '../lib/locales/en';
+
+// Device Select
+const DeviceSelect: React.FC<{
+  label: string;
+  icon: React.ElementType;
+  devices: MediaDeviceInfo[];
+  selectedId: string;
+  onSelect: (id: string) => void;
+}> = ({ label, icon: Icon, devices, selectedId, onSelect }) => {
+  const { t } = useI18n();
+  return (
+    <label className="block">
+      <span className="flex items-center text-xs font-medium text-gray-600 mb-1">
+        <Icon className="h-4 w-4 me-1" />
+        {label}
+      </span>
+      <select
+        value={selectedId}
+        onChange={(e) => onSelect(e.target.value)}
+        disabled={devices.length === 0}
+        className="input-field text-sm disabled:opacity-50"
+      >
+        {devices.length === 0 && <option value="">{t('settings.noDevices')}</option>}
+        {devices.length > 0 && !selectedId && <option value="">{t('settings.systemDefault')}</option>}
+        {devices.map((device, idx) => (
+          <option key={device.deviceId || idx} value={device.deviceId}>
+            {device.label || t('settings.unnamedDevice', { label, index: idx + 1 })}
+          </option>
+        ))}
+      </select>
+    </label>
+  );
+};
+
+const MIC_MODES: { value: MicMode; label: MessageKey; hint: MessageKey }[] = [
+  { value: 'open', label: 'settings.micMode.open', hint: 'settings.micMode.openHint' },
+  { value: 'pushToTalk', label: 'settings.micMode.pushToTalk', hint: 'settings.micMode.pushToTalkHint' }
+];
+
+// Settings Panel
+export const SettingsPanel: React.FC<{
+  micMode: MicMode;
+  onMicModeChange: (mode: MicMode) => void;
+  talkKey: string;
+  onShowShortcuts: () => void;
+  onRunDeviceCheck: (() => void) | null; // null while in a call
+}> = ({ micMode, onMicModeChange, talkKey, onShowShortcuts, onRunDeviceCheck }) => {
+  const {
+    availableMics, availableCams, availableSpeakers,
+    selectedMic, selectedCam, selectedSpeaker,
+    selectMic, selectCam, selectSpeaker,
+    loading, loadDevices
+  } = useDeviceSelection();
+  const { t } = useI18n();
+
+  const hasDevices = availableMics.length + availableCams.length + availableSpeakers.length > 0;
+
+  useEffect(() => {
+    if (!hasDevices) loadDevices();
+  }, [hasDevices, loadDevices]);
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center justify-between">
+        <h3 className="font-semibold text-gray-700 flex items-center">
+          <Settings className="h-5 w-5 me-2 text-blue-600" />
+          {t('settings.devices')}
+        </h3>
+        <button
+          onClick={loadDevices}
+          disabled={loading}
+          className="px-3 py-1 text-xs bg-gray-500 text-white rounded hover:bg-gray-600 transition-colors disabled:opacity-50"
+        >
+          <RefreshCw className={cn('h-3 w-3 me-1 inline', loading && 'motion-safe:animate-spin')} />
+          {t('common.refresh')}
+        </button>
+      </div>
+
+      <DeviceSelect
+        label={t('precall.check.microphone')}
+        icon={Mic}
+        devices={availableMics}
+        selectedId={deviceIdOf(selectedMic)}
+        onSelect={selectMic}
+      />
+      <DeviceSelect
+        label={t('precall.check.camera')}
+        icon={Video}
+        devices={availableCams}
+        selectedId={deviceIdOf(selectedCam)}
+        onSelect={selectCam}
+      />
+      <DeviceSelect
+        label={t('settings.speaker')}
+        icon={Volume2}
+        devices={availableSpeakers}
+        selectedId={deviceIdOf(selectedSpeaker)}
+        onSelect={selectSpeaker}
+      />
+
+      <fieldset>
+        <legend className="text-xs font-medium text-gray-600 mb-1">{t('settings.micMode')}</legend>
+        <div className="grid grid-cols-2 gap-2">
+          {MIC_MODES.map(mode => (
+            <label
+              key={mode.value}
+              className={cn(
+                'p-2 border rounded-lg cursor-pointer text-sm',
+                micMode === mode.value ? 'border-blue-500 bg-blue-50' : 'hover:bg-gray-50'
+              )}
+            >
+              <input
+                type="radio"
+                name="mic-mode"
+                value={mode.value}
+                checked={micMode === mode.value}
+                onChange={() => onMicModeChange(mode.value)}
+                className="me-2"
+              />
+              {t(mode.label)}
+              <span className="block text-xs text-gray-500 mt-0.5">
+                {mode.value === 'pushToTalk' && talkKey
+                  ? t('settings.micMode.holdKey', { key: formatCombo(talkKey) })
+                  : t(mode.hint)}
+              </span>
+            </label>
+          ))}
+        </div>
+      </fieldset>
+
+      <button
+        onClick={onRunDeviceCheck ?? undefined}
+        disabled={!onRunDeviceCheck}
+        className="w-full flex items-center justify-center px-3 py-2 text-sm border rounded-lg text-gray-700 hover:bg-gray-50 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+        title={onRunDeviceCheck ? undefined : t('settings.deviceCheckDisconnect')}
+      >
+        <ShieldCheck className="h-4 w-4 me-2" />
+        {t('settings.deviceCheck')}
+      </button>
+
+      <button
+        onClick={onShowShortcuts}
+        className="w-full flex items-center justify-center px-3 py-2 text-sm border rounded-lg text-gray-700 hover:bg-gray-50 transition-colors"
+      >
+        <Keyboard className="h-4 w-4 me-2" />
+        {t('shortcuts.title')}
+      </button>
+    </div>
+  );
+};
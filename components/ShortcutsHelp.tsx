@@ -0,0 +1,125 @@
+import React, { useState } from 'react';
+import { Keyboard, X, RotateCcw, AlertTriangle } from 'lucide-react';
+import { cn } from '../lib/utils';
+import { useDialogFocus } from '../hooks/useDialogFocus';
+import { useI18n } from '../hooks/useI18n';
+import {
+  comboFromEvent,
+  findConflicts,
+  formatCombo,
+  SHORTCUT_ACTIONS,
+  SHORTCUT_LABELS,
+  type ShortcutAction,
+  type ShortcutMap
+} from '../lib/shortcuts';
+
+// Shortcuts Help
+export const ShortcutsHelp: React.FC<{
+  bindings: ShortcutMap;
+  onChange: (action: ShortcutAction, combo: string) => void;
+  onReset: () => void;
+  onClose: () => void;
+}> = ({ bindings, onChange, onReset, onClose }) => {
+  const [recording, setRecording] = useState<ShortcutAction | null>(null);
+  // Escape is handled below, since it also cancels recording
+  const dialogRef = useDialogFocus();
+  const { t } = useI18n();
+  const conflicts = findConflicts(bindings);
+
+  // While recording, the next combo becomes the binding. Escape cancels and
+  // Backspace clears it; both only close the dialog when not recording.
+  const handleKeyDown = (e: React.KeyboardEvent) => {
+    if (!recording) {
+      if (e.key === 'Escape') {
+        e.preventDefault();
+        onClose();
+      }
+      return;
+    }
+
+    e.preventDefault();
+    e.stopPropagation();
+    if (e.key === 'Escape') {
+      setRecording(null);
+      return;
+    }
+    if (e.key === 'Backspace') {
+      onChange(recording, '');
+      setRecording(null);
+      return;
+    }
+    const combo = comboFromEvent(e.nativeEvent);
+    if (!combo) return;
+    onChange(recording, combo);
+    setRecording(null);
+  };
+
+  return (
+    <div
+      className="fixed inset-0 z-50 flex items-center justify-center bg-black bg-opacity-40 p-4"
+      onClick={onClose}
+    >
+      <div
+        role="dialog"
+        aria-modal="true"
+        aria-label={t('shortcuts.title')}
+        tabIndex={-1}
+        ref={dialogRef}
+        onKeyDown={handleKeyDown}
+        onClick={(e) => e.stopPropagation()}
+        className="w-full max-w-md bg-white rounded-lg shadow-xl p-5 space-y-4 focus:outline-none"
+      >
+        <div className="flex items-center justify-between">
+          <h2 className="font-semibold text-gray-800 flex items-center">
+            <Keyboard className="h-5 w-5 me-2 text-blue-600" />
+            {t('shortcuts.title')}
+          </h2>
+          <button onClick={onClose} className="p-1 rounded text-gray-400 hover:text-gray-700" title={t('common.close')}>
+            <X className="h-5 w-5" />
+          </button>
+        </div>
+
+        <ul className="divide-y text-sm">
+          {SHORTCUT_ACTIONS.map(action => {
+            const combo = bindings[action];
+            const isRecording = recording === action;
+            return (
+              <li key={action} className="flex items-center justify-between py-2">
+                <span className="text-gray-700">{t(SHORTCUT_LABELS[action])}</span>
+                <button
+                  onClick={() => setRecording(isRecording ? null : action)}
+                  className={cn(
+                    'min-w-[5rem] px-2 py-1 rounded border font-mono text-xs transition-colors',
+                    isRecording
+                      ? 'border-blue-500 bg-blue-50 text-blue-700'
+                      : conflicts.has(combo)
+                      ? 'border-yellow-400 bg-yellow-50 text-yellow-800'
+                      : 'bg-gray-50 text-gray-700 hover:bg-gray-100'
+                  )}
+                  title={t(isRecording ? 'shortcuts.recordingHint' : 'shortcuts.change')}
+                >
+                  {isRecording ? t('shortcuts.pressKeys') : combo ? formatCombo(combo) : t('shortcuts.unassigned')}
+                </button>
+              </li>
+            );
+          })}
+        </ul>
+
+        {conflicts.size > 0 && (
+          <p className="flex items-center text-xs text-yellow-700">
+            <AlertTriangle className="h-4 w-4 me-1 flex-shrink-0" />
+            {t('shortcuts.conflicts')}
+          </p>
+        )}
+
+        <div className="flex items-center justify-between text-xs text-gray-500">
+          <span>{t('shortcuts.typingHint')}</span>
+          <button onClick={onReset} className="flex items-center text-blue-600 hover:text-blue-700">
+            <RotateCcw className="h-3 w-3 me-1" />
+            {t('shortcuts.reset')}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,76 @@
+import React from 'react';
+import { X, RotateCw } from 'lucide-react';
+import type { UploadProgress } from '../lib/upload';
+import { cn } from '../lib/utils';
+import { useI18n } from '../hooks/useI18n';
+import type { MessageKey } from '../lib/locales/en';
+
+const STATUS_LABELS: Record<UploadProgress['status'], MessageKey> = {
+  uploading: 'uploads.status.uploading',
+  paused: 'uploads.status.paused',
+  failed: 'uploads.status.failed',
+  completed: 'uploads.status.completed',
+  cancelled: 'uploads.status.cancelled'
+};
+
+// Upload Queue
+export const UploadQueue: React.FC<{
+  uploads: UploadProgress[];
+  onCancel: (id: string) => void;
+  onRetry: (id: string) => void;
+}> = ({ uploads, onCancel, onRetry }) => {
+  const { t, translateText, formatNumber } = useI18n();
+  if (uploads.length === 0) return null;
+
+  return (
+    <div className="space-y-2">
+      {uploads.map((upload) => {
+        const progress = upload.sentChunks / upload.totalChunks;
+        return (
+          <div key={upload.id} className="p-3 bg-gray-50 rounded-lg border">
+            <div className="flex items-center justify-between mb-2">
+              <p className="text-sm font-medium truncate me-2">{upload.name}</p>
+              <div className="flex items-center space-x-1 flex-shrink-0">
+                {upload.status === 'failed' && (
+                  <button
+                    onClick={() => onRetry(upload.id)}
+                    className="p-1 text-blue-600 hover:text-blue-700 transition-colors"
+                    title={t('uploads.retry')}
+                  >
+                    <RotateCw className="h-4 w-4" />
+                  </button>
+                )}
+                <button
+                  onClick={() => onCancel(upload.id)}
+                  className="p-1 text-gray-500 hover:text-red-600 transition-colors"
+                  title={t('uploads.cancel')}
+                >
+                  <X className="h-4 w-4" />
+                </button>
+              </div>
+            </div>
+
+            <div className="h-2 bg-gray-200 rounded-full overflow-hidden">
+              <div
+                className={cn(
+                  "h-full transition-all duration-200",
+                  upload.status === 'failed' ? 'bg-red-500' :
+                  upload.status === 'paused' ? 'bg-yellow-500' : 'bg-blue-500'
+                )}
+                style={{ width: `${Math.round(progress * 100)}%` }}
+              />
+            </div>
+
+            <p className={cn(
+              "text-xs mt-1",
+              upload.status === 'failed' ? 'text-red-600' : 'text-gray-500'
+            )}>
+              {t(STATUS_LABELS[upload.status])} • {formatNumber(progress, { style: 'percent' })}
+              {upload.error && upload.status === 'failed' && ` • ${translateText(upload.error)}`}
+            </p>
+          </div>
+        );
+      })}
+    </div>
+  );
+};
@@ -0,0 +1,160 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { Pin, PinOff, Maximize2, Minimize2, MicOff, Monitor } from 'lucide-react';
+import { RTVIClientVideo, useRTVIClientMediaTrack } from '@pipecat-ai/client-react';
+import { cn } from '../lib/utils';
+import { displayName, type CallParticipant } from '../lib/participants';
+import { useI18n } from '../hooks/useI18n';
+import type { Translatable } from '../lib/i18n';
+
+export interface TileSpec {
+  id: string;
+  label: Translatable;
+  kind: 'bot' | 'self' | 'screen' | 'remote';
+}
+
+// Avatar shown when a tile has no video
+const Avatar: React.FC<{ label: string; emoji?: string }> = ({ label, emoji }) => (
+  <div className="flex items-center justify-center h-full">
+    <div className="w-16 h-16 bg-gray-600 rounded-full flex items-center justify-center text-2xl text-white">
+      {emoji ?? label.charAt(0).toUpperCase()}
+    </div>
+  </div>
+);
+
+const TileMedia: React.FC<{
+  kind: TileSpec['kind'];
+  label: string;
+  isCameraEnabled: boolean;
+}> = ({ kind, label, isCameraEnabled }) => {
+  const botVideo = useRTVIClientMediaTrack('video', 'bot');
+
+  switch (kind) {
+    case 'bot':
+      return botVideo ? <RTVIClientVideo participant="bot" fit="cover" /> : <Avatar label={label} emoji="🤖" />;
+    case 'self':
+      return isCameraEnabled
+        ? <RTVIClientVideo participant="local" fit="cover" mirror />
+        : <Avatar label={label} />;
+    case 'screen':
+      return <RTVIClientVideo participant="local" trackType="screenVideo" fit="contain" />;
+    case 'remote':
+      // RTVI only exposes bot and local tracks, so other participants are audio-only here
+      return <Avatar label={label} />;
+  }
+};
+
+// Video Tile
+const VideoTile: React.FC<{
+  tile: TileSpec;
+  pinned: boolean;
+  compact?: boolean;
+  isCameraEnabled: boolean;
+  isMicEnabled: boolean;
+  onTogglePin: () => void;
+}> = ({ tile, pinned, compact = false, isCameraEnabled, isMicEnabled, onTogglePin }) => {
+  const ref = useRef<HTMLDivElement>(null);
+  const [isFullscreen, setIsFullscreen] = useState(false);
+  const { t, translateText } = useI18n();
+  const label = translateText(tile.label);
+
+  useEffect(() => {
+    const handleChange = () => setIsFullscreen(document.fullscreenElement === ref.current);
+    document.addEventListener('fullscreenchange', handleChange);
+    return () => document.removeEventListener('fullscreenchange', handleChange);
+  }, []);
+
+  const toggleFullscreen = () => {
+    const request = isFullscreen ? document.exitFullscreen() : ref.current?.requestFullscreen();
+    request?.catch(error => console.error('Fullscreen failed:', error));
+  };
+
+  const buttonClass = 'p-1 rounded hover:bg-white hover:bg-opacity-20';
+
+  return (
+    <div ref={ref} className="group relative h-full w-full min-h-0 bg-gray-800 overflow-hidden rounded" aria-label={label}>
+      <TileMedia kind={tile.kind} label={label} isCameraEnabled={isCameraEnabled} />
+
+      {tile.kind === 'self' && !isMicEnabled && (
+        <div className="absolute bottom-1 end-1 p-1 rounded-full bg-red-500 text-white" title={t('video.micOff')}>
+          <MicOff className="h-3 w-3" />
+        </div>
+      )}
+
+      <div className={cn(
+        'absolute top-1 left-1/2 -translate-x-1/2 flex items-center space-x-1 px-2 py-0.5 rounded-full',
+        'bg-black bg-opacity-60 text-white text-xs opacity-0 group-hover:opacity-100 focus-within:opacity-100 transition-opacity',
+        compact && 'scale-90'
+      )}>
+        {tile.kind === 'screen' && <Monitor className="h-3 w-3" />}
+        <span className="whitespace-nowrap">{label}</span>
+        <button onClick={onTogglePin} className={buttonClass} title={t(pinned ? 'video.unpin' : 'video.pin')}>
+          {pinned ? <PinOff className="h-3 w-3" /> : <Pin className="h-3 w-3" />}
+        </button>
+        <button onClick={toggleFullscreen} className={buttonClass} title={t(isFullscreen ? 'video.exitFullscreen' : 'video.fullscreen')}>
+          {isFullscreen ? <Minimize2 className="h-3 w-3" /> : <Maximize2 className="h-3 w-3" />}
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export function buildTiles(participants: CallParticipant[], isScreenSharing: boolean): TileSpec[] {
+  const tiles: TileSpec[] = [];
+  const bot = participants.find(p => p.isBot);
+  tiles.push({ id: 'bot', label: bot ? displayName(bot) : { key: 'video.assistant' }, kind: 'bot' });
+  tiles.push({ id: 'self', label: { key: 'participants.you' }, kind: 'self' });
+  if (isScreenSharing) tiles.push({ id: 'screen', label: { key: 'participants.yourScreen' }, kind: 'screen' });
+  participants
+    .filter(p => !p.local && !p.isBot)
+    .forEach(p => tiles.push({ id: p.id, label: displayName(p), kind: 'remote' }));
+  return tiles;
+}
+
+// Video Grid
+export const VideoGrid: React.FC<{
+  tiles: TileSpec[];
+  isCameraEnabled: boolean;
+  isMicEnabled: boolean;
+}> = ({ tiles, isCameraEnabled, isMicEnabled }) => {
+  const [pinnedId, setPinnedId] = useState<string | null>(null);
+  const pinned = tiles.find(tile => tile.id === pinnedId) ?? null;
+
+  const renderTile = (tile: TileSpec, compact = false) => (
+    <VideoTile
+      key={tile.id}
+      tile={tile}
+      pinned={tile.id === pinned?.id}
+      compact={compact}
+      isCameraEnabled={isCameraEnabled}
+      isMicEnabled={isMicEnabled}
+      onTogglePin={() => setPinnedId(current => (current === tile.id ? null : tile.id))}
+    />
+  );
+
+  if (pinned) {
+    const others = tiles.filter(tile => tile.id !== pinned.id);
+    return (
+      <div className="absolute inset-0">
+        {renderTile(pinned)}
+        {others.length > 0 && (
+          <div className="absolute end-2 top-14 bottom-20 w-1/5 flex flex-col justify-center space-y-2">
+            {others.map(tile => (
+              <div key={tile.id} className="aspect-video shadow-lg">
+                {renderTile(tile, true)}
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+    );
+  }
+
+  return (
+    <div className={cn(
+      'absolute inset-0 grid gap-1 p-1 auto-rows-fr',
+      tiles.length <= 1 ? 'grid-cols-1' : tiles.length <= 4 ? 'grid-cols-2' : 'grid-cols-3'
+    )}>
+      {tiles.map(tile => renderTile(tile))}
+    </div>
+  );
+};
@@ -0,0 +1,81 @@
+import React from 'react';
+import { Ear, Mic, Loader2, Volume2 } from 'lucide-react';
+import { cn } from '../lib/utils';
+import { meterLevel, type ConversationPhase } from '../lib/voiceActivity';
+import { useAudioLevels } from '../hooks/useVoiceActivity';
+import { useI18n } from '../hooks/useI18n';
+import type { MessageKey } from '../lib/locales/en';
+
+const BAR_COUNT = 5;
+
+const PHASES: Record<Exclude<ConversationPhase, 'idle'>, {
+  label: MessageKey;
+  icon: React.ElementType;
+  className: string;
+}> = {
+  listening: { label: 'voice.listening', icon: Ear, className: 'bg-gray-800 bg-opacity-70' },
+  userSpeaking: { label: 'voice.userSpeaking', icon: Mic, className: 'bg-green-600' },
+  thinking: { label: 'voice.thinking', icon: Loader2, className: 'bg-yellow-500' },
+  botSpeaking: { label: 'voice.botSpeaking', icon: Volume2, className: 'bg-blue-600' }
+};
+
+// Audio Level Meter
+export const AudioLevelMeter: React.FC<{
+  level: number;
+  label: string;
+  active?: boolean;
+  muted?: boolean;
+}> = ({ level, label, active = false, muted = false }) => {
+  const { t } = useI18n();
+  const lit = muted ? 0 : Math.round(meterLevel(level) * BAR_COUNT);
+
+  return (
+    <div className="flex items-center space-x-1.5" title={muted ? t('voice.muted', { label }) : label}>
+      <span className="text-[10px] font-medium uppercase tracking-wide text-white opacity-80">{label}</span>
+      <div className="flex items-end h-4 space-x-0.5">
+        {Array.from({ length: BAR_COUNT }, (_, i) => (
+          <div
+            key={i}
+            className={cn(
+              'w-1 rounded-sm transition-colors duration-75',
+              i < lit ? (active ? 'bg-green-400' : 'bg-white') : 'bg-white bg-opacity-25'
+            )}
+            style={{ height: `${40 + (i * 60) / (BAR_COUNT - 1)}%` }}
+          />
+        ))}
+      </div>
+    </div>
+  );
+};
+
+// Voice Activity Overlay
+export const VoiceActivityOverlay: React.FC<{
+  phase: ConversationPhase;
+  isMicEnabled: boolean;
+}> = ({ phase, isMicEnabled }) => {
+  const levels = useAudioLevels();
+  const { t } = useI18n();
+  if (phase === 'idle') return null;
+  const { label, icon: Icon, className } = PHASES[phase];
+
+  return (
+    <>
+      {phase === 'botSpeaking' && (
+        <div className="absolute inset-0 pointer-events-none ring-4 ring-inset ring-blue-500 ring-opacity-60" />
+      )}
+
+      <div className={cn(
+        'absolute top-4 start-4 flex items-center px-3 py-1.5 rounded-full text-white text-xs font-medium shadow',
+        className
+      )}>
+        <Icon className={cn('h-3.5 w-3.5 me-1.5', phase === 'thinking' && 'motion-safe:animate-spin')} />
+        {t(label)}
+      </div>
+
+      <div className="absolute bottom-4 end-4 flex items-center space-x-3 px-3 py-1.5 rounded-full bg-gray-900 bg-opacity-60">
+        <AudioLevelMeter level={levels.local} label={t('voice.you')} active={phase === 'userSpeaking'} muted={!isMicEnabled} />
+        <AudioLevelMeter level={levels.bot} label={t('voice.bot')} active={phase === 'botSpeaking'} />
+      </div>
+    </>
+  );
+};
@@ -0,0 +1,15 @@
+import { createContext, useContext } from 'react';
+import type { Politeness } from '../lib/a11y';
+
+export interface AnnouncerContextValue {
+  announce: (message: string, politeness?: Politeness) => void;
+}
+
+export const AnnouncerContext = createContext<AnnouncerContextValue | null>(null);
+
+// Reads a message out through the screen-reader live regions; see AnnouncerProvider
+export function useAnnouncer() {
+  const value = useContext(AnnouncerContext);
+  if (!value) throw new Error('useAnnouncer must be used inside <AnnouncerProvider>');
+  return value;
+}
@@ -0,0 +1,79 @@
+import { useCallback, useMemo, useState } from 'react';
+import { RTVIEvent, type RTVIClientConfigOption } from '@pipecat-ai/client-js';
+import { useRTVIClient, useRTVIClientEvent } from '@pipecat-ai/client-react';
+import { readBotSettings, toConfigOptions, type BotSettings } from '../lib/botConfig';
+import type { Translatable } from '../lib/i18n';
+
+// Config calls reject with the bot's error message rather than an Error
+const errorText = (error: unknown) => {
+  if (error instanceof Error) return error.message;
+  const data = (error as { data?: { error?: unknown } } | null)?.data;
+  return String(data?.error ?? error);
+};
+
+// The bot's live RTVI service config. It is fetched when the bot becomes
+// ready, and edits are pushed with updateConfig mid-session.
+export function useBotConfig() {
+  const client = useRTVIClient();
+  const [remote, setRemote] = useState<RTVIClientConfigOption[] | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [applying, setApplying] = useState(false);
+  const [error, setError] = useState<Translatable | null>(null);
+
+  const refresh = useCallback(async () => {
+    if (!client?.connected) return;
+    setLoading(true);
+    setError(null);
+    try {
+      setRemote(await client.getConfig());
+    } catch (err) {
+      console.error('Fetching bot config failed:', err);
+      setError({ key: 'bot.readFailed', params: { reason: errorText(err) } });
+    } finally {
+      setLoading(false);
+    }
+  }, [client]);
+
+  useRTVIClientEvent(RTVIEvent.BotReady, refresh);
+
+  useRTVIClientEvent(RTVIEvent.Config, useCallback((config: RTVIClientConfigOption[]) => {
+    setRemote(config);
+  }, []));
+
+  useRTVIClientEvent(RTVIEvent.Disconnected, useCallback(() => {
+    setRemote(null);
+    setError(null);
+  }, []));
+
+  // Returns false when there was nothing to change or the update failed
+  const apply = useCallback(async (settings: BotSettings, interrupt = false) => {
+    if (!client?.connected || !remote) return false;
+    const options = toConfigOptions(settings, remote);
+    if (options.length === 0) return false;
+
+    setApplying(true);
+    setError(null);
+    try {
+      await client.updateConfig(options, interrupt);
+      setRemote(await client.getConfig());
+      return true;
+    } catch (err) {
+      console.error('Updating bot config failed:', err);
+      setError({ key: 'bot.updateRejected', params: { reason: errorText(err) } });
+      return false;
+    } finally {
+      setApplying(false);
+    }
+  }, [client, remote]);
+
+  const settings = useMemo(() => (remote ? readBotSettings(remote) : null), [remote]);
+
+  return {
+    settings,
+    loading,
+    applying,
+    error,
+    refresh,
+    apply
+  };
+}
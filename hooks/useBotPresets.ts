@@ -0,0 +1,57 @@
+import { useCallback, useEffect, useState } from 'react';
+import { useRTVIClient } from '@pipecat-ai/client-react';
+import {
+  createPreset,
+  loadActivePresetId,
+  loadPresets,
+  presetRequestData,
+  saveActivePresetId,
+  savePresets,
+  type BotPreset,
+  type BotSettings
+} from '../lib/botConfig';
+
+// Named bot presets kept in localStorage. The selected preset is written into
+// the client's requestData, so it goes out with the next /connect request.
+export function useBotPresets() {
+  const client = useRTVIClient();
+  const [presets, setPresets] = useState<BotPreset[]>(loadPresets);
+  const [activeId, setActiveId] = useState<string | null>(loadActivePresetId);
+  const activePreset = presets.find(p => p.id === activeId) ?? null;
+
+  useEffect(() => {
+    if (!client) return;
+    const rest: Record<string, unknown> = { ...client.params.requestData };
+    delete rest.bot_preset;
+    delete rest.bot_config;
+    client.params = {
+      ...client.params,
+      requestData: activePreset ? { ...rest, ...presetRequestData(activePreset) } : rest
+    };
+  }, [client, activePreset]);
+
+  const update = useCallback((next: BotPreset[]) => {
+    savePresets(next);
+    setPresets(next);
+  }, []);
+
+  const select = useCallback((id: string | null) => {
+    saveActivePresetId(id);
+    setActiveId(id);
+  }, []);
+
+  // Saving under an existing name replaces that preset
+  const save = useCallback((name: string, settings: BotSettings) => {
+    const existing = presets.find(p => p.name === name);
+    const preset = existing ? { ...existing, settings } : createPreset(name, settings);
+    update(existing ? presets.map(p => (p.id === preset.id ? preset : p)) : [...presets, preset]);
+    select(preset.id);
+  }, [presets, update, select]);
+
+  const remove = useCallback((id: string) => {
+    update(presets.filter(p => p.id !== id));
+    if (activeId === id) select(null);
+  }, [presets, activeId, update, select]);
+
+  return { presets, activeId, activePreset, select, save, remove };
+}
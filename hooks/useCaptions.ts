@@ -0,0 +1,90 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { RTVIEvent, type BotLLMTextData, type BotTTSTextData, type TranscriptData } from '@pipecat-ai/client-js';
+import { useRTVIClientEvent } from '@pipecat-ai/client-react';
+import {
+  appendCaptionText,
+  dropExpiredCues,
+  finalizeCue,
+  loadCaptionSettings,
+  saveCaptionSettings,
+  upsertCue,
+  type CaptionCue,
+  type CaptionSettings
+} from '../lib/captions';
+
+// Builds caption cues from the RTVI events. Bot text comes from TTS text as
+// it is spoken; pipelines that never send TTS text fall back to sentence
+// transcripts. Finished cues linger briefly and then clear.
+export function useCaptions({ enabled, showUser }: Pick<CaptionSettings, 'enabled' | 'showUser'>) {
+  const [cues, setCues] = useState<CaptionCue[]>([]);
+  // Sentence transcripts run ahead of the audio, so once the pipeline has
+  // shown it sends TTS text they are ignored for the rest of the session
+  const ttsSeen = useRef(false);
+  const active = useRef({ bot: enabled, user: enabled && showUser });
+  active.current = { bot: enabled, user: enabled && showUser };
+
+  useEffect(() => {
+    if (!enabled) setCues([]);
+    else if (!showUser) setCues(prev => prev.filter(cue => cue.speaker !== 'user'));
+  }, [enabled, showUser]);
+
+  const hasFinished = cues.some(cue => cue.final);
+  useEffect(() => {
+    if (!hasFinished) return;
+    const timer = setInterval(() => setCues(prev => dropExpiredCues(prev)), 500);
+    return () => clearInterval(timer);
+  }, [hasFinished]);
+
+  const appendBot = useCallback((chunk: string) => {
+    if (!active.current.bot) return;
+    setCues(prev => upsertCue(prev, 'bot', text => appendCaptionText(text, chunk)));
+  }, []);
+
+  const finishBot = useCallback(() => {
+    setCues(prev => finalizeCue(prev, 'bot'));
+  }, []);
+
+  useRTVIClientEvent(RTVIEvent.BotTtsText, useCallback((data: BotTTSTextData) => {
+    ttsSeen.current = true;
+    appendBot(data.text);
+  }, [appendBot]));
+
+  useRTVIClientEvent(RTVIEvent.BotTranscript, useCallback((data: BotLLMTextData) => {
+    if (!ttsSeen.current) appendBot(data.text);
+  }, [appendBot]));
+
+  useRTVIClientEvent(RTVIEvent.BotStoppedSpeaking, finishBot);
+
+  useRTVIClientEvent(RTVIEvent.UserTranscript, useCallback((data: TranscriptData) => {
+    if (!active.current.user) return;
+    setCues(prev => {
+      const next = upsertCue(prev, 'user', () => data.text.trim());
+      return data.final ? finalizeCue(next, 'user') : next;
+    });
+  }, []));
+
+  // Talking over the bot cuts its caption short
+  useRTVIClientEvent(RTVIEvent.UserStartedSpeaking, finishBot);
+
+  useRTVIClientEvent(RTVIEvent.Disconnected, useCallback(() => {
+    ttsSeen.current = false;
+    setCues([]);
+  }, []));
+
+  return cues;
+}
+
+// Caption appearance, remembered across sessions
+export function useCaptionSettings() {
+  const [settings, setSettings] = useState<CaptionSettings>(loadCaptionSettings);
+
+  const updateSettings = useCallback((patch: Partial<CaptionSettings>) => {
+    setSettings(prev => {
+      const next = { ...prev, ...patch };
+      saveCaptionSettings(next);
+      return next;
+    });
+  }, []);
+
+  return { settings, updateSettings };
+}
@@ -0,0 +1,113 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { useRTVIClient, useRTVIClientTransportState } from '@pipecat-ai/client-react';
+import type { FileData } from '../lib/types';
+import { describeFailure } from '../lib/services';
+import { useFileProcessorService } from './useServices';
+import {
+  chunkCount,
+  createUploadJob,
+  runUpload,
+  UploadCancelledError,
+  type UploadJob,
+  type UploadProgress,
+  type UploadSend
+} from '../lib/upload';
+
+// Tracks chunked uploads to the file_processor service. Uploads interrupted by
+// a dropped connection are paused and picked up again once the transport is
+// ready; uploads that fail while connected wait for a manual retry.
+export function useChunkedUploads(chunkSize: number, onComplete: (file: FileData) => void) {
+  const client = useRTVIClient();
+  const transportState = useRTVIClientTransportState();
+  const [uploads, setUploads] = useState<UploadProgress[]>([]);
+  const uploadsRef = useRef(uploads);
+  uploadsRef.current = uploads;
+  const jobs = useRef(new Map<string, UploadJob>());
+  const onCompleteRef = useRef(onComplete);
+  onCompleteRef.current = onComplete;
+
+  const update = useCallback((id: string, patch: Partial<UploadProgress>) => {
+    setUploads(prev => prev.map(u => (u.id === id ? { ...u, ...patch } : u)));
+  }, []);
+
+  const remove = useCallback((id: string) => {
+    jobs.current.delete(id);
+    setUploads(prev => prev.filter(u => u.id !== id));
+  }, []);
+
+  const send: UploadSend = useFileProcessorService();
+
+  const run = useCallback(async (job: UploadJob) => {
+    if (job.running) return;
+    job.running = true;
+    update(job.id, { status: 'uploading', error: undefined });
+
+    try {
+      const checksum = await runUpload(job, send, sentChunks => update(job.id, { sentChunks }));
+      remove(job.id);
+      onCompleteRef.current({
+        id: job.id,
+        name: job.file.name,
+        type: job.file.type,
+        size: job.file.size,
+        checksum,
+        file: job.file,
+        uploadedAt: new Date().toISOString()
+      });
+    } catch (error) {
+      if (error instanceof UploadCancelledError) return;
+      console.error(`Upload of ${job.file.name} interrupted:`, error);
+      update(job.id, {
+        status: client?.connected ? 'failed' : 'paused',
+        error: describeFailure(error)
+      });
+    } finally {
+      job.running = false;
+    }
+  }, [client, send, update, remove]);
+
+  // Resume paused uploads after a reconnect
+  useEffect(() => {
+    if (transportState !== 'ready') return;
+    uploadsRef.current
+      .filter(u => u.status === 'paused')
+      .forEach(u => {
+        const job = jobs.current.get(u.id);
+        if (job) run(job);
+      });
+  }, [transportState, run]);
+
+  const start = useCallback((file: File) => {
+    const job = createUploadJob(file, chunkSize);
+    jobs.current.set(job.id, job);
+    setUploads(prev => [...prev, {
+      id: job.id,
+      name: file.name,
+      size: file.size,
+      totalChunks: chunkCount(file.size, chunkSize),
+      sentChunks: 0,
+      status: client?.state === 'ready' ? 'uploading' : 'paused'
+    }]);
+    // Files picked while offline wait for the resume-on-ready effect above
+    if (client?.state === 'ready') run(job);
+  }, [client, chunkSize, run]);
+
+  const retry = useCallback((id: string) => {
+    const job = jobs.current.get(id);
+    if (job) run(job);
+  }, [run]);
+
+  const cancel = useCallback((id: string) => {
+    const job = jobs.current.get(id);
+    if (!job) return;
+    job.cancelled = true;
+    remove(id);
+    if (client?.connected) {
+      send('cancel_upload', { upload_id: id }).catch(error => {
+        console.warn('Cancel upload failed:', error);
+      });
+    }
+  }, [client, send, remove]);
+
+  return { uploads, start, retry, cancel };
+}
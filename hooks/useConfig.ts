@@ -0,0 +1,16 @@
+import { createContext, useContext } from 'react';
+import type { ConfigLayer, ResolvedConfig } from '../lib/config';
+
+export interface ConfigContextValue extends ResolvedConfig {
+  overrides: ConfigLayer;
+  saveOverrides: (overrides: ConfigLayer) => void;
+}
+
+export const ConfigContext = createContext<ConfigContextValue | null>(null);
+
+// Resolved runtime configuration; see lib/config.ts for the layering rules
+export function useConfig() {
+  const value = useContext(ConfigContext);
+  if (!value) throw new Error('useConfig must be used inside <ConfigProvider>');
+  return value;
+}
@@ -0,0 +1,99 @@
+import { useCallback, useEffect, useState } from 'react';
+import { useRTVIClient, useRTVIClientMediaDevices } from '@pipecat-ai/client-react';
+import { loadJSON, saveJSON } from '../lib/storage';
+import { describeFailure } from '../lib/services';
+import { useNotifications } from './useNotifications';
+import { useI18n } from './useI18n';
+
+const STORAGE_KEY = 'rtvi.devices';
+
+interface DevicePreferences {
+  micId?: string;
+  camId?: string;
+  speakerId?: string;
+}
+
+export const loadDevicePreferences = () => loadJSON<DevicePreferences>(STORAGE_KEY, {});
+
+export const deviceIdOf = (device: MediaDeviceInfo | Record<string, never>) =>
+  'deviceId' in device ? device.deviceId : '';
+
+// Wraps the RTVI media device lists with persisted selections. Stored choices
+// are re-applied whenever the device lists change, so unplugging a headset and
+// plugging it back in restores it without the user re-picking it.
+export function useDeviceSelection() {
+  const client = useRTVIClient();
+  const devices = useRTVIClientMediaDevices();
+  const { availableMics, availableCams, availableSpeakers, selectedMic, selectedCam, selectedSpeaker,
+    updateMic, updateCam, updateSpeaker } = devices;
+  const [prefs, setPrefs] = useState<DevicePreferences>(loadDevicePreferences);
+  const [loading, setLoading] = useState(false);
+  const { notify } = useNotifications();
+  const { t, translateText } = useI18n();
+
+  const savePrefs = useCallback((patch: DevicePreferences) => {
+    setPrefs(prev => {
+      const next = { ...prev, ...patch };
+      saveJSON(STORAGE_KEY, next);
+      return next;
+    });
+  }, []);
+
+  useEffect(() => {
+    if (prefs.micId && prefs.micId !== deviceIdOf(selectedMic)
+      && availableMics.some(d => d.deviceId === prefs.micId)) {
+      updateMic(prefs.micId);
+    }
+  }, [availableMics, prefs.micId, selectedMic, updateMic]);
+
+  useEffect(() => {
+    if (prefs.camId && prefs.camId !== deviceIdOf(selectedCam)
+      && availableCams.some(d => d.deviceId === prefs.camId)) {
+      updateCam(prefs.camId);
+    }
+  }, [availableCams, prefs.camId, selectedCam, updateCam]);
+
+  useEffect(() => {
+    if (prefs.speakerId && prefs.speakerId !== deviceIdOf(selectedSpeaker)
+      && availableSpeakers.some(d => d.deviceId === prefs.speakerId)) {
+      updateSpeaker(prefs.speakerId);
+    }
+  }, [availableSpeakers, prefs.speakerId, selectedSpeaker, updateSpeaker]);
+
+  // Device labels are only exposed after a permission prompt, which initDevices triggers
+  const loadDevices = useCallback(async () => {
+    if (!client) return;
+    setLoading(true);
+    try {
+      await client.initDevices();
+    } catch (error) {
+      console.error('Device initialization failed:', error);
+      notify({
+        severity: 'error',
+        title: t('notify.devicesFailed'),
+        message: translateText(describeFailure(error)),
+        source: t('notify.source.devices')
+      });
+    } finally {
+      setLoading(false);
+    }
+  }, [client, notify, t, translateText]);
+
+  return {
+    ...devices,
+    loading,
+    loadDevices,
+    selectMic: useCallback((id: string) => {
+      updateMic(id);
+      savePrefs({ micId: id });
+    }, [updateMic, savePrefs]),
+    selectCam: useCallback((id: string) => {
+      updateCam(id);
+      savePrefs({ camId: id });
+    }, [updateCam, savePrefs]),
+    selectSpeaker: useCallback((id: string) => {
+      updateSpeaker(id);
+      savePrefs({ speakerId: id });
+    }, [updateSpeaker, savePrefs])
+  };
+}
@@ -0,0 +1,51 @@
+import { useEffect, useRef } from 'react';
+import { focusableIn } from '../lib/a11y';
+
+// Focus management for modal dialogs and drawers. On mount, focus moves to
+// the first control inside the dialog (or the dialog itself); Tab and
+// Shift+Tab cycle within it; Escape calls onClose when one is given. On
+// unmount, focus goes back to whatever had it before the dialog opened.
+export function useDialogFocus<T extends HTMLElement = HTMLDivElement>(onClose?: () => void) {
+  const ref = useRef<T>(null);
+  const onCloseRef = useRef(onClose);
+  onCloseRef.current = onClose;
+
+  useEffect(() => {
+    const dialog = ref.current;
+    if (!dialog) return;
+    const opener = document.activeElement instanceof HTMLElement ? document.activeElement : null;
+    (focusableIn(dialog)[0] ?? dialog).focus();
+
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key === 'Escape' && onCloseRef.current) {
+        e.preventDefault();
+        onCloseRef.current();
+        return;
+      }
+      if (e.key !== 'Tab') return;
+
+      const items = focusableIn(dialog);
+      if (items.length === 0) {
+        e.preventDefault();
+        return;
+      }
+      const first = items[0];
+      const last = items[items.length - 1];
+      if (e.shiftKey && (document.activeElement === first || document.activeElement === dialog)) {
+        e.preventDefault();
+        last.focus();
+      } else if (!e.shiftKey && document.activeElement === last) {
+        e.preventDefault();
+        first.focus();
+      }
+    };
+
+    dialog.addEventListener('keydown', handleKeyDown);
+    return () => {
+      dialog.removeEventListener('keydown', handleKeyDown);
+      if (opener?.isConnected) opener.focus();
+    };
+  }, []);
+
+  return ref;
+}
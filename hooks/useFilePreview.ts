@@ -0,0 +1,43 @@
+import { useEffect, useState } from 'react';
+import type { FileData } from '../lib/types';
+import { fileKindOf, type FileKind } from '../lib/fileValidation';
+import { extractPreviewText } from '../lib/filePreview';
+
+export interface FilePreview {
+  kind: FileKind | null;
+  url: string | null;  // object URL for images and the PDF viewer
+  text: string | null; // first page / first lines of text documents
+  loading: boolean;
+}
+
+// Builds a preview from the local copy of an uploaded file. Files restored
+// from history have no local copy and get an empty preview.
+export function useFilePreview(file: FileData): FilePreview {
+  const kind = fileKindOf(file.type);
+  const [url, setUrl] = useState<string | null>(null);
+  const [text, setText] = useState<string | null>(null);
+  const [loading, setLoading] = useState(false);
+
+  useEffect(() => {
+    if (!file.file || (kind !== 'image' && kind !== 'pdf')) return;
+    const objectUrl = URL.createObjectURL(file.file);
+    setUrl(objectUrl);
+    return () => URL.revokeObjectURL(objectUrl);
+  }, [file.file, kind]);
+
+  useEffect(() => {
+    if (!file.file || !kind || kind === 'image') return;
+    let cancelled = false;
+    setLoading(true);
+    extractPreviewText(file.file, kind).then(result => {
+      if (cancelled) return;
+      setText(result);
+      setLoading(false);
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [file.file, kind]);
+
+  return { kind, url, text, loading };
+}
@@ -0,0 +1,110 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { LLMHelper, RTVIEvent } from '@pipecat-ai/client-js';
+import { useRTVIClient, useRTVIClientEvent } from '@pipecat-ai/client-react';
+import { createId } from '../lib/utils';
+import {
+  createFunctionRegistry,
+  FunctionCallError,
+  functionDefinitions,
+  parseFunctionArgs,
+  summarizeValue,
+  type FunctionContext,
+  type FunctionHandler,
+  type FunctionRegistry
+} from '../lib/functionCalls';
+import { useI18n } from './useI18n';
+
+export interface PendingApproval {
+  id: string;
+  name: string;
+  description: string;
+  args: unknown;
+}
+
+const DEFAULT_REGISTRY = createFunctionRegistry();
+
+// Answers the bot's LLM function calls from the registry. Sensitive handlers
+// wait for approve()/deny(); every call and its outcome is passed to `log`.
+export function useFunctionCalls(
+  context: FunctionContext,
+  log: (content: string) => void,
+  registry: FunctionRegistry = DEFAULT_REGISTRY
+) {
+  const client = useRTVIClient();
+  const [approvals, setApprovals] = useState<PendingApproval[]>([]);
+  const resolvers = useRef(new Map<string, (approved: boolean) => void>());
+  const contextRef = useRef(context);
+  contextRef.current = context;
+  const logRef = useRef(log);
+  logRef.current = log;
+  const { t } = useI18n();
+  const tRef = useRef(t);
+  tRef.current = t;
+
+  const settle = useCallback((id: string, approved: boolean) => {
+    resolvers.current.get(id)?.(approved);
+    resolvers.current.delete(id);
+    setApprovals(prev => prev.filter(a => a.id !== id));
+  }, []);
+
+  const requestApproval = useCallback((handler: FunctionHandler, args: unknown) =>
+    new Promise<boolean>(resolve => {
+      const id = createId();
+      resolvers.current.set(id, resolve);
+      setApprovals(prev => [...prev, { id, name: handler.name, description: handler.description, args }]);
+    }), []);
+
+  const invoke = useCallback(async (name: string, raw: unknown) => {
+    const say = (content: string) => logRef.current(content);
+    const t = tRef.current;
+    say(t('functions.called', { name, args: raw === undefined ? '' : summarizeValue(raw) }));
+
+    // Error messages are written for the LLM, so they stay in English
+    try {
+      const handler = registry.get(name);
+      if (!handler) throw new FunctionCallError(`Unknown function "${name}"`);
+
+      const args = parseFunctionArgs(handler, raw);
+      if (handler.sensitive && !(await requestApproval(handler, args))) {
+        say(t('functions.declined', { name }));
+        return { error: 'The user declined this request' };
+      }
+
+      const result = await handler.run(args, contextRef.current);
+      say(t('functions.returned', { name, result: summarizeValue(result) }));
+      return result;
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      if (!(error instanceof FunctionCallError)) console.error(`Function call ${name} failed:`, error);
+      say(t('functions.failed', { name, reason: message }));
+      return { error: message };
+    }
+  }, [registry, requestApproval]);
+
+  useEffect(() => {
+    if (!client) return;
+    const helper = client.getHelper<LLMHelper>('llm')
+      ?? client.registerHelper('llm', new LLMHelper({})) as LLMHelper;
+    helper.handleFunctionCall(({ functionName, arguments: args }) => invoke(functionName, args));
+
+    // Advertise the functions so the server can declare them as LLM tools
+    client.params = {
+      ...client.params,
+      requestData: { ...client.params.requestData, client_functions: functionDefinitions(registry) }
+    };
+
+    return () => {
+      helper.handleFunctionCall(async () => ({ error: 'Client functions are unavailable' }));
+    };
+  }, [client, registry, invoke]);
+
+  // Nobody is left to answer once the session ends
+  useRTVIClientEvent(RTVIEvent.Disconnected, useCallback(() => {
+    Array.from(resolvers.current.keys()).forEach(id => settle(id, false));
+  }, [settle]));
+
+  const approve = useCallback((id: string) => settle(id, true), [settle]);
+  const deny = useCallback((id: string) => settle(id, false), [settle]);
+
+  return { approvals, approve, deny };
+}
@@ -0,0 +1,27 @@
+import { createContext, useContext } from 'react';
+import type { MessageKey } from '../lib/locales/en';
+import type { Locale, MessageParams, Translatable } from '../lib/i18n';
+
+export interface I18nContextValue {
+  locale: Locale;
+  dir: 'ltr' | 'rtl';
+  setLocale: (locale: Locale) => void;
+  spokenLanguage: string;             // effective BCP 47 tag
+  spokenLanguageOverride: string | null;
+  setSpokenLanguage: (language: string | null) => void;
+  t: (key: MessageKey, params?: MessageParams) => string;
+  translateText: (text: Translatable) => string;
+  formatNumber: (value: number, options?: Intl.NumberFormatOptions) => string;
+  formatTime: (date: string | number | Date) => string;
+  formatDate: (date: string | number | Date, options?: Intl.DateTimeFormatOptions) => string;
+  formatFileSize: (bytes: number) => string;
+}
+
+export const I18nContext = createContext<I18nContextValue | null>(null);
+
+// Translations and formatting for the current locale; see I18nProvider
+export function useI18n() {
+  const value = useContext(I18nContext);
+  if (!value) throw new Error('useI18n must be used inside <I18nProvider>');
+  return value;
+}
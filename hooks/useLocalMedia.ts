@@ -0,0 +1,39 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { useRTVIClient, useRTVIClientTransportState } from '@pipecat-ai/client-react';
+
+// Mic/camera on-off state bound to the transport. While disconnected the
+// choice is only remembered locally and applied once the session is ready.
+export function useLocalMedia(initial: { mic: boolean; cam: boolean }) {
+  const client = useRTVIClient();
+  const transportState = useRTVIClientTransportState();
+  const [isMicEnabled, setIsMicEnabled] = useState(initial.mic);
+  const [isCameraEnabled, setIsCameraEnabled] = useState(initial.cam);
+
+  const desired = useRef({ mic: initial.mic, cam: initial.cam });
+  desired.current = { mic: isMicEnabled, cam: isCameraEnabled };
+
+  useEffect(() => {
+    if (transportState !== 'ready' || !client) return;
+    client.enableMic(desired.current.mic);
+    client.enableCam(desired.current.cam);
+  }, [client, transportState]);
+
+  const setMic = useCallback((enabled: boolean) => {
+    if (client?.connected) client.enableMic(enabled);
+    setIsMicEnabled(enabled);
+  }, [client]);
+
+  const setCamera = useCallback((enabled: boolean) => {
+    if (client?.connected) client.enableCam(enabled);
+    setIsCameraEnabled(enabled);
+  }, [client]);
+
+  return {
+    isMicEnabled,
+    isCameraEnabled,
+    setMic,
+    setCamera,
+    toggleMic: () => setMic(!isMicEnabled),
+    toggleCamera: () => setCamera(!isCameraEnabled)
+  };
+}
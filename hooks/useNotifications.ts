@@ -0,0 +1,19 @@
+import { createContext, useContext } from 'react';
+import type { AppNotification, NotificationInput } from '../lib/notifications';
+
+export interface NotificationContextValue {
+  notifications: AppNotification[];
+  notify: (input: NotificationInput) => void;
+  markAllRead: () => void;
+  remove: (id: string) => void;
+  clear: () => void;
+}
+
+export const NotificationContext = createContext<NotificationContextValue | null>(null);
+
+// Raises toasts and reads the notification history; see NotificationProvider
+export function useNotifications() {
+  const value = useContext(NotificationContext);
+  if (!value) throw new Error('useNotifications must be used inside <NotificationProvider>');
+  return value;
+}
@@ -0,0 +1,111 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import type { RTVIActionRequestData } from '@pipecat-ai/client-js';
+import { useRTVIClient, useRTVIClientTransportState } from '@pipecat-ai/client-react';
+import { createId } from '../lib/utils';
+import { dispatchRequest, toActionFailure, type ActionFailure } from '../lib/services';
+import {
+  loadDelivered,
+  loadOutbox,
+  markDelivered,
+  saveOutbox,
+  type OutboundItem
+} from '../lib/outboundQueue';
+
+export type SendOutcome = 'sent' | 'queued' | 'duplicate';
+
+// Sends RTVI actions (built with buildRequest) straight away when the bot is
+// ready, otherwise holds them in the durable outbox and replays them in order
+// once it is ready again. Failures the bot reports are thrown, not queued;
+// for replayed items they go to onRejected instead.
+export function useOutboundQueue(
+  onDelivered: (item: OutboundItem) => void,
+  onRejected?: (item: OutboundItem, failure: ActionFailure) => void
+) {
+  const client = useRTVIClient();
+  const transportState = useRTVIClientTransportState();
+  const [pending, setPending] = useState<OutboundItem[]>(loadOutbox);
+  const queue = useRef(pending);
+  const delivered = useRef<Set<string> | null>(null);
+  const flushing = useRef(false);
+  const onDeliveredRef = useRef(onDelivered);
+  onDeliveredRef.current = onDelivered;
+  const onRejectedRef = useRef(onRejected);
+  onRejectedRef.current = onRejected;
+
+  const commit = useCallback((items: OutboundItem[]) => {
+    queue.current = items;
+    saveOutbox(items);
+    setPending(items);
+  }, []);
+
+  const flush = useCallback(async () => {
+    if (flushing.current || !client) return;
+    flushing.current = true;
+    delivered.current ??= loadDelivered();
+
+    try {
+      while (queue.current.length > 0 && client.state === 'ready') {
+        const [item] = queue.current;
+        if (!delivered.current.has(item.id)) {
+          try {
+            await dispatchRequest(client, item.request);
+            markDelivered(delivered.current, item.id);
+            onDeliveredRef.current(item);
+          } catch (error) {
+            const failure = toActionFailure(error, item.request.service, item.request.action);
+            // Leave the item at the head of the queue for the next flush
+            if (failure.kind === 'transport' || failure.kind === 'not_ready') throw failure;
+            // The bot rejected it; retrying won't help
+            console.error(`Dropping queued ${item.request.service}/${item.request.action}:`, failure);
+            onRejectedRef.current?.(item, failure);
+          }
+        }
+        commit(queue.current.slice(1));
+      }
+    } catch (error) {
+      console.warn('Outbox replay paused:', error);
+    } finally {
+      flushing.current = false;
+    }
+  }, [client, commit]);
+
+  useEffect(() => {
+    if (transportState === 'ready') flush();
+  }, [transportState, flush]);
+
+  const send = useCallback(async (
+    request: RTVIActionRequestData,
+    meta: { label: string; dedupeKey?: string; id?: string }
+  ): Promise<SendOutcome> => {
+    // Anything issued while older items are waiting goes behind them
+    if (client?.state === 'ready' && queue.current.length === 0) {
+      try {
+        await dispatchRequest(client, request);
+        return 'sent';
+      } catch (error) {
+        const failure = toActionFailure(error, request.service, request.action);
+        if (failure.kind !== 'transport' && failure.kind !== 'not_ready') throw failure;
+      }
+    }
+
+    const id = meta.id ?? createId();
+    const dedupeKey = meta.dedupeKey ?? id;
+    if (queue.current.some(item => item.dedupeKey === dedupeKey)) return 'duplicate';
+
+    commit([...queue.current, {
+      id,
+      dedupeKey,
+      label: meta.label,
+      request,
+      queuedAt: new Date().toISOString()
+    }]);
+    flush();
+    return 'queued';
+  }, [client, commit, flush]);
+
+  const discard = useCallback((id: string) => {
+    commit(queue.current.filter(item => item.id !== id));
+  }, [commit]);
+
+  return { pending, send, discard };
+}
@@ -0,0 +1,37 @@
+import { useCallback, useState } from 'react';
+import { RTVIEvent, type Participant } from '@pipecat-ai/client-js';
+import { useRTVIClientEvent } from '@pipecat-ai/client-react';
+import {
+  LOCAL_ID,
+  removeParticipant,
+  upsertParticipant,
+  type CallParticipant
+} from '../lib/participants';
+
+// Participants in the current call, from the transport's join/leave events
+export function useParticipants() {
+  const [participants, setParticipants] = useState<CallParticipant[]>([]);
+
+  useRTVIClientEvent(RTVIEvent.Connected, useCallback(() => {
+    setParticipants(prev => upsertParticipant(prev, { id: LOCAL_ID, name: '', local: true }));
+  }, []));
+
+  useRTVIClientEvent(RTVIEvent.Disconnected, useCallback(() => setParticipants([]), []));
+
+  useRTVIClientEvent(RTVIEvent.ParticipantConnected, useCallback((p: Participant) => {
+    setParticipants(prev => upsertParticipant(prev, p));
+  }, []));
+
+  useRTVIClientEvent(RTVIEvent.BotConnected, useCallback((p: Participant) => {
+    setParticipants(prev => upsertParticipant(prev, p, true));
+  }, []));
+
+  const handleLeft = useCallback((p: Participant) => {
+    setParticipants(prev => removeParticipant(prev, p));
+  }, []);
+
+  useRTVIClientEvent(RTVIEvent.ParticipantLeft, handleLeft);
+  useRTVIClientEvent(RTVIEvent.BotDisconnected, handleLeft);
+
+  return participants;
+}
@@ -0,0 +1,62 @@
+import { useCallback, useRef, useState } from 'react';
+import { RTVIEvent, type PipecatMetricsData } from '@pipecat-ai/client-js';
+import { useRTVIClientEvent } from '@pipecat-ai/client-react';
+import {
+  addMetrics,
+  appendSample,
+  emptySeries,
+  type MetricSample,
+  type ServiceSeries
+} from '../lib/metrics';
+
+export interface PipelineMetrics {
+  ttfb: ServiceSeries;
+  processing: ServiceSeries;
+  turnLatency: MetricSample[]; // user stops speaking -> bot starts speaking
+}
+
+const emptyMetrics = (): PipelineMetrics => ({
+  ttfb: emptySeries(),
+  processing: emptySeries(),
+  turnLatency: []
+});
+
+// Collects per-service RTVI metrics and voice-to-voice latency per turn
+export function usePipelineMetrics() {
+  const [metrics, setMetrics] = useState<PipelineMetrics>(emptyMetrics);
+  const userStoppedAt = useRef<number | null>(null);
+
+  useRTVIClientEvent(RTVIEvent.Metrics, useCallback((data: PipecatMetricsData) => {
+    const at = Date.now();
+    setMetrics(prev => ({
+      ...prev,
+      ttfb: addMetrics(prev.ttfb, data.ttfb, at),
+      processing: addMetrics(prev.processing, data.processing, at)
+    }));
+  }, []));
+
+  useRTVIClientEvent(RTVIEvent.UserStoppedSpeaking, useCallback(() => {
+    userStoppedAt.current = Date.now();
+  }, []));
+
+  // A user interruption without a bot reply shouldn't count as a turn
+  useRTVIClientEvent(RTVIEvent.UserStartedSpeaking, useCallback(() => {
+    userStoppedAt.current = null;
+  }, []));
+
+  useRTVIClientEvent(RTVIEvent.BotStartedSpeaking, useCallback(() => {
+    const stoppedAt = userStoppedAt.current;
+    userStoppedAt.current = null;
+    if (stoppedAt === null) return;
+
+    const at = Date.now();
+    setMetrics(prev => ({
+      ...prev,
+      turnLatency: appendSample(prev.turnLatency, { at, value: at - stoppedAt })
+    }));
+  }, []));
+
+  const reset = useCallback(() => setMetrics(emptyMetrics()), []);
+
+  return { metrics, reset };
+}
@@ -0,0 +1,205 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { loadDevicePreferences } from './useDeviceSelection';
+import {
+  checkEndpoint,
+  initialResults,
+  SILENCE_LEVEL,
+  type CheckId,
+  type CheckResult,
+  type PreflightResults
+} from '../lib/preflight';
+import type { Translatable } from '../lib/i18n';
+
+const TEST_RECORDING_MS = 3000;
+const TONE_MS = 1200;
+
+const deviceConstraint = (deviceId?: string): MediaTrackConstraints | boolean =>
+  deviceId ? { deviceId: { ideal: deviceId } } : true;
+
+const describeMediaError = (error: unknown): Translatable => {
+  const name = error instanceof DOMException ? error.name : '';
+  if (name === 'NotAllowedError') return { key: 'precall.error.blocked' };
+  if (name === 'NotFoundError') return { key: 'precall.error.notFound' };
+  if (name === 'NotReadableError') return { key: 'precall.error.inUse' };
+  return error instanceof Error && error.message ? error.message : { key: 'precall.error.other' };
+};
+
+// Runs the pre-call checks against the browser directly, before any RTVI
+// client exists: opens the preferred mic and camera, meters the mic, records
+// a short test clip, plays a test tone and pings the connect endpoint.
+export function usePreflight(endpointUrl: string) {
+  const [results, setResults] = useState<PreflightResults>(initialResults);
+  const [stream, setStream] = useState<MediaStream | null>(null);
+  const [level, setLevel] = useState(0);
+  const [recording, setRecording] = useState(false);
+  const [playbackUrl, setPlaybackUrl] = useState<string | null>(null);
+  const [playingTone, setPlayingTone] = useState(false);
+
+  const audioContext = useRef<AudioContext | null>(null);
+  const streamRef = useRef<MediaStream | null>(null);
+  const heardSpeech = useRef(false);
+
+  const setResult = useCallback((id: CheckId, result: CheckResult) => {
+    setResults(prev => ({ ...prev, [id]: result }));
+  }, []);
+
+  const getContext = useCallback(() => {
+    if (!audioContext.current || audioContext.current.state === 'closed') {
+      audioContext.current = new AudioContext();
+    }
+    return audioContext.current;
+  }, []);
+
+  const releaseStream = useCallback(() => {
+    streamRef.current?.getTracks().forEach(track => track.stop());
+    streamRef.current = null;
+    setStream(null);
+  }, []);
+
+  // Asks for mic and camera together so the user sees a single prompt, and
+  // falls back to audio only when the camera is missing or refused
+  const requestPermissions = useCallback(async () => {
+    if (!navigator.mediaDevices?.getUserMedia) {
+      setResult('permissions', { status: 'fail', detail: { key: 'precall.permissions.unsupported' } });
+      return;
+    }
+
+    releaseStream();
+    heardSpeech.current = false;
+    setResult('permissions', { status: 'running' });
+    const { micId, camId } = loadDevicePreferences();
+
+    let media: MediaStream | null = null;
+    let cameraError: unknown = null;
+    try {
+      media = await navigator.mediaDevices.getUserMedia({ audio: deviceConstraint(micId), video: deviceConstraint(camId) });
+    } catch (error) {
+      cameraError = error;
+    }
+
+    if (!media) {
+      try {
+        media = await navigator.mediaDevices.getUserMedia({ audio: deviceConstraint(micId) });
+      } catch (error) {
+        console.error('Microphone check failed:', error);
+        setResult('permissions', { status: 'fail', detail: { key: 'precall.permissions.micFailed' } });
+        setResult('microphone', { status: 'fail', detail: describeMediaError(error) });
+        setResult('camera', { status: 'fail', detail: describeMediaError(cameraError ?? error) });
+        return;
+      }
+    }
+
+    streamRef.current = media;
+    setStream(media);
+
+    const hasVideo = media.getVideoTracks().length > 0;
+    setResult('permissions', hasVideo
+      ? { status: 'pass', detail: { key: 'precall.permissions.allowed' } }
+      : { status: 'warn', detail: { key: 'precall.permissions.micOnly' } });
+    setResult('microphone', { status: 'running', detail: { key: 'precall.microphone.speak' } });
+    setResult('camera', hasVideo
+      ? { status: 'pass', detail: media.getVideoTracks()[0].label || { key: 'precall.camera.working' } }
+      : { status: 'fail', detail: describeMediaError(cameraError) });
+  }, [releaseStream, setResult]);
+
+  // Mic level meter; hearing anything above silence passes the mic check
+  useEffect(() => {
+    const track = stream?.getAudioTracks()[0];
+    if (!stream || !track) return;
+
+    const context = getContext();
+    const source = context.createMediaStreamSource(new MediaStream([track]));
+    const analyser = context.createAnalyser();
+    analyser.fftSize = 512;
+    source.connect(analyser);
+    const samples = new Float32Array(analyser.fftSize);
+
+    let frame = 0;
+    const tick = () => {
+      analyser.getFloatTimeDomainData(samples);
+      const rms = Math.sqrt(samples.reduce((sum, sample) => sum + sample * sample, 0) / samples.length);
+      setLevel(rms);
+      if (rms > SILENCE_LEVEL && !heardSpeech.current) {
+        heardSpeech.current = true;
+        setResult('microphone', { status: 'pass', detail: track.label || { key: 'precall.microphone.working' } });
+      }
+      frame = requestAnimationFrame(tick);
+    };
+    tick();
+
+    return () => {
+      cancelAnimationFrame(frame);
+      source.disconnect();
+      setLevel(0);
+    };
+  }, [stream, getContext, setResult]);
+
+  const recordTest = useCallback(() => {
+    const track = streamRef.current?.getAudioTracks()[0];
+    if (!track || recording || typeof MediaRecorder === 'undefined') return;
+
+    const chunks: Blob[] = [];
+    const recorder = new MediaRecorder(new MediaStream([track]));
+    recorder.ondataavailable = (event) => chunks.push(event.data);
+    recorder.onstop = () => {
+      setRecording(false);
+      const blob = new Blob(chunks, { type: recorder.mimeType });
+      setPlaybackUrl(URL.createObjectURL(blob));
+    };
+    recorder.start();
+    setRecording(true);
+    setTimeout(() => recorder.state === 'recording' && recorder.stop(), TEST_RECORDING_MS);
+  }, [recording]);
+
+  // Speakers can't be verified automatically; the user confirms hearing the tone
+  const playTone = useCallback(() => {
+    const context = getContext();
+    const oscillator = context.createOscillator();
+    const gain = context.createGain();
+    oscillator.frequency.value = 440;
+    gain.gain.setValueAtTime(0.2, context.currentTime);
+    gain.gain.exponentialRampToValueAtTime(0.001, context.currentTime + TONE_MS / 1000);
+    oscillator.connect(gain).connect(context.destination);
+    oscillator.onended = () => setPlayingTone(false);
+    context.resume().catch(() => undefined);
+    oscillator.start();
+    oscillator.stop(context.currentTime + TONE_MS / 1000);
+    setPlayingTone(true);
+    setResult('speaker', { status: 'running', detail: { key: 'precall.speaker.question' } });
+  }, [getContext, setResult]);
+
+  const confirmSpeaker = useCallback((heard: boolean) => {
+    setResult('speaker', heard
+      ? { status: 'pass', detail: { key: 'precall.speaker.heard' } }
+      : { status: 'warn', detail: { key: 'precall.speaker.notHeard' } });
+  }, [setResult]);
+
+  const checkNetwork = useCallback(async () => {
+    setResult('network', { status: 'running', detail: endpointUrl });
+    setResult('network', await checkEndpoint(endpointUrl));
+  }, [endpointUrl, setResult]);
+
+  useEffect(() => () => {
+    streamRef.current?.getTracks().forEach(track => track.stop());
+    audioContext.current?.close().catch(() => undefined);
+  }, []);
+
+  useEffect(() => () => {
+    if (playbackUrl) URL.revokeObjectURL(playbackUrl);
+  }, [playbackUrl]);
+
+  return {
+    results,
+    stream,
+    level,
+    recording,
+    playbackUrl,
+    playingTone,
+    requestPermissions,
+    recordTest,
+    playTone,
+    confirmSpeaker,
+    checkNetwork,
+    release: releaseStream
+  };
+}
@@ -0,0 +1,49 @@
+import { useCallback, useRef } from 'react';
+import { RTVIEvent, type RTVIMessage } from '@pipecat-ai/client-js';
+import { useRTVIClientEvent, useRTVIClientTransportState } from '@pipecat-ai/client-react';
+import { describeRTVIError } from '../lib/notifications';
+import { useNotifications } from './useNotifications';
+import { useI18n } from './useI18n';
+
+// Surfaces transport and bot errors as notifications
+export function useRTVINotifications() {
+  const { notify } = useNotifications();
+  const { t, translateText } = useI18n();
+  const transportState = useRTVIClientTransportState();
+  const isConnected = useRef(false);
+  isConnected.current = ['connected', 'ready'].includes(transportState);
+
+  useRTVIClientEvent(
+    RTVIEvent.Error,
+    useCallback((message: RTVIMessage) => {
+      const { text, fatal } = describeRTVIError(message);
+      notify({
+        severity: 'error',
+        title: t(fatal ? 'notify.sessionError' : 'notify.botError'),
+        message: translateText(text),
+        source: t('notify.source.bot')
+      });
+    }, [notify, t, translateText])
+  );
+
+  useRTVIClientEvent(
+    RTVIEvent.MessageError,
+    useCallback((message: RTVIMessage) => {
+      notify({
+        severity: 'warning',
+        title: t('notify.requestRejected'),
+        message: translateText(describeRTVIError(message).text),
+        source: t('notify.source.bot')
+      });
+    }, [notify, t, translateText])
+  );
+
+  // The bot leaving on its own, not because we disconnected
+  useRTVIClientEvent(
+    RTVIEvent.BotDisconnected,
+    useCallback(() => {
+      if (!isConnected.current) return;
+      notify({ severity: 'warning', title: t('notify.botLeft'), source: t('notify.source.connection') });
+    }, [notify, t])
+  );
+}
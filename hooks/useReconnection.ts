@@ -0,0 +1,112 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { useRTVIClient, useRTVIClientTransportState } from '@pipecat-ai/client-react';
+import { backoffDelay, DEFAULT_BACKOFF, type BackoffOptions } from '../lib/reconnect';
+import { describeFailure } from '../lib/services';
+import { useNotifications } from './useNotifications';
+import { useI18n } from './useI18n';
+
+export type ReconnectStatus = 'idle' | 'reconnecting' | 'failed';
+
+const isLive = (state: string) => ['connected', 'ready'].includes(state);
+
+// Wraps connect/disconnect with automatic reconnection. Only a session that
+// was established and then dropped without the user asking is retried; a
+// failed first connect is left for the user to retry.
+export function useReconnection(options: BackoffOptions = DEFAULT_BACKOFF) {
+  const client = useRTVIClient();
+  const transportState = useRTVIClientTransportState();
+  const { notify } = useNotifications();
+  const { t, translateText } = useI18n();
+  const [status, setStatus] = useState<ReconnectStatus>('idle');
+  const [attempt, setAttempt] = useState(0);
+
+  const wantConnected = useRef(false);
+  const wasLive = useRef(false);
+  const reconnecting = useRef(false);
+  const attemptRef = useRef(0);
+  const timer = useRef<ReturnType<typeof setTimeout>>();
+  const optionsRef = useRef(options);
+  optionsRef.current = options;
+
+  // Giving up keeps the attempt count, so a later drop event can't start a
+  // fresh cycle; only a manual connect (or the session coming back) clears it
+  const stopRetrying = useCallback((next: ReconnectStatus) => {
+    clearTimeout(timer.current);
+    reconnecting.current = false;
+    if (next === 'idle') {
+      attemptRef.current = 0;
+      setAttempt(0);
+    }
+    setStatus(next);
+  }, []);
+
+  const scheduleAttempt = useCallback(() => {
+    const next = attemptRef.current + 1;
+    if (next > optionsRef.current.maxAttempts) {
+      stopRetrying('failed');
+      notify({
+        severity: 'error',
+        title: t('connection.failed', { count: optionsRef.current.maxAttempts }),
+        source: t('notify.source.connection')
+      });
+      return;
+    }
+
+    reconnecting.current = true;
+    attemptRef.current = next;
+    setAttempt(next);
+    setStatus('reconnecting');
+
+    timer.current = setTimeout(async () => {
+      if (!wantConnected.current || !client) return;
+      try {
+        await client.connect();
+      } catch (error) {
+        console.warn(`Reconnect attempt ${next} failed:`, error);
+        if (wantConnected.current) scheduleAttempt();
+      }
+    }, backoffDelay(next, optionsRef.current));
+  }, [client, stopRetrying, notify, t]);
+
+  useEffect(() => {
+    if (isLive(transportState)) {
+      wasLive.current = true;
+      if (reconnecting.current || attemptRef.current > 0) stopRetrying('idle');
+      return;
+    }
+
+    const dropped = transportState === 'disconnected' || transportState === 'error';
+    const attemptsLeft = attemptRef.current < optionsRef.current.maxAttempts;
+    if (dropped && wantConnected.current && wasLive.current && !reconnecting.current && attemptsLeft) {
+      scheduleAttempt();
+    }
+  }, [transportState, scheduleAttempt, stopRetrying]);
+
+  useEffect(() => () => clearTimeout(timer.current), []);
+
+  const connect = useCallback(async () => {
+    if (!client) return;
+    wantConnected.current = true;
+    wasLive.current = false;
+    stopRetrying('idle');
+    try {
+      await client.connect();
+    } catch (error) {
+      console.error('Connect failed:', error);
+      notify({
+        severity: 'error',
+        title: t('notify.connectFailed'),
+        message: translateText(describeFailure(error)),
+        source: t('notify.source.connection')
+      });
+    }
+  }, [client, stopRetrying, notify, t, translateText]);
+
+  const disconnect = useCallback(async () => {
+    wantConnected.current = false;
+    stopRetrying('idle');
+    await client?.disconnect();
+  }, [client, stopRetrying]);
+
+  return { status, attempt, connect, disconnect };
+}
@@ -0,0 +1,87 @@
+import { useCallback, useEffect, useState } from 'react';
+import { RTVIEvent, type Participant } from '@pipecat-ai/client-js';
+import { useRTVIClient, useRTVIClientEvent, useRTVIClientMediaTrack } from '@pipecat-ai/client-react';
+
+export interface ScreenSource {
+  surface: 'tab' | 'window' | 'screen' | 'unknown';
+  label: string;
+  width?: number;
+  height?: number;
+}
+
+const SURFACES: Record<string, ScreenSource['surface']> = {
+  browser: 'tab',
+  window: 'window',
+  monitor: 'screen'
+};
+
+export function describeScreenTrack(track: MediaStreamTrack): ScreenSource {
+  const settings = track.getSettings() as MediaTrackSettings & { displaySurface?: string };
+  return {
+    surface: SURFACES[settings.displaySurface ?? ''] ?? 'unknown',
+    label: track.label,
+    width: settings.width,
+    height: settings.height
+  };
+}
+
+const isLocal = (participant?: Participant) => !participant || participant.local;
+
+// Screen sharing driven by the transport's own screen tracks. State follows
+// the track events rather than our button, so stopping from the browser's
+// "Stop sharing" bar is picked up too.
+export function useScreenShare() {
+  const client = useRTVIClient();
+  const track = useRTVIClientMediaTrack('screenVideo', 'local');
+  const [isSharing, setIsSharing] = useState(false);
+  const [pending, setPending] = useState(false);
+  const [source, setSource] = useState<ScreenSource | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const stopped = useCallback(() => {
+    setIsSharing(false);
+    setPending(false);
+    setSource(null);
+  }, []);
+
+  useRTVIClientEvent(RTVIEvent.ScreenTrackStarted, useCallback((started: MediaStreamTrack, participant?: Participant) => {
+    if (!isLocal(participant)) return;
+    setIsSharing(true);
+    setPending(false);
+    setError(null);
+    setSource(describeScreenTrack(started));
+  }, []));
+
+  useRTVIClientEvent(RTVIEvent.ScreenTrackStopped, useCallback((_track: MediaStreamTrack, participant?: Participant) => {
+    if (isLocal(participant)) stopped();
+  }, [stopped]));
+
+  useRTVIClientEvent(RTVIEvent.ScreenShareError, useCallback((message: string) => {
+    setError(message);
+    stopped();
+  }, [stopped]));
+
+  useRTVIClientEvent(RTVIEvent.Disconnected, stopped);
+
+  // Some transports only end the track without emitting a stop event
+  useEffect(() => {
+    if (!track) return;
+    track.addEventListener('ended', stopped);
+    return () => track.removeEventListener('ended', stopped);
+  }, [track, stopped]);
+
+  const setSharing = useCallback((enabled: boolean) => {
+    if (!client?.connected) return;
+    setError(null);
+    setPending(enabled);
+    client.enableScreenShare(enabled);
+  }, [client]);
+
+  return {
+    isSharing,
+    pending,
+    source,
+    error,
+    toggle: () => setSharing(!isSharing)
+  };
+}
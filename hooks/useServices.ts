@@ -0,0 +1,57 @@
+import { useCallback, useMemo } from 'react';
+import { useRTVIClient } from '@pipecat-ai/client-react';
+import {
+  ActionFailure,
+  callAction,
+  type ActionArgs,
+  type ActionName,
+  type ActionResult,
+  type ServiceName
+} from '../lib/services';
+
+// Typed wrappers around client.action for each service in lib/services.ts.
+// Every call validates its arguments and result and rejects with an
+// ActionFailure, so callers can show describeFailure(error) directly.
+
+function useServiceCall<S extends ServiceName>(service: S) {
+  const client = useRTVIClient();
+  return useCallback(<A extends ActionName<S>>(name: A, args: ActionArgs<S, A>): Promise<ActionResult<S, A>> => {
+    if (!client) {
+      return Promise.reject(new ActionFailure('not_ready', service, name, 'Client not available'));
+    }
+    return callAction(client, service, name, args);
+  }, [client, service]);
+}
+
+// Chat messages and file analysis requests go through useOutboundQueue
+// instead, so they can wait out a disconnect
+export function useAnalysisService() {
+  const call = useServiceCall('analysis');
+  return useMemo(() => ({
+    analyzeConversation: () =>
+      call('analyze_content', { content_type: 'conversation', data: {} })
+  }), [call]);
+}
+
+export function useScreenService() {
+  const call = useServiceCall('screen');
+  return useMemo(() => ({
+    setSharing: (enabled: boolean) => call('toggle_sharing', { enabled })
+  }), [call]);
+}
+
+// The upload protocol itself lives in lib/upload.ts; this only provides the
+// typed transport for it.
+export function useFileProcessorService() {
+  return useServiceCall('file_processor');
+}
+
+export function useLLMService() {
+  const call = useServiceCall('llm');
+  return useMemo(() => ({
+    appendToMessages: (
+      messages: ActionArgs<'llm', 'append_to_messages'>['messages'],
+      runImmediately = false
+    ) => call('append_to_messages', { messages, run_immediately: runImmediately })
+  }), [call]);
+}
@@ -0,0 +1,190 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { RTVIEvent } from '@pipecat-ai/client-js';
+import { useRTVIClientEvent, useRTVIClientTransportState } from '@pipecat-ai/client-react';
+import type { Analytics, FileData, Message } from '../lib/types';
+import { createId } from '../lib/utils';
+import {
+  defaultSessionTitle,
+  deleteSession,
+  getSession,
+  listSessions,
+  renameSession,
+  saveSession,
+  toStoredFile,
+  type StoredSession
+} from '../lib/sessionStore';
+import { describeFailure } from '../lib/services';
+import type { MessageKey } from '../lib/locales/en';
+import { useLLMService } from './useServices';
+import { useNotifications } from './useNotifications';
+import { useI18n } from './useI18n';
+
+const SAVE_DELAY = 1000;
+
+interface ActiveSession {
+  id: string;
+  startedAt: string;
+  baseline: Analytics; // counters at connect time; sessions store the difference
+  title?: string;      // set once the user renames the live session
+  restoredFrom?: string;
+}
+
+const subtract = (a: Analytics, b: Analytics): Analytics => ({
+  totalMessages: a.totalMessages - b.totalMessages,
+  filesProcessed: a.filesProcessed - b.filesProcessed,
+  voiceMessages: a.voiceMessages - b.voiceMessages,
+  textMessages: a.textMessages - b.textMessages
+});
+
+// Replays a stored conversation into the bot's LLM context
+const toContextMessages = (messages: Message[]) =>
+  messages
+    .filter(m => (m.sender === 'user' || m.sender === 'bot') && !m.streaming && m.content.trim())
+    .map(m => ({ role: m.sender === 'user' ? 'user' as const : 'assistant' as const, content: m.content }));
+
+// Records every connection as a session in IndexedDB. Only messages and files
+// created after the connection started belong to it, so reopening an older
+// session and reconnecting doesn't copy the old history into the new record.
+export function useSessionHistory(state: {
+  messages: Message[];
+  files: FileData[];
+  analytics: Analytics;
+}) {
+  const { appendToMessages } = useLLMService();
+  const transportState = useRTVIClientTransportState();
+  const isConnected = ['connected', 'ready'].includes(transportState);
+
+  const [sessions, setSessions] = useState<StoredSession[]>([]);
+  const [activeId, setActiveId] = useState<string | null>(null);
+  const [activeStartedAt, setActiveStartedAt] = useState<string | null>(null);
+  const active = useRef<ActiveSession | null>(null);
+  const pendingRestore = useRef<StoredSession | null>(null);
+  const latest = useRef(state);
+  latest.current = state;
+  const { locale, t, translateText } = useI18n();
+  const localeRef = useRef(locale);
+  localeRef.current = locale;
+  const { notify } = useNotifications();
+
+  // IndexedDB can be missing (private browsing), full, or blocked by an
+  // upgrade in another tab, so every store failure is surfaced
+  const report = useCallback((title: MessageKey, error: unknown) => {
+    console.error(t(title), error);
+    notify({
+      severity: 'error',
+      title: t(title),
+      message: translateText(describeFailure(error)),
+      source: t('notify.source.history')
+    });
+  }, [notify, t, translateText]);
+
+  const refresh = useCallback(async () => {
+    try {
+      setSessions(await listSessions());
+    } catch (error) {
+      report('notify.historyLoadFailed', error);
+    }
+  }, [report]);
+
+  useEffect(() => {
+    refresh();
+  }, [refresh]);
+
+  const persist = useCallback(async (ended = false) => {
+    const session = active.current;
+    if (!session) return;
+
+    const { messages, files, analytics } = latest.current;
+    const ownMessages = messages.filter(m => m.timestamp >= session.startedAt);
+    const ownFiles = files.filter(f => f.uploadedAt >= session.startedAt);
+    if (!ownMessages.some(m => m.sender !== 'system') && ownFiles.length === 0) return;
+
+    try {
+      await saveSession({
+        id: session.id,
+        title: session.title ?? defaultSessionTitle(localeRef.current, ownMessages, session.startedAt),
+        startedAt: session.startedAt,
+        endedAt: ended ? new Date().toISOString() : undefined,
+        updatedAt: new Date().toISOString(),
+        restoredFrom: session.restoredFrom,
+        messages: ownMessages.map(m => ({ ...m, streaming: false })),
+        files: ownFiles.map(toStoredFile),
+        analytics: subtract(analytics, session.baseline)
+      });
+      refresh();
+    } catch (error) {
+      report('notify.sessionSaveFailed', error);
+    }
+  }, [refresh, report]);
+
+  // Start a session on connect and close it on disconnect
+  useEffect(() => {
+    if (isConnected && !active.current) {
+      active.current = {
+        id: createId(),
+        startedAt: new Date().toISOString(),
+        baseline: latest.current.analytics,
+        restoredFrom: pendingRestore.current?.id
+      };
+      setActiveId(active.current.id);
+      setActiveStartedAt(active.current.startedAt);
+    } else if (!isConnected && active.current) {
+      persist(true);
+      active.current = null;
+      setActiveId(null);
+      setActiveStartedAt(null);
+    }
+  }, [isConnected, persist]);
+
+  // Debounced autosave while the session is live
+  useEffect(() => {
+    if (!activeId) return;
+    const timer = setTimeout(() => persist(), SAVE_DELAY);
+    return () => clearTimeout(timer);
+  }, [activeId, state.messages, state.files, state.analytics, persist]);
+
+  useRTVIClientEvent(RTVIEvent.BotReady, useCallback(() => {
+    const session = pendingRestore.current;
+    pendingRestore.current = null;
+    if (!session) return;
+
+    const messages = toContextMessages(session.messages);
+    if (messages.length === 0) return;
+    appendToMessages(messages, false)
+      .catch(error => report('notify.contextRestoreFailed', error));
+  }, [appendToMessages, report]));
+
+  const rename = useCallback(async (id: string, title: string) => {
+    if (active.current?.id === id) active.current.title = title;
+    try {
+      await renameSession(id, title);
+      refresh();
+    } catch (error) {
+      report('notify.sessionRenameFailed', error);
+    }
+  }, [refresh, report]);
+
+  const remove = useCallback(async (id: string) => {
+    try {
+      await deleteSession(id);
+      refresh();
+    } catch (error) {
+      report('notify.sessionDeleteFailed', error);
+    }
+  }, [refresh, report]);
+
+  // Loads a session for viewing; with restoreContext the next connection also
+  // hands its conversation to the bot. Unreadable sessions resolve to undefined.
+  const open = useCallback(async (id: string, restoreContext = false) => {
+    try {
+      const session = await getSession(id);
+      pendingRestore.current = session && restoreContext ? session : null;
+      return session;
+    } catch (error) {
+      report('notify.sessionOpenFailed', error);
+      return undefined;
+    }
+  }, [report]);
+
+  return { sessions, activeId, activeStartedAt, refresh, rename, remove, open };
+}
@@ -0,0 +1,200 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { RTVIEvent } from '@pipecat-ai/client-js';
+import { useRTVIClientEvent, useRTVIClientMediaTrack } from '@pipecat-ai/client-react';
+import type { Message } from '../lib/types';
+import { downloadBlob } from '../lib/utils';
+import { createZip } from '../lib/zip';
+import {
+  bundleEntries,
+  bundleName,
+  pickMimeType,
+  type RecordingVideoSource
+} from '../lib/recording';
+import type { Translatable } from '../lib/i18n';
+
+export type RecorderStatus = 'idle' | 'recording' | 'finalizing' | 'ready';
+
+export interface RecordingBundle {
+  blob: Blob;
+  filename: string;
+}
+
+type AudioKey = 'local' | 'bot';
+
+interface AudioGraph {
+  context: AudioContext;
+  destination: MediaStreamAudioDestinationNode;
+  sources: Map<AudioKey, { track: MediaStreamTrack; node: MediaStreamAudioSourceNode }>;
+}
+
+// Records the call locally with MediaRecorder: mic and bot audio mixed into
+// one track, plus the bot video or our screen share if asked for. Stopping
+// (or the session ending) packs the media and the transcript into a ZIP.
+export function useSessionRecorder(messages: Message[]) {
+  const localAudio = useRTVIClientMediaTrack('audio', 'local');
+  const botAudio = useRTVIClientMediaTrack('audio', 'bot');
+  const botVideo = useRTVIClientMediaTrack('video', 'bot');
+  const screenVideo = useRTVIClientMediaTrack('screenVideo', 'local');
+
+  const [status, setStatus] = useState<RecorderStatus>('idle');
+  const [startedAt, setStartedAt] = useState<string | null>(null);
+  const [elapsedMs, setElapsedMs] = useState(0);
+  const [bytes, setBytes] = useState(0);
+  const [error, setError] = useState<Translatable | null>(null);
+  const [bundle, setBundle] = useState<RecordingBundle | null>(null);
+
+  const recorder = useRef<MediaRecorder | null>(null);
+  const graph = useRef<AudioGraph | null>(null);
+  const chunks = useRef<Blob[]>([]);
+  const session = useRef({ startedAt: '', consentedAt: '', videoSource: 'none' as RecordingVideoSource });
+  const messagesRef = useRef(messages);
+  messagesRef.current = messages;
+  const tracks = useRef({ local: localAudio, bot: botAudio });
+  tracks.current = { local: localAudio, bot: botAudio };
+
+  // Muting or switching devices replaces a track; rewire the mix so the
+  // recording keeps going with the new one
+  const syncSources = useCallback(() => {
+    const current = graph.current;
+    if (!current) return;
+    (['local', 'bot'] as AudioKey[]).forEach(key => {
+      const track = tracks.current[key];
+      const existing = current.sources.get(key);
+      if (existing?.track === track) return;
+      existing?.node.disconnect();
+      current.sources.delete(key);
+      if (!track || track.readyState === 'ended') return;
+      const node = current.context.createMediaStreamSource(new MediaStream([track]));
+      node.connect(current.destination);
+      current.sources.set(key, { track, node });
+    });
+  }, []);
+
+  useEffect(() => {
+    if (status === 'recording') syncSources();
+  }, [status, localAudio, botAudio, syncSources]);
+
+  useEffect(() => {
+    if (status !== 'recording' || !startedAt) return;
+    const started = Date.parse(startedAt);
+    const timer = setInterval(() => setElapsedMs(Date.now() - started), 500);
+    return () => clearInterval(timer);
+  }, [status, startedAt]);
+
+  const finalize = useCallback(async (mimeType: string) => {
+    graph.current?.context.close().catch(() => undefined);
+    graph.current = null;
+    recorder.current = null;
+
+    const { startedAt: started, consentedAt, videoSource } = session.current;
+    try {
+      const media = new Blob(chunks.current, { type: mimeType });
+      const entries = bundleEntries({
+        startedAt: started,
+        stoppedAt: new Date().toISOString(),
+        consentedAt,
+        videoSource,
+        mimeType,
+        media,
+        messages: messagesRef.current
+      });
+      setBundle({ blob: await createZip(entries), filename: `${bundleName(started)}.zip` });
+      setStatus('ready');
+    } catch (err) {
+      console.error('Recording bundle failed:', err);
+      setError({ key: 'recording.packageFailed' });
+      setStatus('idle');
+    } finally {
+      chunks.current = [];
+    }
+  }, []);
+
+  const start = useCallback((options: { videoSource: RecordingVideoSource; consentedAt: string }) => {
+    if (recorder.current) return;
+    setError(null);
+    setBundle(null);
+
+    try {
+      const context = new AudioContext();
+      graph.current = { context, destination: context.createMediaStreamDestination(), sources: new Map() };
+      syncSources();
+
+      const video = options.videoSource === 'bot' ? botVideo
+        : options.videoSource === 'screen' ? screenVideo
+        : null;
+      const stream = new MediaStream([
+        ...graph.current.destination.stream.getAudioTracks(),
+        ...(video ? [video] : [])
+      ]);
+
+      const mimeType = pickMimeType(!!video);
+      const mediaRecorder = new MediaRecorder(stream, mimeType ? { mimeType } : undefined);
+      mediaRecorder.ondataavailable = (event) => {
+        if (event.data.size === 0) return;
+        chunks.current.push(event.data);
+        setBytes(prev => prev + event.data.size);
+      };
+      mediaRecorder.onstop = () => finalize(mediaRecorder.mimeType || mimeType);
+
+      const now = new Date().toISOString();
+      session.current = {
+        startedAt: now,
+        consentedAt: options.consentedAt,
+        videoSource: video ? options.videoSource : 'none'
+      };
+      chunks.current = [];
+      recorder.current = mediaRecorder;
+      mediaRecorder.start(1000);
+
+      setStartedAt(now);
+      setElapsedMs(0);
+      setBytes(0);
+      setStatus('recording');
+    } catch (err) {
+      console.error('Recording failed to start:', err);
+      graph.current?.context.close().catch(() => undefined);
+      graph.current = null;
+      recorder.current = null;
+      setError(err instanceof Error && err.message ? err.message : { key: 'recording.unsupported' });
+    }
+  }, [botVideo, screenVideo, syncSources, finalize]);
+
+  const stop = useCallback(() => {
+    if (recorder.current?.state !== 'recording') return;
+    setStatus('finalizing');
+    recorder.current.stop();
+  }, []);
+
+  const download = useCallback(() => {
+    if (bundle) downloadBlob(bundle.blob, bundle.filename);
+  }, [bundle]);
+
+  const discard = useCallback(() => {
+    setBundle(null);
+    setBytes(0);
+    setElapsedMs(0);
+    setStartedAt(null);
+    setStatus('idle');
+  }, []);
+
+  // The recording ends with the session
+  useRTVIClientEvent(RTVIEvent.Disconnected, stop);
+
+  useEffect(() => () => {
+    if (recorder.current?.state === 'recording') recorder.current.stop();
+  }, []);
+
+  return {
+    status,
+    startedAt,
+    elapsedMs,
+    bytes,
+    error,
+    bundle,
+    available: { bot: !!botVideo, screen: !!screenVideo },
+    start,
+    stop,
+    download,
+    discard
+  };
+}
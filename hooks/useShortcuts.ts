@@ -0,0 +1,113 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import {
+  comboFromEvent,
+  DEFAULT_SHORTCUTS,
+  hasModifier,
+  loadShortcuts,
+  saveShortcuts,
+  SHORTCUT_ACTIONS,
+  type ShortcutAction,
+  type ShortcutMap
+} from '../lib/shortcuts';
+
+// `up` makes a shortcut hold-to-activate, like push-to-talk
+export type ShortcutHandlers = Partial<Record<ShortcutAction, { down: () => void; up?: () => void }>>;
+
+// Elements that give bare keys a meaning of their own: Space types, presses a
+// button, selects a tab or ticks a checkbox
+const INTERACTIVE_SELECTOR = [
+  'input',
+  'textarea',
+  'select',
+  'button',
+  'a[href]',
+  'summary',
+  ...['button', 'tab', 'checkbox', 'radio', 'switch', 'menuitem', 'option', 'slider', 'textbox', 'combobox']
+    .map(role => `[role="${role}"]`)
+].join(',');
+
+const ownsBareKeys = (target: EventTarget | null) =>
+  target instanceof HTMLElement && (target.isContentEditable || target.closest(INTERACTIVE_SELECTOR) !== null);
+
+const NON_TEXT_INPUTS = ['button', 'checkbox', 'color', 'file', 'image', 'radio', 'range', 'reset', 'submit'];
+
+// The subset where a bare key is typed as text or picks an option
+const isTextEntry = (target: EventTarget | null) =>
+  target instanceof HTMLElement && (
+    target.isContentEditable
+    || target instanceof HTMLTextAreaElement
+    || target instanceof HTMLSelectElement
+    || (target instanceof HTMLInputElement && !NON_TEXT_INPUTS.includes(target.type))
+    || target.closest('[role="textbox"],[role="combobox"]') !== null
+  );
+
+// Binds the user's shortcut map to window key events. Keys without Ctrl, Alt
+// or Meta are left alone while a control has focus, so typing a space in the
+// chat box or pressing a focused button with Space doesn't trigger anything.
+// Hold shortcuts (push-to-talk) only give way to text entry: focus stays on
+// whatever was last clicked, and push-to-talk has to keep working there, so
+// the key is taken from the focused button instead.
+export function useShortcuts(handlers: ShortcutHandlers) {
+  const [bindings, setBindings] = useState<ShortcutMap>(loadShortcuts);
+  const handlersRef = useRef(handlers);
+  handlersRef.current = handlers;
+  const held = useRef(new Map<string, ShortcutAction>()); // KeyboardEvent.code -> action
+
+  useEffect(() => {
+    const release = (code: string) => {
+      const action = held.current.get(code);
+      if (!action) return;
+      held.current.delete(code);
+      handlersRef.current[action]?.up?.();
+    };
+    const releaseAll = () => Array.from(held.current.keys()).forEach(release);
+
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (event.defaultPrevented) return;
+      const combo = comboFromEvent(event);
+      if (!combo) return;
+
+      const action = SHORTCUT_ACTIONS.find(a => bindings[a] === combo);
+      const handler = action && handlersRef.current[action];
+      if (!action || !handler) return;
+      const leftToTarget = handler.up ? isTextEntry : ownsBareKeys;
+      if (!hasModifier(combo) && leftToTarget(event.target)) return;
+
+      event.preventDefault();
+      if (event.repeat) return;
+      if (handler.up) held.current.set(event.code, action);
+      handler.down();
+    };
+    // A focused button activates on Space key-up, so that is swallowed too
+    const handleKeyUp = (event: KeyboardEvent) => {
+      if (held.current.has(event.code)) event.preventDefault();
+      release(event.code);
+    };
+
+    window.addEventListener('keydown', handleKeyDown);
+    window.addEventListener('keyup', handleKeyUp);
+    // Key-ups are lost once the window loses focus
+    window.addEventListener('blur', releaseAll);
+    return () => {
+      window.removeEventListener('keydown', handleKeyDown);
+      window.removeEventListener('keyup', handleKeyUp);
+      window.removeEventListener('blur', releaseAll);
+      releaseAll();
+    };
+  }, [bindings]);
+
+  const setBinding = useCallback((action: ShortcutAction, combo: string) => {
+    setBindings(prev => {
+      const next = { ...prev, [action]: combo };
+      saveShortcuts(next);
+      return next;
+    });
+  }, []);
+
+  const resetBindings = useCallback(() => {
+    saveShortcuts(DEFAULT_SHORTCUTS);
+    setBindings(DEFAULT_SHORTCUTS);
+  }, []);
+
+  return { bindings, setBinding, resetBindings };
+}
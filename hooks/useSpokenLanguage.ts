@@ -0,0 +1,19 @@
+import { useEffect } from 'react';
+import { useRTVIClient } from '@pipecat-ai/client-react';
+import { useI18n } from './useI18n';
+
+// Puts the chosen spoken language into the client's requestData so the
+// server can start STT and TTS in it. Like bot presets, a change applies
+// from the next /connect.
+export function useSpokenLanguage() {
+  const client = useRTVIClient();
+  const { locale, spokenLanguage } = useI18n();
+
+  useEffect(() => {
+    if (!client) return;
+    client.params = {
+      ...client.params,
+      requestData: { ...client.params.requestData, language: spokenLanguage, ui_locale: locale }
+    };
+  }, [client, spokenLanguage, locale]);
+}
@@ -0,0 +1,139 @@
+import { useCallback, useRef } from 'react';
+import type React from 'react';
+import { RTVIEvent, type TranscriptData, type BotLLMTextData } from '@pipecat-ai/client-js';
+import { useRTVIClientEvent } from '@pipecat-ai/client-react';
+import type { Analytics, Message } from '../lib/types';
+import { finalizeStreamingMessage, upsertStreamingMessage } from '../lib/transcript';
+import { createId } from '../lib/utils';
+
+interface BotTurn {
+  id: string | null;      // bubble id, set once the turn produces output
+  replyTo: string | null; // user message this turn answers
+  hasLlmText: boolean;    // token stream seen, so sentence transcripts are duplicates
+  spoke: boolean;         // TTS ran during this turn
+}
+
+const idleTurn = (): BotTurn => ({ id: null, replyTo: null, hasLlmText: false, spoke: false });
+
+// Bots that support it echo the message_id sent with chat/send_text on the
+// output they produce for it
+const echoedMessageId = (data: BotLLMTextData) => {
+  const id = (data as BotLLMTextData & { message_id?: unknown }).message_id;
+  return typeof id === 'string' && id ? id : null;
+};
+
+// Subscribes to the RTVI user/bot transcription events and mirrors them into
+// the chat history: user speech becomes 'voice' messages, bot output streams
+// into a single growing bubble that is finalized when the turn ends.
+//
+// User turns awaiting a reply (finished utterances, and text messages
+// registered with expectReply()) wait in a FIFO. A reply carrying the
+// message_id of the turn it answers is attached to that turn; one without is
+// attached to the oldest turn still waiting, since the bot answers in order.
+export function useTranscripts(
+  setMessages: React.Dispatch<React.SetStateAction<Message[]>>,
+  setAnalytics: React.Dispatch<React.SetStateAction<Analytics>>
+) {
+  const botTurn = useRef<BotTurn>(idleTurn());
+  const utteranceId = useRef<string | null>(null);
+  const awaitingReply = useRef<string[]>([]);
+
+  // A queued text message is registered again when the outbox delivers it
+  const expectReply = useCallback((id: string) => {
+    if (!awaitingReply.current.includes(id)) awaitingReply.current.push(id);
+  }, []);
+
+  const cancelReply = useCallback((id: string) => {
+    awaitingReply.current = awaitingReply.current.filter(pending => pending !== id);
+  }, []);
+
+  const appendBotText = useCallback((text: string, echoedId: string | null) => {
+    const turn = botTurn.current;
+    if (!turn.id) {
+      turn.id = createId();
+      if (echoedId) {
+        turn.replyTo = echoedId;
+        awaitingReply.current = awaitingReply.current.filter(pending => pending !== echoedId);
+      } else {
+        turn.replyTo = awaitingReply.current.shift() ?? null;
+      }
+    }
+    const fields = { id: turn.id, type: 'text' as const, ...(turn.replyTo ? { replyTo: turn.replyTo } : {}) };
+    setMessages(prev => upsertStreamingMessage(prev, 'bot', text, 'append', fields));
+  }, [setMessages]);
+
+  const finalizeBotTurn = useCallback(() => {
+    const turn = botTurn.current;
+    botTurn.current = idleTurn();
+    if (!turn.id) return;
+
+    setMessages(prev => finalizeStreamingMessage(prev, 'bot', {
+      type: turn.spoke ? 'voice' : 'text'
+    }));
+    setAnalytics(prev => ({
+      ...prev,
+      totalMessages: prev.totalMessages + 1,
+      voiceMessages: prev.voiceMessages + (turn.spoke ? 1 : 0)
+    }));
+  }, [setMessages, setAnalytics]);
+
+  useRTVIClientEvent(RTVIEvent.UserTranscript, useCallback((data: TranscriptData) => {
+    const id = utteranceId.current ??= createId();
+    if (!data.final) {
+      setMessages(prev => upsertStreamingMessage(prev, 'user', data.text, 'replace', { id }));
+      return;
+    }
+
+    utteranceId.current = null;
+    setMessages(prev => finalizeStreamingMessage(
+      upsertStreamingMessage(prev, 'user', data.text, 'replace', { id }),
+      'user'
+    ));
+    if (data.text.trim()) {
+      expectReply(id);
+      setAnalytics(prev => ({
+        ...prev,
+        totalMessages: prev.totalMessages + 1,
+        voiceMessages: prev.voiceMessages + 1
+      }));
+    }
+  }, [setMessages, setAnalytics, expectReply]));
+
+  // The user talking over the bot ends the bot's turn early
+  useRTVIClientEvent(RTVIEvent.UserStartedSpeaking, finalizeBotTurn);
+
+  useRTVIClientEvent(RTVIEvent.BotLlmText, useCallback((data: BotLLMTextData) => {
+    botTurn.current.hasLlmText = true;
+    appendBotText(data.text, echoedMessageId(data));
+  }, [appendBotText]));
+
+  // Fallback for pipelines that only emit sentence-aggregated transcripts
+  useRTVIClientEvent(RTVIEvent.BotTranscript, useCallback((data: BotLLMTextData) => {
+    if (botTurn.current.hasLlmText) return;
+    appendBotText(` ${data.text}`, echoedMessageId(data));
+  }, [appendBotText]));
+
+  useRTVIClientEvent(RTVIEvent.BotTtsStarted, useCallback(() => {
+    botTurn.current.spoke = true;
+  }, []));
+
+  useRTVIClientEvent(RTVIEvent.BotStartedSpeaking, useCallback(() => {
+    botTurn.current.spoke = true;
+  }, []));
+
+  // Text-only turns end with the LLM; spoken turns end when the audio does
+  useRTVIClientEvent(RTVIEvent.BotLlmStopped, useCallback(() => {
+    if (!botTurn.current.spoke) finalizeBotTurn();
+  }, [finalizeBotTurn]));
+
+  useRTVIClientEvent(RTVIEvent.BotStoppedSpeaking, finalizeBotTurn);
+
+  useRTVIClientEvent(RTVIEvent.Disconnected, useCallback(() => {
+    finalizeBotTurn();
+    utteranceId.current = null;
+    awaitingReply.current = [];
+    setMessages(prev => finalizeStreamingMessage(prev, 'user'));
+  }, [finalizeBotTurn, setMessages]));
+
+  return { expectReply, cancelReply };
+}
@@ -0,0 +1,86 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { RTVIEvent, type Participant } from '@pipecat-ai/client-js';
+import { useRTVIClientEvent } from '@pipecat-ai/client-react';
+import {
+  nextPhase,
+  smoothLevel,
+  THINKING_TIMEOUT_MS,
+  type ConversationPhase,
+  type VoiceEvent
+} from '../lib/voiceActivity';
+
+export interface AudioLevels {
+  local: number;
+  bot: number;
+}
+
+// Smaller changes are not worth a re-render
+const LEVEL_EPSILON = 0.01;
+
+// Tracks who is speaking (or whether the bot is thinking) from the RTVI
+// speaking events. Audio levels live in useAudioLevels, so the ~10 Hz level
+// events only re-render the meters that use them.
+export function useVoiceActivity() {
+  const [phase, setPhase] = useState<ConversationPhase>('idle');
+  const ttsStarted = useRef(false);
+
+  const dispatch = useCallback((event: VoiceEvent) => {
+    setPhase(prev => nextPhase(prev, event));
+  }, []);
+
+  useEffect(() => {
+    if (phase !== 'thinking') return;
+    const timer = setTimeout(() => dispatch('thinkingTimeout'), THINKING_TIMEOUT_MS);
+    return () => clearTimeout(timer);
+  }, [phase, dispatch]);
+
+  useRTVIClientEvent(RTVIEvent.BotReady, useCallback(() => dispatch('ready'), [dispatch]));
+  useRTVIClientEvent(RTVIEvent.Disconnected, useCallback(() => dispatch('disconnected'), [dispatch]));
+
+  useRTVIClientEvent(RTVIEvent.UserStartedSpeaking, useCallback(() => dispatch('userStarted'), [dispatch]));
+  useRTVIClientEvent(RTVIEvent.UserStoppedSpeaking, useCallback(() => dispatch('userStopped'), [dispatch]));
+  useRTVIClientEvent(RTVIEvent.BotStartedSpeaking, useCallback(() => dispatch('botStarted'), [dispatch]));
+  useRTVIClientEvent(RTVIEvent.BotStoppedSpeaking, useCallback(() => dispatch('botStopped'), [dispatch]));
+
+  useRTVIClientEvent(RTVIEvent.BotLlmStarted, useCallback(() => {
+    ttsStarted.current = false;
+    dispatch('llmStarted');
+  }, [dispatch]));
+
+  useRTVIClientEvent(RTVIEvent.BotTtsStarted, useCallback(() => {
+    ttsStarted.current = true;
+  }, []));
+
+  // Spoken replies end with BotStoppedSpeaking; text-only ones end here
+  useRTVIClientEvent(RTVIEvent.BotLlmStopped, useCallback(() => {
+    if (!ttsStarted.current) dispatch('replyFinished');
+  }, [dispatch]));
+
+  return { phase };
+}
+
+// Smoothed audio levels for the local mic and the bot
+export function useAudioLevels() {
+  const [levels, setLevels] = useState<AudioLevels>({ local: 0, bot: 0 });
+
+  useRTVIClientEvent(RTVIEvent.Disconnected, useCallback(() => {
+    setLevels({ local: 0, bot: 0 });
+  }, []));
+
+  const updateLevel = useCallback((key: keyof AudioLevels, level: number) => {
+    setLevels(prev => {
+      const next = smoothLevel(prev[key], level);
+      return Math.abs(next - prev[key]) < LEVEL_EPSILON ? prev : { ...prev, [key]: next };
+    });
+  }, []);
+
+  useRTVIClientEvent(RTVIEvent.LocalAudioLevel, useCallback((level: number) => {
+    updateLevel('local', level);
+  }, [updateLevel]));
+
+  useRTVIClientEvent(RTVIEvent.RemoteAudioLevel, useCallback((level: number, participant: Participant) => {
+    if (!participant.local) updateLevel('bot', level);
+  }, [updateLevel]));
+
+  return levels;
+}
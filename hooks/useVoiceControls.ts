@@ -0,0 +1,75 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { useRTVIClient } from '@pipecat-ai/client-react';
+import { loadMicMode, saveMicMode, type MicMode } from '../lib/voiceActivity';
+import { describeFailure } from '../lib/services';
+import { useNotifications } from './useNotifications';
+import { useI18n } from './useI18n';
+
+// Microphone mode (open mic or push-to-talk) and bot interruption. `setMic`
+// and `isMicEnabled` are the mic switch and its state from useLocalMedia.
+export function useVoiceControls(setMic: (enabled: boolean) => void, isMicEnabled: boolean) {
+  const client = useRTVIClient();
+  const [micMode, setMicModeState] = useState<MicMode>(loadMicMode);
+  const [isTalking, setIsTalking] = useState(false);
+  const setMicRef = useRef(setMic);
+  setMicRef.current = setMic;
+  const micModeRef = useRef(micMode);
+  micModeRef.current = micMode;
+  const isMicEnabledRef = useRef(isMicEnabled);
+  isMicEnabledRef.current = isMicEnabled;
+  // Whether the mic is on in open-mic mode, kept while push-to-talk holds it closed
+  const openMic = useRef(isMicEnabled);
+  const { notify } = useNotifications();
+  const { t, translateText } = useI18n();
+
+  // Push-to-talk starts with the mic closed; going back to open mic restores
+  // the mic as it was, so a muted or failed mic stays off
+  useEffect(() => {
+    setIsTalking(false);
+    setMicRef.current(micMode === 'open' && openMic.current);
+  }, [micMode]);
+
+  const setMicMode = useCallback((mode: MicMode) => {
+    if (mode === 'pushToTalk' && micModeRef.current === 'open') openMic.current = isMicEnabledRef.current;
+    saveMicMode(mode);
+    setMicModeState(mode);
+  }, []);
+
+  // Applies a mic choice made outside the mic button, such as the pre-call
+  // check: open mic follows it now, push-to-talk once the user switches back
+  const setMicChoice = useCallback((enabled: boolean) => {
+    openMic.current = enabled;
+    if (micModeRef.current === 'open') setMicRef.current(enabled);
+  }, []);
+
+  const startTalking = useCallback(() => {
+    if (micMode !== 'pushToTalk') return;
+    setIsTalking(true);
+    setMicRef.current(true);
+  }, [micMode]);
+
+  const stopTalking = useCallback(() => {
+    if (micMode !== 'pushToTalk') return;
+    setIsTalking(false);
+    setMicRef.current(false);
+  }, [micMode]);
+
+  // An empty config update with interrupt set makes the pipeline drop the
+  // bot's current response, including audio already queued for playback
+  const interruptBot = useCallback(async () => {
+    if (!client?.connected) return;
+    try {
+      await client.updateConfig([], true);
+    } catch (error) {
+      console.error('Interrupt failed:', error);
+      notify({
+        severity: 'warning',
+        title: t('notify.interruptFailed'),
+        message: translateText(describeFailure(error)),
+        source: t('notify.source.bot')
+      });
+    }
+  }, [client, notify, t, translateText]);
+
+  return { micMode, setMicMode, setMicChoice, isTalking, startTalking, stopTalking, interruptBot };
+}
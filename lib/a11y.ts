@@ -0,0 +1,43 @@
+// Keyboard and screen-reader helpers shared by dialogs, tab strips and the
+// live announcer.
+
+const FOCUSABLE_SELECTOR = [
+  'a[href]',
+  'button:not([disabled])',
+  'input:not([disabled]):not([type="hidden"])',
+  'select:not([disabled])',
+  'textarea:not([disabled])',
+  '[tabindex]:not([tabindex="-1"])'
+].join(',');
+
+// Focusable descendants in tab order, skipping anything not rendered
+export const focusableIn = (container: HTMLElement) =>
+  Array.from(container.querySelectorAll<HTMLElement>(FOCUSABLE_SELECTOR))
+    .filter(el => el.getClientRects().length > 0);
+
+// Arrow-key movement through a horizontal tab list (WAI-ARIA tabs pattern).
+// Arrows wrap and follow the reading direction, so they flip under RTL.
+// Returns null for keys the tab list does not handle.
+export function nextTabIndex(key: string, current: number, count: number, dir: 'ltr' | 'rtl'): number | null {
+  const forward = dir === 'rtl' ? 'ArrowLeft' : 'ArrowRight';
+  const back = dir === 'rtl' ? 'ArrowRight' : 'ArrowLeft';
+  switch (key) {
+    case forward: return (current + 1) % count;
+    case back: return (current - 1 + count) % count;
+    case 'Home': return 0;
+    case 'End': return count - 1;
+    default: return null;
+  }
+}
+
+// For motion CSS can't gate, such as scrollIntoView({ behavior: 'smooth' })
+export const prefersReducedMotion = () =>
+  window.matchMedia('(prefers-reduced-motion: reduce)').matches;
+
+export type Politeness = 'polite' | 'assertive';
+
+export interface Announcement {
+  id: number;
+  message: string;
+  politeness: Politeness;
+}
@@ -0,0 +1,102 @@
+import type { RTVIClientConfigOption } from '@pipecat-ai/client-js';
+import { createId } from './utils';
+import { loadJSON, saveJSON } from './storage';
+
+// The bot settings the client can edit, and where each lives in the RTVI
+// service config:
+//
+//   llmModel      llm.model
+//   systemPrompt  llm.initial_messages[role=system].content
+//   ttsVoice      tts.voice
+//   sttLanguage   stt.language
+
+export interface BotSettings {
+  llmModel?: string;
+  systemPrompt?: string;
+  ttsVoice?: string;
+  sttLanguage?: string;
+}
+
+export interface BotPreset {
+  id: string;
+  name: string;
+  settings: BotSettings;
+}
+
+export const BOT_SETTING_KEYS: (keyof BotSettings)[] = ['llmModel', 'systemPrompt', 'ttsVoice', 'sttLanguage'];
+
+type ContextMessage = { role: string; content: unknown };
+
+const optionValue = (config: RTVIClientConfigOption[], service: string, option: string) =>
+  config.find(c => c.service === service)?.options.find(o => o.name === option)?.value;
+
+const asString = (value: unknown) => (typeof value === 'string' ? value : undefined);
+
+const asMessages = (value: unknown): ContextMessage[] =>
+  Array.isArray(value) ? value.filter((m): m is ContextMessage => !!m && typeof m === 'object' && 'role' in m) : [];
+
+export function readBotSettings(config: RTVIClientConfigOption[]): BotSettings {
+  const messages = asMessages(optionValue(config, 'llm', 'initial_messages'));
+  return {
+    llmModel: asString(optionValue(config, 'llm', 'model')),
+    systemPrompt: asString(messages.find(m => m.role === 'system')?.content),
+    ttsVoice: asString(optionValue(config, 'tts', 'voice')),
+    sttLanguage: asString(optionValue(config, 'stt', 'language'))
+  };
+}
+
+// Only settings that differ from `current` are included, so an update never
+// resets options the bot reported but this panel doesn't edit. The system
+// prompt replaces the system message and keeps any other initial messages.
+export function toConfigOptions(
+  settings: BotSettings,
+  current: RTVIClientConfigOption[]
+): RTVIClientConfigOption[] {
+  const before = readBotSettings(current);
+  const changed = (key: keyof BotSettings) =>
+    settings[key] !== undefined && settings[key] !== before[key];
+
+  const llm: RTVIClientConfigOption = { service: 'llm', options: [] };
+  if (changed('llmModel')) llm.options.push({ name: 'model', value: settings.llmModel });
+  if (changed('systemPrompt')) {
+    const others = asMessages(optionValue(current, 'llm', 'initial_messages')).filter(m => m.role !== 'system');
+    llm.options.push({
+      name: 'initial_messages',
+      value: [{ role: 'system', content: settings.systemPrompt }, ...others]
+    });
+  }
+
+  const options: RTVIClientConfigOption[] = [llm];
+  if (changed('ttsVoice')) options.push({ service: 'tts', options: [{ name: 'voice', value: settings.ttsVoice }] });
+  if (changed('sttLanguage')) options.push({ service: 'stt', options: [{ name: 'language', value: settings.sttLanguage }] });
+  return options.filter(o => o.options.length > 0);
+}
+
+// Shape sent in the /connect request body so the server can start the bot
+// with the preset instead of its defaults.
+export function presetRequestData(preset: BotPreset) {
+  const { llmModel, systemPrompt, ttsVoice, sttLanguage } = preset.settings;
+  const bot: Record<string, string> = {};
+  if (llmModel) bot.llm_model = llmModel;
+  if (systemPrompt) bot.system_prompt = systemPrompt;
+  if (ttsVoice) bot.tts_voice = ttsVoice;
+  if (sttLanguage) bot.stt_language = sttLanguage;
+  return { bot_preset: preset.name, bot_config: bot };
+}
+
+const PRESETS_KEY = 'rtvi.bot.presets';
+const ACTIVE_PRESET_KEY = 'rtvi.bot.activePreset';
+
+export const loadPresets = () => loadJSON<BotPreset[]>(PRESETS_KEY, []);
+
+export const savePresets = (presets: BotPreset[]) => saveJSON(PRESETS_KEY, presets);
+
+export const loadActivePresetId = () => loadJSON<string | null>(ACTIVE_PRESET_KEY, null);
+
+export const saveActivePresetId = (id: string | null) => saveJSON(ACTIVE_PRESET_KEY, id);
+
+export const createPreset = (name: string, settings: BotSettings): BotPreset => ({
+  id: createId(),
+  name,
+  settings
+});
@@ -0,0 +1,99 @@
+import { loadJSON, saveJSON } from './storage';
+import { createId } from './utils';
+import type { MessageKey } from './locales/en';
+
+// Live captions shown over the video. Bot captions follow the TTS text
+// events, which arrive word by word as the audio plays, so the text keeps
+// pace with the voice rather than racing ahead with the LLM output.
+
+export type CaptionFontSize = 'small' | 'medium' | 'large' | 'xlarge';
+export type CaptionPosition = 'top' | 'bottom';
+
+export interface CaptionSettings {
+  enabled: boolean;
+  showUser: boolean;
+  fontSize: CaptionFontSize;
+  position: CaptionPosition;
+  backgroundOpacity: number; // 0-100
+  lines: number;
+}
+
+export interface CaptionCue {
+  id: string;
+  speaker: 'user' | 'bot';
+  text: string;
+  final: boolean;
+  endedAt?: number; // when the cue was finalized, for fading it out
+}
+
+export const DEFAULT_CAPTION_SETTINGS: CaptionSettings = {
+  enabled: false,
+  showUser: false,
+  fontSize: 'medium',
+  position: 'bottom',
+  backgroundOpacity: 60,
+  lines: 2
+};
+
+export const CAPTION_FONT_SIZES: Record<CaptionFontSize, { label: MessageKey; className: string }> = {
+  small: { label: 'captions.size.small', className: 'text-sm' },
+  medium: { label: 'captions.size.medium', className: 'text-base' },
+  large: { label: 'captions.size.large', className: 'text-xl' },
+  xlarge: { label: 'captions.size.xlarge', className: 'text-2xl' }
+};
+
+export const MIN_CAPTION_LINES = 1;
+export const MAX_CAPTION_LINES = 5;
+
+// How long finished captions stay up before clearing
+export const CAPTION_LINGER_MS = 4000;
+const MAX_CUES = 8;
+
+const clamp = (value: number, min: number, max: number) => Math.min(max, Math.max(min, value));
+
+const SETTINGS_KEY = 'rtvi.captions';
+
+// Stored settings are merged over the defaults so new fields get a value
+export function loadCaptionSettings(): CaptionSettings {
+  const stored = loadJSON<Partial<CaptionSettings>>(SETTINGS_KEY, {});
+  const settings = { ...DEFAULT_CAPTION_SETTINGS, ...stored };
+  return {
+    ...settings,
+    fontSize: settings.fontSize in CAPTION_FONT_SIZES ? settings.fontSize : DEFAULT_CAPTION_SETTINGS.fontSize,
+    position: settings.position === 'top' ? 'top' : 'bottom',
+    backgroundOpacity: clamp(Number(settings.backgroundOpacity) || 0, 0, 100),
+    lines: clamp(Math.round(Number(settings.lines) || DEFAULT_CAPTION_SETTINGS.lines), MIN_CAPTION_LINES, MAX_CAPTION_LINES)
+  };
+}
+
+export const saveCaptionSettings = (settings: CaptionSettings) => saveJSON(SETTINGS_KEY, settings);
+
+// TTS text chunks are usually single words without surrounding spaces;
+// sentence transcripts already carry their own
+export function appendCaptionText(text: string, chunk: string) {
+  const trimmed = chunk.trim();
+  if (!trimmed) return text;
+  if (!text) return trimmed;
+  return /^[.,!?;:)]/.test(trimmed) ? `${text}${trimmed}` : `${text} ${trimmed}`;
+}
+
+// Updates the open cue of a speaker, or starts one
+export function upsertCue(
+  cues: CaptionCue[],
+  speaker: CaptionCue['speaker'],
+  update: (text: string) => string
+): CaptionCue[] {
+  const index = cues.findIndex(cue => cue.speaker === speaker && !cue.final);
+  if (index === -1) {
+    const text = update('');
+    if (!text) return cues;
+    return [...cues, { id: createId(), speaker, text, final: false }].slice(-MAX_CUES);
+  }
+  return cues.map((cue, i) => (i === index ? { ...cue, text: update(cue.text) } : cue));
+}
+
+export const finalizeCue = (cues: CaptionCue[], speaker: CaptionCue['speaker'], now = Date.now()) =>
+  cues.map(cue => (cue.speaker === speaker && !cue.final ? { ...cue, final: true, endedAt: now } : cue));
+
+export const dropExpiredCues = (cues: CaptionCue[], now = Date.now()) =>
+  cues.filter(cue => !cue.final || now - (cue.endedAt ?? now) < CAPTION_LINGER_MS);
@@ -0,0 +1,236 @@
+import { array, boolean, number, SchemaError, string, type Schema } from './schema';
+import { isTransportKind, TRANSPORT_KINDS, type TransportKind } from './transports';
+import { loadJSON, saveJSON } from './storage';
+import type { Translatable } from './i18n';
+
+// Runtime configuration, resolved from layers in increasing precedence:
+//
+//   default  built into the code below
+//   env      VITE_* variables baked in by Vite at build time
+//   file     /config.json fetched at startup (optional)
+//   user     overrides saved from the Settings tab
+//   query    URL parameters, e.g. ?transport=daily&enableAnalytics=false
+//
+// The query string wins over saved overrides so a shared link behaves the
+// same for everyone. It can't move the app to another server, though: a
+// crafted link would otherwise send the user's mic, camera, files and chat
+// to whatever host it names, so serverUrl is only taken from the other layers.
+// Each layer is validated key by key: a bad value is reported as an issue and
+// the next layer down is used instead.
+
+export interface AppConfig {
+  serverUrl: string;
+  connectEndpoint: string;
+  transport: TransportKind;
+  enableAnalytics: boolean;
+  maxFileSize: number;
+  uploadChunkSize: number;
+  allowedFileTypes: string[];
+}
+
+export type ConfigKey = keyof AppConfig;
+export type ConfigLayer = Partial<Record<string, unknown>>;
+export type ConfigSource = 'default' | 'env' | 'file' | 'user' | 'query';
+
+export interface ConfigIssue {
+  source: ConfigSource;
+  key: string;
+  message: Translatable;
+}
+
+export interface ResolvedConfig {
+  config: AppConfig;
+  origins: Record<ConfigKey, ConfigSource>;
+  issues: ConfigIssue[];
+}
+
+const httpUrl: Schema<string> = (value, path = '') => {
+  const url = string(value, path);
+  try {
+    if (/^https?:$/.test(new URL(url).protocol)) return url.replace(/\/+$/, '');
+  } catch {
+    // fall through
+  }
+  throw new SchemaError(path, 'http(s) URL');
+};
+
+const endpointPath: Schema<string> = (value, path = '') => {
+  const endpoint = string(value, path);
+  if (!endpoint.startsWith('/')) throw new SchemaError(path, 'path starting with /');
+  return endpoint;
+};
+
+// A transport this build doesn't ship is rejected like any other bad value,
+// so a stale saved override falls back to the layer below instead of
+// breaking every page load
+const transportKind: Schema<TransportKind> = (value, path = '') => {
+  const kind = string(value, path).toLowerCase();
+  if (!isTransportKind(kind)) throw new SchemaError(path, TRANSPORT_KINDS.join(' | '));
+  return kind;
+};
+
+const positiveInt: Schema<number> = (value, path = '') => {
+  const n = number(value, path);
+  if (!Number.isInteger(n) || n <= 0) throw new SchemaError(path, 'positive integer');
+  return n;
+};
+
+const fileTypes: Schema<string[]> = (value, path = '') => {
+  const types = array(string)(value, path).map(t => t.trim()).filter(Boolean);
+  if (types.length === 0) throw new SchemaError(path, 'at least one file type');
+  return types;
+};
+
+interface FieldSpec<T> {
+  schema: Schema<T>;
+  expected: Translatable; // shown when a value fails the schema
+  env: string;
+  parse: (raw: string) => unknown;
+  fromQuery?: false; // never taken from URL parameters
+}
+
+// How each key is validated, and how it is parsed when it arrives as a string
+// (env variables and query parameters).
+const FIELDS: { [K in ConfigKey]: FieldSpec<AppConfig[K]> } = {
+  serverUrl: {
+    schema: httpUrl,
+    expected: { key: 'config.expected.httpUrl' },
+    env: 'VITE_SERVER_URL',
+    parse: raw => raw,
+    fromQuery: false
+  },
+  connectEndpoint: {
+    schema: endpointPath,
+    expected: { key: 'config.expected.path' },
+    env: 'VITE_CONNECT_ENDPOINT',
+    parse: raw => raw
+  },
+  transport: {
+    schema: transportKind,
+    expected: { key: 'config.expected.oneOf', params: { options: TRANSPORT_KINDS.join(', ') } },
+    env: 'VITE_TRANSPORT',
+    parse: raw => raw
+  },
+  enableAnalytics: {
+    schema: boolean,
+    expected: { key: 'config.expected.boolean' },
+    env: 'VITE_ENABLE_ANALYTICS',
+    parse: raw => (['true', '1'].includes(raw) ? true : ['false', '0'].includes(raw) ? false : raw)
+  },
+  maxFileSize: {
+    schema: positiveInt,
+    expected: { key: 'config.expected.positiveInt' },
+    env: 'VITE_MAX_FILE_SIZE',
+    parse: Number
+  },
+  uploadChunkSize: {
+    schema: positiveInt,
+    expected: { key: 'config.expected.positiveInt' },
+    env: 'VITE_UPLOAD_CHUNK_SIZE',
+    parse: Number
+  },
+  allowedFileTypes: {
+    schema: fileTypes,
+    expected: { key: 'config.expected.fileTypes' },
+    env: 'VITE_ALLOWED_FILE_TYPES',
+    parse: raw => raw.split(',')
+  }
+};
+
+export const CONFIG_KEYS = Object.keys(FIELDS) as ConfigKey[];
+
+export const DEFAULT_CONFIG: AppConfig = {
+  serverUrl: 'http://localhost:7860',
+  connectEndpoint: '/connect',
+  transport: 'daily',
+  enableAnalytics: true,
+  maxFileSize: 50 * 1024 * 1024, // 50MB
+  uploadChunkSize: 32 * 1024, // 32KB per message keeps well under transport limits
+  allowedFileTypes: ['image/*', 'application/pdf', '.docx', '.txt']
+};
+
+const isConfigKey = (key: string): key is ConfigKey =>
+  Object.prototype.hasOwnProperty.call(FIELDS, key);
+
+export function readEnvLayer(env: Record<string, unknown> = import.meta.env): ConfigLayer {
+  const layer: ConfigLayer = {};
+  for (const key of CONFIG_KEYS) {
+    const raw = env[FIELDS[key].env];
+    if (typeof raw === 'string' && raw !== '') layer[key] = FIELDS[key].parse(raw);
+  }
+  return layer;
+}
+
+export function readQueryLayer(search: string = window.location.search): ConfigLayer {
+  const layer: ConfigLayer = {};
+  new URLSearchParams(search).forEach((raw, key) => {
+    if (isConfigKey(key)) layer[key] = FIELDS[key].parse(raw);
+  });
+  return layer;
+}
+
+// A missing file is normal; anything else unexpected is reported, not thrown.
+// Dev servers answer unknown paths with index.html, hence the content-type check.
+export async function fetchConfigFile(url = '/config.json'): Promise<{ layer: ConfigLayer; error?: Translatable }> {
+  try {
+    const response = await fetch(url, { cache: 'no-store' });
+    if (!response.ok || !response.headers.get('content-type')?.includes('json')) return { layer: {} };
+
+    const data: unknown = await response.json();
+    if (!data || typeof data !== 'object' || Array.isArray(data)) {
+      return { layer: {}, error: { key: 'config.fileNotObject', params: { url } } };
+    }
+    return { layer: data as ConfigLayer };
+  } catch (error) {
+    const reason = error instanceof Error ? error.message : String(error);
+    return { layer: {}, error: { key: 'config.fileFailed', params: { url, reason } } };
+  }
+}
+
+const OVERRIDES_KEY = 'rtvi.config.overrides';
+
+export const loadConfigOverrides = () => loadJSON<ConfigLayer>(OVERRIDES_KEY, {});
+
+export const saveConfigOverrides = (overrides: ConfigLayer) => saveJSON(OVERRIDES_KEY, overrides);
+
+export function resolveConfig(layers: [ConfigSource, ConfigLayer][]): ResolvedConfig {
+  const config: AppConfig = { ...DEFAULT_CONFIG };
+  const values = config as unknown as Record<ConfigKey, unknown>;
+  const origins = Object.fromEntries(CONFIG_KEYS.map(key => [key, 'default'])) as Record<ConfigKey, ConfigSource>;
+  const issues: ConfigIssue[] = [];
+
+  for (const [source, layer] of layers) {
+    for (const [key, value] of Object.entries(layer)) {
+      if (value === undefined) continue;
+      if (!isConfigKey(key)) {
+        issues.push({ source, key, message: { key: 'config.unknownSetting' } });
+        continue;
+      }
+      if (source === 'query' && FIELDS[key].fromQuery === false) {
+        issues.push({ source, key, message: { key: 'config.notFromUrl' } });
+        continue;
+      }
+      try {
+        values[key] = FIELDS[key].schema(value, key);
+        origins[key] = source;
+      } catch {
+        issues.push({ source, key, message: FIELDS[key].expected });
+      }
+    }
+  }
+
+  return { config, origins, issues };
+}
+
+// Settings form helpers: text inputs go through the same parsing as query
+// parameters, and a value is checked before it is saved as an override.
+export const parseConfigInput = (key: ConfigKey, raw: string) => FIELDS[key].parse(raw);
+
+export function checkConfigValue(key: ConfigKey, value: unknown): Translatable | null {
+  try {
+    FIELDS[key].schema(value, key);
+    return null;
+  } catch {
+    return FIELDS[key].expected;
+  }
+}
@@ -0,0 +1,204 @@
+import type { FileData, Message } from './types';
+import { createId } from './utils';
+import { translateText, type Translatable } from './i18n';
+
+// Conversation export/import. Subtitle and transcript times are relative to
+// the start of the connection, so they line up with a recording of the call.
+
+export const EXPORT_SCHEMA = 'rtvi-conversation';
+export const EXPORT_VERSION = 1;
+
+export interface ConversationExport {
+  schema: typeof EXPORT_SCHEMA;
+  version: number;
+  title: string;
+  exportedAt: string;
+  startedAt: string;
+  messages: (Pick<Message, 'id' | 'sender' | 'content' | 'type' | 'timestamp' | 'replyTo'> & { offsetMs: number })[];
+  files: Omit<FileData, 'file'>[];
+}
+
+export interface ConversationSource {
+  title: string;
+  startedAt: string;
+  messages: Message[];
+  files: FileData[];
+}
+
+// reason is shown to the user; the message is the English text, for logs
+export class ConversationImportError extends Error {
+  constructor(readonly reason: Translatable) {
+    super(translateText('en', reason));
+    this.name = 'ConversationImportError';
+  }
+}
+
+const SENDER_LABELS: Record<Message['sender'], string> = {
+  user: 'User',
+  bot: 'Assistant',
+  system: 'System'
+};
+
+const offsetOf = (timestamp: string, startedAt: string) =>
+  Math.max(0, Date.parse(timestamp) - Date.parse(startedAt));
+
+const pad = (value: number, width = 2) => String(value).padStart(width, '0');
+
+// 00:01:02.345 (WebVTT) or 00:01:02,345 (SRT)
+export function formatOffset(ms: number, separator: '.' | ',' = '.') {
+  const hours = Math.floor(ms / 3600000);
+  const minutes = Math.floor((ms % 3600000) / 60000);
+  const seconds = Math.floor((ms % 60000) / 1000);
+  return `${pad(hours)}:${pad(minutes)}:${pad(seconds)}${separator}${pad(ms % 1000, 3)}`;
+}
+
+const finished = (messages: Message[]) => messages.filter(m => !m.streaming);
+
+export function toJSON({ title, startedAt, messages, files }: ConversationSource): string {
+  const data: ConversationExport = {
+    schema: EXPORT_SCHEMA,
+    version: EXPORT_VERSION,
+    title,
+    exportedAt: new Date().toISOString(),
+    startedAt,
+    messages: finished(messages).map(({ id, sender, content, type, timestamp, replyTo }) => ({
+      id,
+      replyTo,
+      sender,
+      content,
+      type,
+      timestamp,
+      offsetMs: offsetOf(timestamp, startedAt)
+    })),
+    files: files.map(({ id, name, type, size, checksum, uploadedAt }) => ({
+      id, name, type, size, checksum, uploadedAt
+    }))
+  };
+  return JSON.stringify(data, null, 2);
+}
+
+export function toMarkdown({ title, startedAt, messages, files }: ConversationSource): string {
+  const lines = [
+    `# ${title}`,
+    '',
+    `Started: ${new Date(startedAt).toLocaleString()}`,
+    ''
+  ];
+
+  if (files.length > 0) {
+    lines.push('## Files', '', '| Name | Type | Size | Uploaded |', '| --- | --- | --- | --- |');
+    files.forEach(f => {
+      lines.push(`| ${f.name.replace(/\|/g, '\\|')} | ${f.type || 'unknown'} | ${(f.size / 1024).toFixed(1)} KB | ${formatOffset(offsetOf(f.uploadedAt, startedAt))} |`);
+    });
+    lines.push('');
+  }
+
+  lines.push('## Conversation', '');
+  finished(messages).forEach(m => {
+    const time = formatOffset(offsetOf(m.timestamp, startedAt)).slice(0, 8);
+    const via = m.type === 'voice' ? ' (voice)' : '';
+    if (m.sender === 'system') {
+      lines.push(`> _${time} — ${m.content}_`, '');
+    } else {
+      lines.push(`**${SENDER_LABELS[m.sender]}**${via} · ${time}`, '', m.content, '');
+    }
+  });
+
+  return lines.join('\n');
+}
+
+// Voice turns with a start time and an end time. Turns end when the next
+// voice turn starts, or after a reading-speed estimate, whichever is first.
+function subtitleCues(messages: Message[], startedAt: string) {
+  const voice = finished(messages).filter(m => m.type === 'voice');
+  return voice.map((m, i) => {
+    const start = offsetOf(m.timestamp, startedAt);
+    const words = m.content.split(/\s+/).filter(Boolean).length;
+    const estimated = start + Math.max(1500, words * 400);
+    const next = voice[i + 1] ? offsetOf(voice[i + 1].timestamp, startedAt) : Infinity;
+    return {
+      start,
+      end: Math.max(start + 500, Math.min(estimated, next)),
+      text: `${SENDER_LABELS[m.sender]}: ${m.content}`
+    };
+  });
+}
+
+export function toSRT({ startedAt, messages }: ConversationSource): string {
+  return subtitleCues(messages, startedAt)
+    .map((cue, i) => `${i + 1}\n${formatOffset(cue.start, ',')} --> ${formatOffset(cue.end, ',')}\n${cue.text}\n`)
+    .join('\n');
+}
+
+export function toWebVTT({ startedAt, messages }: ConversationSource): string {
+  const cues = subtitleCues(messages, startedAt)
+    .map(cue => `${formatOffset(cue.start)} --> ${formatOffset(cue.end)}\n${cue.text.replace(/-->/g, '->')}\n`);
+  return ['WEBVTT', '', ...cues].join('\n');
+}
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null;
+
+const oneOf = <T extends string>(value: unknown, options: readonly T[]): value is T =>
+  typeof value === 'string' && (options as readonly string[]).includes(value);
+
+const isTimestamp = (value: unknown): value is string =>
+  typeof value === 'string' && !Number.isNaN(Date.parse(value));
+
+export function parseConversationJSON(text: string): ConversationSource {
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    throw new ConversationImportError({ key: 'import.notJson' });
+  }
+
+  if (!isRecord(data) || data.schema !== EXPORT_SCHEMA) {
+    throw new ConversationImportError({ key: 'import.notExport' });
+  }
+  if (typeof data.version !== 'number' || data.version > EXPORT_VERSION) {
+    throw new ConversationImportError({ key: 'import.version', params: { version: String(data.version) } });
+  }
+  if (!Array.isArray(data.messages) || !Array.isArray(data.files) || !isTimestamp(data.startedAt)) {
+    throw new ConversationImportError({ key: 'import.incomplete' });
+  }
+
+  const messages = data.messages.map((m, i): Message => {
+    if (!isRecord(m) || !oneOf(m.sender, ['user', 'bot', 'system'] as const)
+      || !oneOf(m.type, ['text', 'voice', 'system'] as const)
+      || typeof m.content !== 'string' || !isTimestamp(m.timestamp)) {
+      throw new ConversationImportError({ key: 'import.badMessage', params: { index: i + 1 } });
+    }
+    return {
+      // Version 1 exports written before messages had ids carry none
+      id: typeof m.id === 'string' ? m.id : createId(),
+      sender: m.sender,
+      type: m.type,
+      content: m.content,
+      timestamp: m.timestamp,
+      ...(typeof m.replyTo === 'string' ? { replyTo: m.replyTo } : {})
+    };
+  });
+
+  const files = data.files.map((f, i): FileData => {
+    if (!isRecord(f) || typeof f.name !== 'string' || typeof f.type !== 'string'
+      || typeof f.size !== 'number' || !isTimestamp(f.uploadedAt)) {
+      throw new ConversationImportError({ key: 'import.badFile', params: { index: i + 1 } });
+    }
+    return {
+      id: typeof f.id === 'string' ? f.id : `${f.name}-${f.uploadedAt}`,
+      name: f.name,
+      type: f.type,
+      size: f.size,
+      checksum: typeof f.checksum === 'string' ? f.checksum : undefined,
+      uploadedAt: f.uploadedAt
+    };
+  });
+
+  return {
+    title: typeof data.title === 'string' ? data.title : 'Imported conversation',
+    startedAt: data.startedAt,
+    messages,
+    files
+  };
+}
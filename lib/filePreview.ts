@@ -0,0 +1,137 @@
+// Best-effort text extraction for upload previews. Nothing here needs to be
+// exact: it only has to show the user enough to recognise what they sent.
+
+const PREVIEW_CHARS = 1200;
+
+const clip = (text: string, maxChars: number) => {
+  const normalized = text.replace(/[ \t]+/g, ' ').replace(/\n{3,}/g, '\n\n').trim();
+  return normalized.length > maxChars
+    ? `${normalized.slice(0, maxChars).trimEnd()}…`
+    : normalized;
+};
+
+async function inflate(data: Uint8Array, format: 'deflate' | 'deflate-raw') {
+  const stream = new Blob([data as BlobPart]).stream().pipeThrough(new DecompressionStream(format));
+  return new Uint8Array(await new Response(stream).arrayBuffer());
+}
+
+// Reads one entry out of a ZIP archive via its central directory
+async function readZipEntry(buffer: ArrayBuffer, entryName: string): Promise<Uint8Array | null> {
+  const view = new DataView(buffer);
+  const bytes = new Uint8Array(buffer);
+  const decoder = new TextDecoder();
+
+  // End of central directory record: scan backwards past any trailing comment
+  let eocd = -1;
+  for (let i = bytes.length - 22; i >= Math.max(0, bytes.length - 65557); i--) {
+    if (view.getUint32(i, true) === 0x06054b50) {
+      eocd = i;
+      break;
+    }
+  }
+  if (eocd === -1) return null;
+
+  const entries = view.getUint16(eocd + 10, true);
+  let offset = view.getUint32(eocd + 16, true);
+
+  for (let n = 0; n < entries; n++) {
+    if (view.getUint32(offset, true) !== 0x02014b50) return null;
+    const method = view.getUint16(offset + 10, true);
+    const compressedSize = view.getUint32(offset + 20, true);
+    const nameLength = view.getUint16(offset + 28, true);
+    const extraLength = view.getUint16(offset + 30, true);
+    const commentLength = view.getUint16(offset + 32, true);
+    const localOffset = view.getUint32(offset + 42, true);
+    const name = decoder.decode(bytes.subarray(offset + 46, offset + 46 + nameLength));
+
+    if (name === entryName) {
+      const localNameLength = view.getUint16(localOffset + 26, true);
+      const localExtraLength = view.getUint16(localOffset + 28, true);
+      const start = localOffset + 30 + localNameLength + localExtraLength;
+      const data = bytes.subarray(start, start + compressedSize);
+      if (method === 0) return data;
+      if (method === 8) return inflate(data, 'deflate-raw');
+      return null;
+    }
+    offset += 46 + nameLength + extraLength + commentLength;
+  }
+  return null;
+}
+
+const decodeXmlEntities = (text: string) =>
+  text
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&apos;/g, "'")
+    .replace(/&amp;/g, '&');
+
+async function docxText(file: Blob) {
+  const xml = await readZipEntry(await file.arrayBuffer(), 'word/document.xml');
+  if (!xml) return null;
+
+  const paragraphs = new TextDecoder().decode(xml).split(/<\/w:p>/);
+  return paragraphs
+    .map(p => Array.from(p.matchAll(/<w:t(?:\s[^>]*)?>([^<]*)<\/w:t>/g), m => decodeXmlEntities(m[1])).join(''))
+    .filter(Boolean)
+    .join('\n');
+}
+
+const unescapePdfString = (text: string) =>
+  text.replace(/\\([nrtbf()\\]|[0-7]{1,3})/g, (_, esc: string) => {
+    const simple: Record<string, string> = { n: '\n', r: '\r', t: '\t', b: '', f: '', '(': '(', ')': ')', '\\': '\\' };
+    return esc in simple ? simple[esc] : String.fromCharCode(parseInt(esc, 8));
+  });
+
+// Pulls literal strings shown by Tj/TJ operators out of the first content
+// stream that has any. Fonts with custom encodings will come out garbled.
+async function pdfText(file: Blob) {
+  const raw = new Uint8Array(await file.arrayBuffer());
+  const latin1 = new TextDecoder('latin1').decode(raw);
+  const streamPattern = /<<([\s\S]*?)>>\s*stream\r?\n/g;
+  let match: RegExpExecArray | null;
+
+  while ((match = streamPattern.exec(latin1))) {
+    const start = match.index + match[0].length;
+    const end = latin1.indexOf('endstream', start);
+    if (end === -1) break;
+
+    let content = raw.subarray(start, end);
+    if (/\/FlateDecode/.test(match[1])) {
+      try {
+        content = await inflate(content, 'deflate');
+      } catch {
+        continue;
+      }
+    } else if (/\/Filter/.test(match[1])) {
+      continue;
+    }
+
+    const ops = new TextDecoder('latin1').decode(content);
+    const blocks = Array.from(ops.matchAll(/BT([\s\S]*?)ET/g), m => m[1]);
+    const text = blocks
+      .map(block => Array.from(block.matchAll(/\(((?:\\.|[^\\)])*)\)/g), m => unescapePdfString(m[1])).join(''))
+      .filter(line => line.trim())
+      .join('\n');
+    if (text.trim()) return text;
+  }
+  return null;
+}
+
+export async function extractPreviewText(
+  file: Blob,
+  kind: 'text' | 'pdf' | 'docx',
+  maxChars = PREVIEW_CHARS
+): Promise<string | null> {
+  try {
+    const text = kind === 'text'
+      ? await file.slice(0, maxChars * 4).text()
+      : kind === 'docx'
+      ? await docxText(file)
+      : await pdfText(file);
+    return text ? clip(text, maxChars) : null;
+  } catch (error) {
+    console.warn('Preview extraction failed:', error);
+    return null;
+  }
+}
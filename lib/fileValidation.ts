@@ -0,0 +1,110 @@
+// Upload validation: checks a file against the allow-list using both its
+// declared MIME type/extension and the magic bytes at the start of the file,
+// so a renamed executable can't slip through as "report.pdf".
+
+import type { Translatable } from './i18n';
+
+export type FileKind = 'image' | 'pdf' | 'docx' | 'text';
+
+export type ValidationResult =
+  | { valid: true; kind: FileKind; mimeType: string }
+  | { valid: false; reason: Translatable };
+
+const SNIFF_BYTES = 4096;
+
+const DOCX_MIME = 'application/vnd.openxmlformats-officedocument.wordprocessingml.document';
+
+const EXTENSION_TYPES: Record<string, string> = {
+  '.png': 'image/png',
+  '.jpg': 'image/jpeg',
+  '.jpeg': 'image/jpeg',
+  '.gif': 'image/gif',
+  '.webp': 'image/webp',
+  '.svg': 'image/svg+xml',
+  '.pdf': 'application/pdf',
+  '.docx': DOCX_MIME,
+  '.txt': 'text/plain'
+};
+
+const startsWith = (bytes: Uint8Array, signature: number[], offset = 0) =>
+  signature.every((b, i) => bytes[offset + i] === b);
+
+const ascii = (text: string) => Array.from(text, c => c.charCodeAt(0));
+
+// Identifies the real content type from the leading bytes
+export function sniffMimeType(bytes: Uint8Array): string | null {
+  if (startsWith(bytes, [0x89, 0x50, 0x4e, 0x47])) return 'image/png';
+  if (startsWith(bytes, [0xff, 0xd8, 0xff])) return 'image/jpeg';
+  if (startsWith(bytes, ascii('GIF8'))) return 'image/gif';
+  if (startsWith(bytes, ascii('RIFF')) && startsWith(bytes, ascii('WEBP'), 8)) return 'image/webp';
+  if (startsWith(bytes, ascii('%PDF-'))) return 'application/pdf';
+  // DOCX is a ZIP container; the extension check below narrows it down
+  if (startsWith(bytes, [0x50, 0x4b, 0x03, 0x04])) return 'application/zip';
+
+  if (bytes.includes(0)) return null;
+  try {
+    const text = new TextDecoder('utf-8', { fatal: true }).decode(bytes);
+    return /^\s*(<\?xml[^>]*>\s*)?<svg[\s>]/i.test(text) ? 'image/svg+xml' : 'text/plain';
+  } catch {
+    // A multi-byte character cut off at the sniff boundary is still text
+    return bytes.length === SNIFF_BYTES ? 'text/plain' : null;
+  }
+}
+
+const extensionOf = (name: string) => {
+  const dot = name.lastIndexOf('.');
+  return dot === -1 ? '' : name.slice(dot).toLowerCase();
+};
+
+export const fileKindOf = (mimeType: string): FileKind | null => {
+  if (mimeType.startsWith('image/')) return 'image';
+  if (mimeType === 'application/pdf') return 'pdf';
+  if (mimeType === DOCX_MIME) return 'docx';
+  if (mimeType === 'text/plain') return 'text';
+  return null;
+};
+
+const isAllowed = (allowList: string[], mimeType: string, extension: string) =>
+  allowList.some(entry => {
+    if (entry.startsWith('.')) return entry.toLowerCase() === extension;
+    if (entry.endsWith('/*')) return mimeType.startsWith(entry.slice(0, -1));
+    return entry === mimeType;
+  });
+
+export async function validateFile(
+  file: File,
+  allowList: string[],
+  maxSize: number
+): Promise<ValidationResult> {
+  if (file.size === 0) {
+    return { valid: false, reason: { key: 'files.invalid.empty' } };
+  }
+  if (file.size > maxSize) {
+    return { valid: false, reason: { key: 'files.invalid.tooLarge', params: { mb: Math.round(maxSize / (1024 * 1024)) } } };
+  }
+
+  const extension = extensionOf(file.name);
+  const declared = file.type || EXTENSION_TYPES[extension] || '';
+  const sniffed = sniffMimeType(new Uint8Array(await file.slice(0, SNIFF_BYTES).arrayBuffer()));
+
+  if (!sniffed) {
+    return { valid: false, reason: { key: 'files.invalid.unrecognised' } };
+  }
+
+  // Resolve what the bytes actually are, using the name only to tell ZIP-based formats apart
+  const actual = sniffed === 'application/zip'
+    ? (extension === '.docx' ? DOCX_MIME : sniffed)
+    : sniffed;
+
+  const kind = fileKindOf(actual);
+  if (!kind || !isAllowed(allowList, actual, extension)) {
+    return { valid: false, reason: { key: 'files.invalid.notAllowed', params: { type: actual } } };
+  }
+
+  // Plain text is a catch-all for any readable bytes, so only the binary formats must agree
+  if (declared && kind !== 'text' && fileKindOf(declared) !== kind) {
+    return { valid: false, reason: { key: 'files.invalid.mismatch', params: { actual, declared } } };
+  }
+
+  return { valid: true, kind, mimeType: actual };
+}
@@ -0,0 +1,27 @@
+// Grabs a single still from a live video track as a JPEG data URL
+export async function captureFrame(track: MediaStreamTrack, maxWidth = 640, quality = 0.8): Promise<string> {
+  const video = document.createElement('video');
+  video.muted = true;
+  video.playsInline = true;
+  video.srcObject = new MediaStream([track]);
+
+  try {
+    await video.play();
+    if (video.readyState < HTMLMediaElement.HAVE_CURRENT_DATA) {
+      await new Promise(resolve => video.addEventListener('loadeddata', resolve, { once: true }));
+    }
+
+    const scale = Math.min(1, maxWidth / (video.videoWidth || maxWidth));
+    const canvas = document.createElement('canvas');
+    canvas.width = Math.round(video.videoWidth * scale);
+    canvas.height = Math.round(video.videoHeight * scale);
+    const context = canvas.getContext('2d');
+    if (!context || canvas.width === 0) throw new Error('Camera frame is not available');
+
+    context.drawImage(video, 0, 0, canvas.width, canvas.height);
+    return canvas.toDataURL('image/jpeg', quality);
+  } finally {
+    video.pause();
+    video.srcObject = null;
+  }
+}
@@ -0,0 +1,151 @@
+import { extractPreviewText } from './filePreview';
+import { fileKindOf } from './fileValidation';
+import { captureFrame } from './frameCapture';
+import { object, optional, SchemaError, string, unknown, type Schema } from './schema';
+import type { FileData } from './types';
+
+// Functions the bot's LLM can call on this client through RTVI
+// llm-function-call messages. The server declares matching tools using
+// functionDefinitions(), which is sent with /connect. A handler's return value
+// goes back to the LLM as the function result; failures are returned as
+// { error } so the model can explain what went wrong.
+
+export interface FunctionContext {
+  files: FileData[];
+  tabs: string[];
+  setActiveTab: (id: string) => void;
+  cameraTrack: MediaStreamTrack | null;
+}
+
+export interface FunctionHandler<A = unknown> {
+  name: string;
+  description: string;
+  parameters: Record<string, unknown>; // JSON schema advertised to the LLM
+  sensitive: boolean; // asks the user before every call
+  args: Schema<A>;
+  run: (args: A, context: FunctionContext) => Promise<unknown> | unknown;
+}
+
+export class FunctionCallError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'FunctionCallError';
+  }
+}
+
+const READ_FILE_CHARS = 8000;
+
+const findFile = (files: FileData[], { file_id, filename }: { file_id?: string; filename?: string }) =>
+  files.find(f => f.id === file_id) ?? files.find(f => f.name === filename);
+
+const listFiles: FunctionHandler<unknown> = {
+  name: 'list_files',
+  description: 'List the files the user has uploaded in this session.',
+  parameters: { type: 'object', properties: {} },
+  sensitive: false,
+  args: unknown,
+  run: (_args, { files }) => ({
+    files: files.map(f => ({ id: f.id, name: f.name, type: f.type, size: f.size, uploaded_at: f.uploadedAt }))
+  })
+};
+
+const readFile: FunctionHandler<{ file_id?: string; filename?: string }> = {
+  name: 'read_file',
+  description: 'Read the text content of an uploaded file (text, PDF or DOCX) by id or name.',
+  parameters: {
+    type: 'object',
+    properties: {
+      file_id: { type: 'string', description: 'Id from list_files' },
+      filename: { type: 'string', description: 'Used when no id is given' }
+    }
+  },
+  sensitive: true,
+  args: object({ file_id: optional(string), filename: optional(string) }),
+  run: async (args, { files }) => {
+    const file = findFile(files, args);
+    if (!file) throw new FunctionCallError('No uploaded file matches that id or name');
+    if (!file.file) throw new FunctionCallError(`${file.name} is not available in this browser session`);
+
+    const kind = fileKindOf(file.type);
+    if (!kind || kind === 'image') throw new FunctionCallError(`${file.name} (${file.type}) has no readable text`);
+
+    const text = await extractPreviewText(file.file, kind, READ_FILE_CHARS);
+    if (text === null) throw new FunctionCallError(`Could not extract text from ${file.name}`);
+    return { id: file.id, name: file.name, content: text, truncated: text.endsWith('…') };
+  }
+};
+
+const switchTab: FunctionHandler<{ tab: string }> = {
+  name: 'switch_tab',
+  description: 'Show a different tab of the client UI to the user.',
+  parameters: {
+    type: 'object',
+    properties: { tab: { type: 'string', description: 'Tab id, e.g. chat, files, screen, analytics, bot, settings' } },
+    required: ['tab']
+  },
+  sensitive: false,
+  args: object({ tab: string }),
+  run: ({ tab }, { tabs, setActiveTab }) => {
+    if (!tabs.includes(tab)) throw new FunctionCallError(`Unknown tab "${tab}". Available: ${tabs.join(', ')}`);
+    setActiveTab(tab);
+    return { active_tab: tab };
+  }
+};
+
+const captureCameraFrame: FunctionHandler<unknown> = {
+  name: 'capture_camera_frame',
+  description: "Take a still photo from the user's camera. Returns a JPEG data URL.",
+  parameters: { type: 'object', properties: {} },
+  sensitive: true,
+  args: unknown,
+  run: async (_args, { cameraTrack }) => {
+    if (!cameraTrack || cameraTrack.readyState !== 'live') {
+      throw new FunctionCallError('The camera is off');
+    }
+    return { image: await captureFrame(cameraTrack) };
+  }
+};
+
+export const DEFAULT_FUNCTIONS: FunctionHandler[] = [
+  listFiles,
+  readFile,
+  switchTab,
+  captureCameraFrame
+] as FunctionHandler[];
+
+export type FunctionRegistry = Map<string, FunctionHandler>;
+
+export const createFunctionRegistry = (handlers: FunctionHandler[] = DEFAULT_FUNCTIONS): FunctionRegistry =>
+  new Map(handlers.map(h => [h.name, h]));
+
+// OpenAI-style tool declarations for the server to hand to its LLM
+export const functionDefinitions = (registry: FunctionRegistry) =>
+  Array.from(registry.values(), ({ name, description, parameters }) => ({
+    type: 'function',
+    function: { name, description, parameters }
+  }));
+
+export function parseFunctionArgs(handler: FunctionHandler, raw: unknown) {
+  // Some LLMs send arguments as a JSON string
+  let value = raw;
+  if (typeof raw === 'string') {
+    try {
+      value = JSON.parse(raw);
+    } catch {
+      throw new FunctionCallError('Arguments are not valid JSON');
+    }
+  }
+  try {
+    return handler.args(value ?? {}, 'args');
+  } catch (error) {
+    if (error instanceof SchemaError) throw new FunctionCallError(`Invalid arguments: ${error.message}`);
+    throw error;
+  }
+}
+
+// Short, single-line version of a value for the chat log
+export function summarizeValue(value: unknown, max = 160) {
+  const text = typeof value === 'string' ? value : JSON.stringify(value) ?? String(value);
+  const compact = text.replace(/data:[^"]{40,}/g, match => `${match.slice(0, 30)}…`).replace(/\s+/g, ' ');
+  return compact.length > max ? `${compact.slice(0, max)}…` : compact;
+}
@@ -0,0 +1,139 @@
+// Lightweight syntax highlighting for chat code blocks. It tokenizes comments,
+// strings, numbers and keywords with one regex per language family; enough to
+// make code readable, not a full grammar.
+
+export type TokenType = 'plain' | 'comment' | 'string' | 'number' | 'keyword' | 'literal' | 'function';
+
+export interface Token {
+  type: TokenType;
+  text: string;
+}
+
+interface Grammar {
+  comments: string[]; // regex sources
+  strings: string[];
+  keywords: string[];
+  literals: string[];
+  ignoreCase?: boolean;
+}
+
+const C_COMMENTS = [/\/\/[^\n]*/.source, /\/\*[\s\S]*?(?:\*\/|$)/.source];
+const HASH_COMMENT = [/#[^\n]*/.source];
+const QUOTED = [/"(?:\\.|[^"\\\n])*"?/.source, /'(?:\\.|[^'\\\n])*'?/.source];
+
+const JS: Grammar = {
+  comments: C_COMMENTS,
+  strings: [...QUOTED, /`(?:\\.|[^`\\])*`?/.source],
+  keywords: ('async await break case catch class const continue default delete do else export extends finally '
+    + 'for from function if import in instanceof interface let new of return static super switch this throw try '
+    + 'type typeof var void while yield as enum implements private protected public readonly').split(' '),
+  literals: ['true', 'false', 'null', 'undefined', 'NaN', 'Infinity']
+};
+
+const PYTHON: Grammar = {
+  comments: HASH_COMMENT,
+  strings: [/"""[\s\S]*?(?:"""|$)/.source, /'''[\s\S]*?(?:'''|$)/.source, ...QUOTED],
+  keywords: ('and as assert async await break class continue def del elif else except finally for from global '
+    + 'if import in is lambda nonlocal not or pass raise return try while with yield match case').split(' '),
+  literals: ['True', 'False', 'None', 'self']
+};
+
+const SHELL: Grammar = {
+  comments: HASH_COMMENT,
+  strings: QUOTED,
+  keywords: 'if then else elif fi for while do done case esac function in export local return echo cd sudo'.split(' '),
+  literals: []
+};
+
+const JSON_GRAMMAR: Grammar = {
+  comments: [],
+  strings: [QUOTED[0]],
+  keywords: [],
+  literals: ['true', 'false', 'null']
+};
+
+const SQL: Grammar = {
+  comments: [/--[^\n]*/.source, C_COMMENTS[1]],
+  strings: QUOTED,
+  keywords: ('select from where and or not insert into values update set delete create table alter drop index '
+    + 'join left right inner outer on group by order having limit offset as distinct union all case when then else end '
+    + 'primary key foreign references').split(' '),
+  literals: ['null', 'true', 'false'],
+  ignoreCase: true
+};
+
+const C_LIKE: Grammar = {
+  comments: C_COMMENTS,
+  strings: QUOTED,
+  keywords: ('auto break case catch char class const continue default do double else enum extern final float for '
+    + 'func go goto if impl import int let long match mod mut namespace new package private protected pub public '
+    + 'return short signed sizeof static struct switch template this throw trait try type typedef union unsigned '
+    + 'use using var virtual void volatile while fn defer chan map range interface string bool').split(' '),
+  literals: ['true', 'false', 'null', 'nil', 'nullptr', 'None', 'Some', 'Ok', 'Err']
+};
+
+const GRAMMARS: Record<string, Grammar> = {
+  js: JS, jsx: JS, javascript: JS, ts: JS, tsx: JS, typescript: JS,
+  py: PYTHON, python: PYTHON,
+  sh: SHELL, bash: SHELL, shell: SHELL, zsh: SHELL, console: SHELL,
+  json: JSON_GRAMMAR,
+  sql: SQL,
+  c: C_LIKE, h: C_LIKE, cpp: C_LIKE, 'c++': C_LIKE, cs: C_LIKE, csharp: C_LIKE, java: C_LIKE, kotlin: C_LIKE,
+  go: C_LIKE, rust: C_LIKE, rs: C_LIKE, swift: C_LIKE
+};
+
+const compiled = new Map<Grammar, RegExp>();
+const CALL = /\s*\(/y;
+
+const patternFor = (grammar: Grammar) => {
+  let pattern = compiled.get(grammar);
+  if (!pattern) {
+    pattern = new RegExp([
+      grammar.comments.length ? `(${grammar.comments.join('|')})` : '(?!)',
+      `(${grammar.strings.join('|')})`,
+      /(\b0x[\da-fA-F]+\b|\b\d[\d_]*(?:\.\d+)?(?:[eE][+-]?\d+)?\b)/.source,
+      /([A-Za-z_$][\w$]*)/.source
+    ].join('|'), 'g');
+    compiled.set(grammar, pattern);
+  }
+  return pattern;
+};
+
+export const isHighlighted = (lang: string) => lang in GRAMMARS;
+
+export function highlight(code: string, lang: string): Token[] {
+  const grammar = GRAMMARS[lang];
+  if (!grammar) return [{ type: 'plain', text: code }];
+
+  const tokens: Token[] = [];
+  const push = (type: TokenType, text: string) => {
+    const last = tokens[tokens.length - 1];
+    if (last?.type === type) last.text += text;
+    else tokens.push({ type, text });
+  };
+
+  let index = 0;
+  for (const m of code.matchAll(patternFor(grammar))) {
+    const start = m.index ?? 0;
+    if (start > index) push('plain', code.slice(index, start));
+    index = start + m[0].length;
+
+    if (m[1] !== undefined) push('comment', m[0]);
+    else if (m[2] !== undefined) push('string', m[0]);
+    else if (m[3] !== undefined) push('number', m[0]);
+    else {
+      const word = grammar.ignoreCase ? m[4].toLowerCase() : m[4];
+      CALL.lastIndex = index;
+      const isCall = CALL.test(code);
+      push(
+        grammar.keywords.includes(word) ? 'keyword'
+          : grammar.literals.includes(word) ? 'literal'
+          : isCall ? 'function'
+          : 'plain',
+        m[4]
+      );
+    }
+  }
+  if (index < code.length) push('plain', code.slice(index));
+  return tokens;
+}
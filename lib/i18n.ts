@@ -0,0 +1,127 @@
+import { loadJSON, saveJSON } from './storage';
+import { en, type MessageKey } from './locales/en';
+import { es } from './locales/es';
+import { ar } from './locales/ar';
+
+// Message catalogs and locale-aware formatting. English is the source
+// catalog; other locales may leave keys out and fall back to it.
+
+export type Locale = 'en' | 'es' | 'ar';
+
+// A plural entry has one form per CLDR category the language uses
+export type PluralMessage = Partial<Record<Intl.LDMLPluralRule, string>> & { other: string };
+export type CatalogMessage = string | PluralMessage;
+export type Catalog = Partial<Record<MessageKey, CatalogMessage>>;
+export type MessageParams = Record<string, string | number>;
+
+// Text produced outside React (hooks, lib) and translated where it is shown.
+// A plain string, such as a device label or a server's error, is shown as is.
+export type Translatable = string | { key: MessageKey; params?: MessageParams };
+
+export interface LocaleInfo {
+  label: string;       // in its own language, so it is recognisable from any UI
+  dir: 'ltr' | 'rtl';
+  speech: string;      // BCP 47 tag sent to the bot for STT and TTS
+}
+
+export const LOCALES: Record<Locale, LocaleInfo> = {
+  en: { label: 'English', dir: 'ltr', speech: 'en-US' },
+  es: { label: 'Español', dir: 'ltr', speech: 'es-ES' },
+  ar: { label: 'العربية', dir: 'rtl', speech: 'ar-SA' }
+};
+
+export const LOCALE_IDS = Object.keys(LOCALES) as Locale[];
+
+// Regional variants the bot can be asked to speak and listen in
+export const SPOKEN_LANGUAGES: { tag: string; label: string }[] = [
+  { tag: 'en-US', label: 'English (US)' },
+  { tag: 'en-GB', label: 'English (UK)' },
+  { tag: 'es-ES', label: 'Español (España)' },
+  { tag: 'es-MX', label: 'Español (México)' },
+  { tag: 'ar-SA', label: 'العربية (السعودية)' },
+  { tag: 'ar-EG', label: 'العربية (مصر)' }
+];
+
+const CATALOGS: Record<Locale, Catalog> = { en, es, ar };
+
+export const isLocale = (value: unknown): value is Locale =>
+  typeof value === 'string' && Object.prototype.hasOwnProperty.call(LOCALES, value);
+
+// Picks the first browser language we have a catalog for
+export function detectLocale(languages: readonly string[] = navigator.languages ?? [navigator.language]): Locale {
+  for (const language of languages) {
+    const base = language.toLowerCase().split('-')[0];
+    if (isLocale(base)) return base;
+  }
+  return 'en';
+}
+
+const LOCALE_KEY = 'rtvi.locale';
+const SPOKEN_LANGUAGE_KEY = 'rtvi.spokenLanguage';
+
+export function loadLocale(): Locale {
+  const stored = loadJSON<unknown>(LOCALE_KEY, null);
+  return isLocale(stored) ? stored : detectLocale();
+}
+
+export const saveLocale = (locale: Locale) => saveJSON(LOCALE_KEY, locale);
+
+// null means "follow the interface language"
+export const loadSpokenLanguage = () => loadJSON<string | null>(SPOKEN_LANGUAGE_KEY, null);
+
+export const saveSpokenLanguage = (language: string | null) => saveJSON(SPOKEN_LANGUAGE_KEY, language);
+
+const pluralRules = new Map<Locale, Intl.PluralRules>();
+
+function pluralCategory(locale: Locale, count: number) {
+  let rules = pluralRules.get(locale);
+  if (!rules) {
+    rules = new Intl.PluralRules(locale);
+    pluralRules.set(locale, rules);
+  }
+  return rules.select(count);
+}
+
+// Looks the key up in the locale's catalog, then in English. {name}
+// placeholders are filled from params; numbers are formatted for the locale.
+export function translate(locale: Locale, key: MessageKey, params: MessageParams = {}): string {
+  const message: CatalogMessage = CATALOGS[locale][key] ?? en[key];
+  const template = typeof message === 'string'
+    ? message
+    : message[pluralCategory(locale, Number(params.count ?? 0))] ?? message.other;
+
+  return template.replace(/\{(\w+)\}/g, (match, name: string) => {
+    const value = params[name];
+    if (value === undefined) return match;
+    return typeof value === 'number' ? formatNumber(locale, value) : value;
+  });
+}
+
+export const translateText = (locale: Locale, text: Translatable) =>
+  typeof text === 'string' ? text : translate(locale, text.key, text.params);
+
+export const formatNumber = (locale: Locale, value: number, options?: Intl.NumberFormatOptions) =>
+  new Intl.NumberFormat(locale, options).format(value);
+
+export const formatTime = (locale: Locale, date: string | number | Date) =>
+  new Date(date).toLocaleTimeString(locale);
+
+export const formatDate = (locale: Locale, date: string | number | Date, options?: Intl.DateTimeFormatOptions) =>
+  new Date(date).toLocaleDateString(locale, options ?? { year: 'numeric', month: 'short', day: 'numeric' });
+
+const SIZE_UNITS = ['byte', 'kilobyte', 'megabyte', 'gigabyte'] as const;
+
+export function formatFileSize(locale: Locale, bytes: number) {
+  let value = bytes;
+  let unit = 0;
+  while (value >= 1024 && unit < SIZE_UNITS.length - 1) {
+    value /= 1024;
+    unit++;
+  }
+  return formatNumber(locale, value, {
+    style: 'unit',
+    unit: SIZE_UNITS[unit],
+    unitDisplay: 'short',
+    maximumFractionDigits: unit === 0 ? 0 : 1
+  });
+}
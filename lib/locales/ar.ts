@@ -0,0 +1,500 @@
+import type { Catalog } from '../i18n';
+
+// Arabic uses all six CLDR plural categories
+export const ar: Catalog = {
+  'app.title': 'المساعد الذكي المتقدم',
+  'app.subtitle': 'محادثة متعددة الوسائط بالصوت والنص والملفات ومشاركة الشاشة',
+  'app.transportFailed': 'تعذّر بدء الاتصال',
+  'app.transportFailedSaved': 'قد تكون إعدادات الاتصال المحفوظة هي السبب. إعادة ضبطها تستعيد القيم الافتراضية.',
+  'app.transportFailedDeployed': 'تحقق من وسيلة النقل في إعدادات النشر (config.json أو متغيرات البناء أو الرابط).',
+  'app.resetSettings': 'إعادة ضبط الإعدادات المحفوظة',
+  'app.crashTitle': 'حدث خطأ ما',
+  'app.crashBody': 'يُرجى تحديث الصفحة أو المحاولة لاحقًا.',
+  'app.crashRefresh': 'تحديث الصفحة',
+
+  'common.cancel': 'إلغاء',
+  'common.dismiss': 'إخفاء',
+  'common.retry': 'إعادة المحاولة',
+  'common.delete': 'حذف',
+  'common.refresh': 'تحديث',
+  'common.noKey': 'لا يوجد مفتاح',
+  'common.close': 'إغلاق',
+
+  'header.shortcuts': 'اختصارات لوحة المفاتيح ({combo})',
+  'header.history': 'سجل الجلسات',
+  'header.language': 'اللغة',
+
+  'tabs.chat': 'الدردشة',
+  'tabs.files': 'الملفات',
+  'tabs.screen': 'الشاشة',
+  'tabs.analytics': 'الإحصاءات',
+  'tabs.bot': 'البوت',
+  'tabs.settings': 'الإعدادات',
+  'tabs.chatHint': 'تظهر الدردشة أسفل الفيديو',
+  'tabs.chatToggleHint': 'أظهرها أو أخفها بالزر أعلاه',
+  'tabs.label': 'اللوحات',
+
+  'connection.state.disconnected': 'غير متصل',
+  'connection.state.initializing': 'جارٍ التهيئة',
+  'connection.state.initialized': 'تمت التهيئة',
+  'connection.state.authenticating': 'جارٍ التحقق',
+  'connection.state.connecting': 'جارٍ الاتصال',
+  'connection.state.connected': 'متصل',
+  'connection.state.ready': 'جاهز',
+  'connection.state.disconnecting': 'جارٍ قطع الاتصال',
+  'connection.state.error': 'خطأ',
+  'connection.reconnecting': 'جارٍ إعادة الاتصال (المحاولة {attempt})',
+  'connection.failed': {
+    zero: 'فشلت إعادة الاتصال',
+    one: 'فشلت إعادة الاتصال بعد محاولة واحدة',
+    two: 'فشلت إعادة الاتصال بعد محاولتين',
+    few: 'فشلت إعادة الاتصال بعد {count} محاولات',
+    many: 'فشلت إعادة الاتصال بعد {count} محاولة',
+    other: 'فشلت إعادة الاتصال بعد {count} محاولة'
+  },
+  'connection.queued': {
+    zero: 'لا رسائل في الانتظار',
+    one: 'رسالة واحدة في الانتظار',
+    two: 'رسالتان في الانتظار',
+    few: '{count} رسائل في الانتظار',
+    many: '{count} رسالة في الانتظار',
+    other: '{count} رسالة في الانتظار'
+  },
+  'connection.queuedHint': 'ستُرسل تلقائيًا عند إعادة الاتصال',
+  'connection.connect': 'اتصال',
+  'connection.disconnect': 'قطع الاتصال',
+
+  'video.assistant': 'المساعد الذكي',
+  'video.connectPrompt': 'اتصل لبدء المحادثة',
+  'video.panel': 'الفيديو',
+  'video.participants': {
+    zero: 'لا أحد متصل',
+    one: 'مشارك واحد متصل',
+    two: 'مشاركان متصلان',
+    few: '{count} مشاركين متصلين',
+    many: '{count} مشاركًا متصلًا',
+    other: '{count} مشارك متصل'
+  },
+  'video.holdToTalk': 'اضغط مطولًا للتحدث',
+  'video.holdToTalkTitle': 'اضغط مطولًا للتحدث ({key})',
+  'video.talking': 'جارٍ التحدث…',
+  'video.mute': 'كتم الميكروفون',
+  'video.unmute': 'تشغيل الميكروفون',
+  'video.cameraOff': 'إيقاف الكاميرا',
+  'video.cameraOn': 'تشغيل الكاميرا',
+  'video.showCaptions': 'إظهار الترجمة',
+  'video.hideCaptions': 'إخفاء الترجمة',
+  'video.interrupt': 'مقاطعة',
+  'video.interruptTitle': 'مقاطعة البوت ({key})',
+  'video.showChat': 'إظهار الدردشة النصية',
+  'video.hideChat': 'إخفاء الدردشة النصية',
+  'video.micOff': 'الميكروفون مغلق',
+  'video.pin': 'تثبيت',
+  'video.unpin': 'إلغاء التثبيت',
+  'video.fullscreen': 'ملء الشاشة',
+  'video.exitFullscreen': 'الخروج من ملء الشاشة',
+
+  'participants.you': 'أنت',
+  'participants.guest': 'ضيف',
+  'participants.yourScreen': 'شاشتك',
+
+  'voice.listening': 'يستمع',
+  'voice.userSpeaking': 'أنت تتحدث',
+  'voice.thinking': 'يفكر…',
+  'voice.botSpeaking': 'البوت يتحدث',
+  'voice.you': 'أنت',
+  'voice.bot': 'البوت',
+  'voice.muted': '{label} (مكتوم)',
+
+  'captions.title': 'الترجمة النصية',
+  'captions.enable': 'عرض الترجمة المباشرة على الفيديو',
+  'captions.showUser': 'تضمين ما أقوله',
+  'captions.fontSize': 'حجم النص',
+  'captions.size.small': 'صغير',
+  'captions.size.medium': 'متوسط',
+  'captions.size.large': 'كبير',
+  'captions.size.xlarge': 'كبير جدًا',
+  'captions.position': 'الموضع',
+  'captions.bottom': 'أسفل',
+  'captions.top': 'أعلى',
+  'captions.opacity': 'شفافية الخلفية',
+  'captions.lines': 'عدد الأسطر',
+  'captions.youSaid': 'أنت:',
+
+  'chat.title': 'الدردشة النصية',
+  'chat.panel': 'الدردشة',
+  'chat.live': 'مباشر',
+  'chat.empty': 'ابدأ المحادثة...',
+  'chat.placeholder': 'اكتب رسالة...',
+  'chat.send': 'إرسال',
+  'chat.notSent': 'لم تُرسل',
+  'chat.notSentReason': 'لم تُرسل: {reason}',
+  'chat.copy': 'نسخ الرسالة',
+  'chat.edit': 'تعديل وإعادة الإرسال',
+  'chat.pending': 'جارٍ الإرسال…',
+  'chat.queued': 'في الانتظار حتى إعادة الاتصال',
+  'chat.sent': 'تم التسليم',
+
+  'files.checking': 'جارٍ فحص الملفات...',
+  'files.dropzone': 'أفلت الملفات هنا أو انقر للرفع',
+  'files.supported': 'الصور وملفات PDF ومستندات Word والملفات النصية مدعومة',
+  'files.rejected': {
+    zero: 'لم يُرفض أي ملف',
+    one: 'رُفض ملف واحد',
+    two: 'رُفض ملفان',
+    few: 'رُفضت {count} ملفات',
+    many: 'رُفض {count} ملفًا',
+    other: 'رُفض {count} ملف'
+  },
+  'files.uploaded': 'الملفات المرفوعة ({count})',
+  'files.none': 'لم تُرفع أي ملفات بعد',
+  'files.openPreview': 'فتح المعاينة',
+  'files.analyze': 'تحليل',
+  'files.invalid.empty': 'الملف فارغ',
+  'files.invalid.tooLarge': 'حجم الملف يتجاوز الحد المسموح ({mb} ميغابايت)',
+  'files.invalid.unrecognised': 'محتوى الملف ليس مستندًا أو صورة معروفة',
+  'files.invalid.notAllowed': 'الملفات من نوع {type} غير مسموح بها',
+  'files.invalid.mismatch': 'يبدو المحتوى من نوع {actual} لكن الملف يدّعي أنه {declared}',
+
+  'uploads.status.uploading': 'جارٍ الرفع',
+  'uploads.status.paused': 'في انتظار الاتصال',
+  'uploads.status.failed': 'فشل',
+  'uploads.status.completed': 'اكتمل',
+  'uploads.status.cancelled': 'أُلغي',
+  'uploads.retry': 'إعادة محاولة الرفع',
+  'uploads.cancel': 'إلغاء الرفع',
+
+  'preview.close': 'إغلاق المعاينة',
+  'preview.loading': 'جارٍ تحميل المعاينة...',
+  'preview.unavailable': 'لا تتوفر معاينة لهذا الملف.',
+  'preview.unknownType': 'نوع غير معروف',
+
+  'screen.title': 'مشاركة الشاشة',
+  'screen.start': 'بدء المشاركة',
+  'screen.stop': 'إيقاف المشاركة',
+  'screen.choosing': 'جارٍ الاختيار...',
+  'screen.active': 'مشاركة الشاشة نشطة - يمكن للمساعد رؤية شاشتك وتحليلها',
+  'screen.connectFirst': 'اتصل لمشاركة شاشتك مع المساعد.',
+  'screen.hint': 'شارك شاشتك للحصول على مساعدة في التطبيقات أو المواقع أو أي محتوى مرئي.',
+  'screen.failed': 'فشلت مشاركة الشاشة: {error}',
+  'screen.surface.tab': 'علامة تبويب المتصفح',
+  'screen.surface.window': 'نافذة',
+  'screen.surface.screen': 'الشاشة بالكامل',
+  'screen.surface.unknown': 'محتوى مشترك',
+
+  'analytics.title': 'إحصاءات المحادثة',
+  'analytics.analyzing': 'جارٍ التحليل...',
+  'analytics.totalMessages': 'إجمالي الرسائل',
+  'analytics.filesProcessed': 'الملفات المعالجة',
+  'analytics.voiceMessages': 'الرسائل الصوتية',
+  'analytics.textMessages': 'الرسائل النصية',
+  'analytics.analysis': 'تحليل المحادثة',
+  'analytics.updated': 'آخر تحديث {time}',
+  'analytics.failed': 'فشل التحليل: {reason}',
+
+  'analysis.none': 'لا شيء',
+  'analysis.yes': 'نعم',
+  'analysis.no': 'لا',
+
+  'metrics.title': 'زمن الاستجابة',
+  'metrics.turnLatency': 'من صوت إلى صوت (تتوقف عن الكلام ← يتحدث البوت)',
+  'metrics.turn': 'الدور',
+  'metrics.ttfb': 'الوقت حتى أول بايت',
+  'metrics.processing': 'وقت المعالجة',
+  'metrics.noData': 'لا توجد بيانات بعد',
+
+  'bot.title': 'إعدادات البوت',
+  'bot.reload': 'إعادة التحميل',
+  'bot.editingLive': 'أنت تعدّل البوت المباشر. الحقول الفارغة تبقى دون تغيير.',
+  'bot.offline': 'غير متصل. يُرسل الإعداد المسبق المحدد إلى الخادم عند الاتصال.',
+  'bot.llmModel': 'نموذج اللغة',
+  'bot.systemPrompt': 'تعليمات النظام',
+  'bot.serverDefault': 'افتراضي الخادم',
+  'bot.ttsVoice': 'صوت تحويل النص إلى كلام',
+  'bot.voiceId': 'معرّف الصوت',
+  'bot.sttLanguage': 'لغة التعرف على الكلام',
+  'bot.languageExample': 'مثلًا ar',
+  'bot.interrupt': 'مقاطعة الرد الحالي',
+  'bot.apply': 'تطبيق مباشرة',
+  'bot.applying': 'جارٍ التطبيق...',
+  'bot.applied': 'تم تحديث إعدادات البوت.',
+  'bot.readFailed': 'تعذّرت قراءة إعدادات البوت: {reason}',
+  'bot.updateRejected': 'رفض البوت التحديث: {reason}',
+  'bot.presets': 'الإعدادات المسبقة',
+  'bot.sentOnConnect': 'يُرسل عند الاتصال',
+  'bot.noPreset': 'لا شيء (افتراضيات الخادم)',
+  'bot.presetName': 'اسم الإعداد المسبق',
+  'bot.savePreset': 'حفظ الحقول أعلاه كإعداد مسبق',
+  'bot.deletePreset': 'حذف الإعداد المسبق المحدد',
+
+  'settings.devices': 'الأجهزة',
+  'settings.speaker': 'مكبر الصوت',
+  'settings.noDevices': 'لم يُعثر على أجهزة',
+  'settings.systemDefault': 'افتراضي النظام',
+  'settings.unnamedDevice': '{label} {index}',
+  'settings.micMode': 'وضع الميكروفون',
+  'settings.micMode.open': 'ميكروفون مفتوح',
+  'settings.micMode.openHint': 'يستمع البوت كلما تحدثت',
+  'settings.micMode.pushToTalk': 'اضغط للتحدث',
+  'settings.micMode.pushToTalkHint': 'اضغط مع الاستمرار على مفتاح التحدث أو الزر للكلام',
+  'settings.micMode.holdKey': 'اضغط مع الاستمرار على {key} أو زر الميكروفون',
+  'settings.deviceCheck': 'فحص الأجهزة',
+  'settings.deviceCheckDisconnect': 'افصل الاتصال لتشغيل فحص الأجهزة',
+
+  'config.loading': 'جارٍ تحميل الإعدادات…',
+  'config.title': 'الإعدادات',
+  'config.disconnectFirst': 'افصل الاتصال لتغيير إعدادات الاتصال.',
+  'config.key.serverUrl': 'رابط الخادم',
+  'config.key.connectEndpoint': 'نقطة الاتصال',
+  'config.key.transport': 'وسيلة النقل',
+  'config.key.enableAnalytics': 'تبويب التحليلات',
+  'config.key.maxFileSize': 'الحد الأقصى لحجم الملف (بايت)',
+  'config.key.uploadChunkSize': 'حجم جزء الرفع (بايت)',
+  'config.key.allowedFileTypes': 'أنواع الملفات المسموح بها (مفصولة بفواصل)',
+  'config.source.default': 'افتراضي',
+  'config.source.env': 'بيئة البناء',
+  'config.source.file': 'config.json',
+  'config.source.user': 'محفوظ',
+  'config.source.query': 'الرابط',
+  'config.removeOverride': 'إزالة القيمة المحفوظة',
+  'config.setByUrl': 'محدد من الرابط؛ تُطبق القيم المحفوظة بدون ?{key}=',
+  'config.save': 'حفظ التغييرات',
+  'config.resetAll': 'إعادة ضبط الكل',
+  'config.issue': '{key}: {message} (تم تجاهله)',
+  'config.expected.httpUrl': 'يُتوقع عنوان URL يبدأ بـ http(s)',
+  'config.expected.path': 'يُتوقع مسار يبدأ بـ /',
+  'config.expected.oneOf': 'يُتوقع أحد الخيارات: {options}',
+  'config.expected.boolean': 'يُتوقع true أو false',
+  'config.expected.positiveInt': 'يُتوقع عدد صحيح موجب',
+  'config.expected.fileTypes': 'يُتوقع نوع ملف واحد على الأقل',
+  'config.unknownSetting': 'إعداد غير معروف',
+  'config.notFromUrl': 'لا يمكن تعيينه من رابط؛ غيّره من هنا',
+  'config.fileNotObject': 'يجب أن يحتوي {url} على كائن JSON',
+  'config.fileFailed': 'تعذر تحميل {url}: {reason}',
+  'config.resolved': 'الإعدادات الفعلية',
+
+  'export.title': 'تصدير المحادثة',
+  'export.needsVoice': 'تحتاج الترجمة النصية إلى دور صوتي واحد على الأقل',
+  'export.import': 'استيراد JSON',
+  'export.defaultTitle': 'محادثة',
+
+  'import.notJson': 'الملف ليس JSON صالحًا',
+  'import.notExport': 'الملف ليس تصديرًا لمحادثة',
+  'import.version': 'إصدار تصدير غير مدعوم: {version}',
+  'import.incomplete': 'ينقص التصدير messages أو files أو startedAt',
+  'import.badMessage': 'الرسالة {index} غير صالحة',
+  'import.badFile': 'إدخال الملف {index} غير صالح',
+
+  'history.untitled': 'جلسة {date}',
+  'history.search': 'البحث في الجلسات...',
+  'history.close': 'إغلاق السجل',
+  'history.disconnectFirst': 'افصل الاتصال لفتح جلسة سابقة.',
+  'history.empty': 'لا توجد جلسات سابقة بعد',
+  'history.noMatches': 'لا توجد جلسات تطابق البحث',
+  'history.messages': {
+    zero: 'لا رسائل',
+    one: 'رسالة واحدة',
+    two: 'رسالتان',
+    few: '{count} رسائل',
+    many: '{count} رسالة',
+    other: '{count} رسالة'
+  },
+  'history.files': {
+    zero: 'لا ملفات',
+    one: 'ملف واحد',
+    two: 'ملفان',
+    few: '{count} ملفات',
+    many: '{count} ملفًا',
+    other: '{count} ملف'
+  },
+  'history.live': 'مباشر',
+  'history.open': 'فتح',
+  'history.continue': 'متابعة',
+  'history.continueHint': 'فتح المحادثة وتقديمها للبوت عند الاتصال التالي',
+  'history.rename': 'إعادة التسمية',
+  'history.saveName': 'حفظ الاسم',
+  'history.confirmDelete': 'حذف «{title}»؟',
+
+  'recording.title': 'تسجيل هذه الجلسة',
+  'recording.intro': 'يُسجَّل الميكروفون وصوت البوت على هذا الجهاز مع النص المكتوب. لا يُرفع أي شيء؛ تنزّل التسجيل عند انتهائه.',
+  'recording.video': 'الفيديو',
+  'recording.source.none': 'صوت فقط',
+  'recording.source.bot': 'فيديو البوت',
+  'recording.source.screen': 'مشاركة شاشتي',
+  'recording.notActive': '(غير نشط)',
+  'recording.consent': 'أوافق على تسجيل هذه الجلسة، وقد أُبلغ جميع المشاركين الآخرين ووافقوا.',
+  'recording.start': 'بدء التسجيل',
+  'recording.rec': 'تسجيل',
+  'recording.stop': 'إيقاف التسجيل',
+  'recording.ready': 'التسجيل جاهز · {size}',
+  'recording.download': 'تنزيل حزمة التسجيل',
+  'recording.discard': 'تجاهل التسجيل',
+  'recording.record': 'تسجيل الجلسة',
+  'recording.connectFirst': 'اتصل لبدء التسجيل',
+  'recording.packageFailed': 'تعذّر تجميع التسجيل',
+  'recording.unsupported': 'هذا المتصفح لا يدعم التسجيل',
+
+  'shortcuts.title': 'اختصارات لوحة المفاتيح',
+  'shortcuts.action.pushToTalk': 'اضغط للتحدث (مع الاستمرار)',
+  'shortcuts.action.toggleMic': 'كتم / إلغاء كتم الميكروفون',
+  'shortcuts.action.toggleCamera': 'تشغيل / إيقاف الكاميرا',
+  'shortcuts.action.toggleChat': 'إظهار / إخفاء الدردشة النصية',
+  'shortcuts.action.toggleConnection': 'اتصال / قطع الاتصال',
+  'shortcuts.action.interruptBot': 'مقاطعة البوت',
+  'shortcuts.action.nextTab': 'التبويب التالي',
+  'shortcuts.action.previousTab': 'التبويب السابق',
+  'shortcuts.action.showShortcuts': 'عرض اختصارات لوحة المفاتيح',
+  'shortcuts.recordingHint': 'اضغط مجموعة مفاتيح، أو Esc للإلغاء، أو Backspace للمسح',
+  'shortcuts.change': 'انقر للتغيير',
+  'shortcuts.pressKeys': 'اضغط المفاتيح…',
+  'shortcuts.unassigned': 'غير معيّن',
+  'shortcuts.conflicts': 'بعض المفاتيح معيّنة مرتين؛ سيُنفَّذ الإجراء الأول في القائمة فقط.',
+  'shortcuts.typingHint': 'تُتجاهل المفاتيح بدون Ctrl أو Alt أو Meta أثناء الكتابة.',
+  'shortcuts.reset': 'استعادة الافتراضيات',
+
+  'functions.title': 'يريد البوت تشغيل {name}',
+  'functions.moreWaiting': {
+    zero: 'لا طلبات أخرى',
+    one: 'طلب آخر في الانتظار',
+    two: 'طلبان آخران في الانتظار',
+    few: '{count} طلبات أخرى في الانتظار',
+    many: '{count} طلبًا آخر في الانتظار',
+    other: '{count} طلب آخر في الانتظار'
+  },
+  'functions.deny': 'رفض',
+  'functions.allow': 'السماح مرة واحدة',
+  'functions.called': 'استدعى البوت {name}({args})',
+  'functions.returned': 'أعادت {name} القيمة {result}',
+  'functions.failed': 'فشلت {name}: {reason}',
+  'functions.declined': 'رفضتَ {name}',
+
+  'markdown.copy': 'نسخ',
+  'markdown.copied': 'تم النسخ',
+  'markdown.copyCode': 'نسخ الشيفرة',
+  'markdown.code': 'شيفرة',
+  'markdown.loadImage': 'تحميل الصورة من {host}',
+
+  'panel.crashed': 'توقف {name} عن العمل',
+  'panel.tryAgain': 'إعادة المحاولة',
+  'panel.generic': 'اللوحة',
+
+  'system.welcome': 'مرحبًا! اتصل لبدء محادثتك متعددة الوسائط مع المساعد.',
+  'system.sharedOnConnect': 'ستُشارك هذه المحادثة مع البوت عند الاتصال.',
+  'system.fileUploaded': 'تم رفع الملف: {name}',
+  'system.analyzingFile': 'جارٍ تحليل الملف: {name}',
+  'system.queuedAnalysis': 'التحليل في الانتظار: {name} (سيُرسل عند إعادة الاتصال)',
+  'system.screenSharingStarted': 'بدأت مشاركة الشاشة',
+  'system.screenSharingStopped': 'توقفت مشاركة الشاشة',
+  'system.recordingStarted': 'بدأ التسجيل',
+  'system.recordingStopped': 'توقف التسجيل',
+
+  'notify.importFailed': 'فشل الاستيراد',
+  'notify.screenShareNotSent': 'تعذّر إبلاغ البوت بمشاركة الشاشة',
+  'notify.analysisFailed': 'فشل تحليل {name}',
+  'notify.recordingFailed': 'فشل التسجيل',
+  'notify.connectFailed': 'تعذّر الاتصال',
+  'notify.sessionError': 'خطأ في الجلسة',
+  'notify.botError': 'خطأ في البوت',
+  'notify.requestRejected': 'رُفض الطلب',
+  'notify.botLeft': 'غادر البوت الجلسة',
+  'notify.unknownError': 'خطأ غير معروف',
+  'notify.historyLoadFailed': 'تعذر تحميل سجل الجلسات',
+  'notify.sessionSaveFailed': 'تعذر حفظ هذه الجلسة',
+  'notify.sessionOpenFailed': 'تعذر فتح الجلسة',
+  'notify.sessionRenameFailed': 'تعذرت إعادة تسمية الجلسة',
+  'notify.sessionDeleteFailed': 'تعذر حذف الجلسة',
+  'notify.contextRestoreFailed': 'لم تُمرَّر المحادثة السابقة إلى البوت',
+  'notify.devicesFailed': 'تعذر الوصول إلى أجهزة الوسائط',
+  'notify.interruptFailed': 'تعذرت مقاطعة البوت',
+  'notify.source.connection': 'الاتصال',
+  'notify.source.bot': 'البوت',
+  'notify.source.files': 'الملفات',
+  'notify.source.screen': 'الشاشة',
+  'notify.source.export': 'التصدير',
+  'notify.source.recording': 'التسجيل',
+  'notify.source.history': 'السجل',
+  'notify.source.devices': 'الأجهزة',
+
+  'notifications.title': 'الإشعارات',
+  'notifications.unread': {
+    zero: 'الإشعارات',
+    one: 'الإشعارات (إشعار واحد غير مقروء)',
+    two: 'الإشعارات (إشعاران غير مقروءين)',
+    few: 'الإشعارات ({count} إشعارات غير مقروءة)',
+    many: 'الإشعارات ({count} إشعارًا غير مقروء)',
+    other: 'الإشعارات ({count} إشعار غير مقروء)'
+  },
+  'notifications.clear': 'مسح الكل',
+  'notifications.empty': 'لا توجد إشعارات بعد.',
+  'notifications.remove': 'إزالة',
+
+  'failure.invalidRequest': 'طلب غير صالح: {detail}',
+  'failure.invalidResponse': 'رد غير متوقع من البوت: {detail}',
+  'failure.notReady': 'البوت غير جاهز: {detail}',
+  'failure.server': 'أبلغ البوت عن خطأ: {detail}',
+  'failure.transport': 'مشكلة في الاتصال: {detail}',
+
+  'precall.title': 'افحص إعداداتك: {check}',
+  'precall.ready': 'جاهز للانضمام',
+  'precall.step': '{step} / {total}',
+  'precall.check.permissions': 'الأذونات',
+  'precall.check.microphone': 'الميكروفون',
+  'precall.check.camera': 'الكاميرا',
+  'precall.check.speaker': 'مكبرات الصوت',
+  'precall.check.network': 'الشبكة',
+  'precall.status.pending': 'لم يُفحص',
+  'precall.status.running': 'جارٍ الفحص',
+  'precall.status.pass': 'ناجح',
+  'precall.status.warn': 'يحتاج إلى انتباه',
+  'precall.status.fail': 'فشل',
+  'precall.notChecked': 'لم يُفحص بعد',
+  'precall.checking': 'جارٍ الفحص…',
+  'precall.permissions.intro': 'يحتاج المساعد إلى الميكروفون، والكاميرا إن أردت مشاركة الفيديو. سيطلب المتصفح إذنك.',
+  'precall.permissions.allow': 'السماح بالوصول',
+  'precall.permissions.askAgain': 'اطلب مجددًا',
+  'precall.permissions.unsupported': 'لا يستطيع هذا المتصفح الوصول إلى أجهزة الوسائط',
+  'precall.permissions.allowed': 'تم السماح بالميكروفون والكاميرا',
+  'precall.permissions.micOnly': 'تم السماح بالميكروفون؛ الكاميرا غير متاحة',
+  'precall.permissions.micFailed': 'تعذّر فتح الميكروفون',
+  'precall.error.blocked': 'تم حظر الوصول. اسمح به من إعدادات الموقع في المتصفح.',
+  'precall.error.notFound': 'لم يُعثر على أي جهاز',
+  'precall.error.inUse': 'الجهاز مستخدم من تطبيق آخر',
+  'precall.error.other': 'تعذّر فتح الجهاز',
+  'precall.microphone.speak': 'قل شيئًا لاختبار الميكروفون',
+  'precall.microphone.working': 'الميكروفون يعمل',
+  'precall.microphone.record': 'سجّل اختبارًا مدته {seconds} ث',
+  'precall.microphone.recording': 'جارٍ التسجيل…',
+  'precall.camera.working': 'الكاميرا تعمل',
+  'precall.speaker.play': 'تشغيل نغمة الاختبار',
+  'precall.speaker.question': 'هل سمعت النغمة؟',
+  'precall.speaker.yes': 'سمعتها',
+  'precall.speaker.no': 'لم أسمعها',
+  'precall.speaker.heard': 'سُمعت نغمة الاختبار',
+  'precall.speaker.notHeard': 'لم تُسمع نغمة الاختبار؛ تحقق من جهاز الإخراج ومستوى الصوت',
+  'precall.network.checking': 'جارٍ التحقق من إمكانية الوصول إلى هذا الخادم:',
+  'precall.network.notConfigured': '(غير مُعدّ)',
+  'precall.network.again': 'افحص مجددًا',
+  'precall.network.noUrl': 'لم يُعدّ رابط للخادم',
+  'precall.network.slow': 'يمكن الوصول إليه لكنه بطيء ({ms} مللي ثانية)',
+  'precall.network.reachable': 'يمكن الوصول إليه خلال {ms} مللي ثانية',
+  'precall.network.timeout': 'لم يستجب الخادم في الوقت المحدد',
+  'precall.network.unreachable': 'تعذّر الوصول إلى {url}',
+  'precall.summary.pass': 'كل شيء يبدو جيدًا',
+  'precall.summary.warn': 'يمكنك الانضمام، لكن بعض الفحوصات تحتاج إلى انتباه',
+  'precall.summary.fail': 'فشلت بعض الفحوصات',
+  'precall.joinMic': 'الانضمام مع تشغيل الميكروفون',
+  'precall.joinCam': 'الانضمام مع تشغيل الكاميرا',
+  'precall.skip': 'تخطي الفحوصات',
+  'precall.back': 'رجوع',
+  'precall.next': 'التالي',
+  'precall.continue': 'متابعة',
+
+  'language.title': 'اللغة',
+  'language.interface': 'لغة الواجهة',
+  'language.spoken': 'لغة التحدث',
+  'language.followInterface': 'مثل لغة الواجهة ({language})',
+  'language.spokenHint': 'تُرسل إلى البوت عند الاتصال ليتطابق التعرف على الكلام والصوت.',
+  'language.appliesNextConnect': 'يسري التغيير عند الاتصال التالي.',
+
+  'a11y.botSaid': 'المساعد: {text}'
+};
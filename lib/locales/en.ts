@@ -0,0 +1,446 @@
+// English source catalog. Keys are grouped by the part of the UI they
+// belong to; entries with plural forms are objects keyed by CLDR category.
+
+export const en = {
+  'app.title': 'Advanced AI Assistant',
+  'app.subtitle': 'Multi-modal conversation with voice, text, files, and screen sharing',
+  'app.transportFailed': 'Unable to start transport',
+  'app.transportFailedSaved': 'Your saved connection settings may be the cause. Resetting them restores the defaults.',
+  'app.transportFailedDeployed': 'Check the transport in the deployment config (config.json, build env or URL).',
+  'app.resetSettings': 'Reset saved settings',
+  'app.crashTitle': 'Something went wrong',
+  'app.crashBody': 'Please refresh the page or try again later.',
+  'app.crashRefresh': 'Refresh Page',
+
+  'common.cancel': 'Cancel',
+  'common.dismiss': 'Dismiss',
+  'common.retry': 'Retry',
+  'common.delete': 'Delete',
+  'common.refresh': 'Refresh',
+  'common.noKey': 'no key set',
+  'common.close': 'Close',
+
+  'header.shortcuts': 'Keyboard shortcuts ({combo})',
+  'header.history': 'Session history',
+  'header.language': 'Language',
+
+  'tabs.chat': 'Chat',
+  'tabs.files': 'Files',
+  'tabs.screen': 'Screen',
+  'tabs.analytics': 'Analytics',
+  'tabs.bot': 'Bot',
+  'tabs.settings': 'Settings',
+  'tabs.chatHint': 'Chat panel shown below video',
+  'tabs.chatToggleHint': 'Toggle visibility with the button above',
+  'tabs.label': 'Panels',
+
+  'connection.state.disconnected': 'Disconnected',
+  'connection.state.initializing': 'Initializing',
+  'connection.state.initialized': 'Initialized',
+  'connection.state.authenticating': 'Authenticating',
+  'connection.state.connecting': 'Connecting',
+  'connection.state.connected': 'Connected',
+  'connection.state.ready': 'Ready',
+  'connection.state.disconnecting': 'Disconnecting',
+  'connection.state.error': 'Error',
+  'connection.reconnecting': 'Reconnecting (attempt {attempt})',
+  'connection.failed': { one: 'Reconnection failed after {count} attempt', other: 'Reconnection failed after {count} attempts' },
+  'connection.queued': '{count} queued',
+  'connection.queuedHint': 'Sent automatically once reconnected',
+  'connection.connect': 'Connect',
+  'connection.disconnect': 'Disconnect',
+
+  'video.assistant': 'AI Assistant',
+  'video.connectPrompt': 'Connect to start conversation',
+  'video.panel': 'Video',
+  'video.participants': { one: '{count} connected', other: '{count} connected' },
+  'video.holdToTalk': 'Hold to talk',
+  'video.holdToTalkTitle': 'Hold to talk ({key})',
+  'video.talking': 'Talking…',
+  'video.mute': 'Mute microphone',
+  'video.unmute': 'Unmute microphone',
+  'video.cameraOff': 'Turn off camera',
+  'video.cameraOn': 'Turn on camera',
+  'video.showCaptions': 'Show captions',
+  'video.hideCaptions': 'Hide captions',
+  'video.interrupt': 'Interrupt',
+  'video.interruptTitle': 'Interrupt the bot ({key})',
+  'video.showChat': 'Show Text Chat',
+  'video.hideChat': 'Hide Text Chat',
+  'video.micOff': 'Microphone off',
+  'video.pin': 'Pin',
+  'video.unpin': 'Unpin',
+  'video.fullscreen': 'Fullscreen',
+  'video.exitFullscreen': 'Exit fullscreen',
+
+  'participants.you': 'You',
+  'participants.guest': 'Guest',
+  'participants.yourScreen': 'Your screen',
+
+  'voice.listening': 'Listening',
+  'voice.userSpeaking': 'You are speaking',
+  'voice.thinking': 'Thinking…',
+  'voice.botSpeaking': 'Bot is speaking',
+  'voice.you': 'You',
+  'voice.bot': 'Bot',
+  'voice.muted': '{label} (muted)',
+
+  'captions.title': 'Captions',
+  'captions.enable': 'Show live captions on the video',
+  'captions.showUser': 'Include what I say',
+  'captions.fontSize': 'Text size',
+  'captions.size.small': 'Small',
+  'captions.size.medium': 'Medium',
+  'captions.size.large': 'Large',
+  'captions.size.xlarge': 'Extra large',
+  'captions.position': 'Position',
+  'captions.bottom': 'Bottom',
+  'captions.top': 'Top',
+  'captions.opacity': 'Background opacity',
+  'captions.lines': 'Lines shown',
+  'captions.youSaid': 'You:',
+
+  'chat.title': 'Text Chat',
+  'chat.panel': 'Chat',
+  'chat.live': 'Live',
+  'chat.empty': 'Start the conversation...',
+  'chat.placeholder': 'Type a message...',
+  'chat.send': 'Send',
+  'chat.notSent': 'Not sent',
+  'chat.notSentReason': 'Not sent: {reason}',
+  'chat.copy': 'Copy message',
+  'chat.edit': 'Edit and resend',
+  'chat.pending': 'Sending…',
+  'chat.queued': 'Queued until reconnected',
+  'chat.sent': 'Delivered',
+
+  'files.checking': 'Checking files...',
+  'files.dropzone': 'Drop files here or click to upload',
+  'files.supported': 'Images, PDFs, Word docs, and text files supported',
+  'files.rejected': { one: '{count} file rejected', other: '{count} files rejected' },
+  'files.uploaded': 'Uploaded Files ({count})',
+  'files.none': 'No files uploaded yet',
+  'files.openPreview': 'Open preview',
+  'files.analyze': 'Analyze',
+  'files.invalid.empty': 'File is empty',
+  'files.invalid.tooLarge': 'File is larger than the {mb} MB limit',
+  'files.invalid.unrecognised': 'File content is not a recognised document or image',
+  'files.invalid.notAllowed': '{type} files are not allowed',
+  'files.invalid.mismatch': 'Content looks like {actual} but the file claims to be {declared}',
+
+  'uploads.status.uploading': 'Uploading',
+  'uploads.status.paused': 'Waiting for connection',
+  'uploads.status.failed': 'Failed',
+  'uploads.status.completed': 'Completed',
+  'uploads.status.cancelled': 'Cancelled',
+  'uploads.retry': 'Retry upload',
+  'uploads.cancel': 'Cancel upload',
+
+  'preview.close': 'Close preview',
+  'preview.loading': 'Loading preview...',
+  'preview.unavailable': 'No preview available for this file.',
+  'preview.unknownType': 'Unknown type',
+
+  'screen.title': 'Screen Sharing',
+  'screen.start': 'Start Sharing',
+  'screen.stop': 'Stop Sharing',
+  'screen.choosing': 'Choosing...',
+  'screen.active': 'Screen sharing active - AI can see and analyze your screen',
+  'screen.connectFirst': 'Connect to share your screen with the assistant.',
+  'screen.hint': 'Share your screen to get contextual help with applications, websites, or any visual content.',
+  'screen.failed': 'Screen sharing failed: {error}',
+  'screen.surface.tab': 'Browser tab',
+  'screen.surface.window': 'Window',
+  'screen.surface.screen': 'Entire screen',
+  'screen.surface.unknown': 'Shared content',
+
+  'analytics.title': 'Conversation Analytics',
+  'analytics.analyzing': 'Analyzing...',
+  'analytics.totalMessages': 'Total Messages',
+  'analytics.filesProcessed': 'Files Processed',
+  'analytics.voiceMessages': 'Voice Messages',
+  'analytics.textMessages': 'Text Messages',
+  'analytics.analysis': 'Conversation Analysis',
+  'analytics.updated': 'Updated {time}',
+  'analytics.failed': 'Analysis failed: {reason}',
+
+  'analysis.none': 'None',
+  'analysis.yes': 'Yes',
+  'analysis.no': 'No',
+
+  'metrics.title': 'Pipeline Latency',
+  'metrics.turnLatency': 'Voice-to-voice (user stops → bot speaks)',
+  'metrics.turn': 'Turn',
+  'metrics.ttfb': 'Time to first byte',
+  'metrics.processing': 'Processing time',
+  'metrics.noData': 'No data yet',
+
+  'bot.title': 'Bot Configuration',
+  'bot.reload': 'Reload',
+  'bot.editingLive': 'Editing the live bot. Blank fields are left unchanged.',
+  'bot.offline': 'Not connected. The selected preset is sent to the server when you connect.',
+  'bot.llmModel': 'LLM model',
+  'bot.systemPrompt': 'System prompt',
+  'bot.serverDefault': 'Server default',
+  'bot.ttsVoice': 'TTS voice',
+  'bot.voiceId': 'Voice id',
+  'bot.sttLanguage': 'STT language',
+  'bot.languageExample': 'e.g. en',
+  'bot.interrupt': 'Interrupt the current response',
+  'bot.apply': 'Apply live',
+  'bot.applying': 'Applying...',
+  'bot.applied': 'Bot config updated.',
+  'bot.readFailed': 'Could not read bot config: {reason}',
+  'bot.updateRejected': 'Bot rejected the update: {reason}',
+  'bot.presets': 'Presets',
+  'bot.sentOnConnect': 'Sent on connect',
+  'bot.noPreset': 'None (server defaults)',
+  'bot.presetName': 'Preset name',
+  'bot.savePreset': 'Save the fields above as a preset',
+  'bot.deletePreset': 'Delete the selected preset',
+
+  'settings.devices': 'Devices',
+  'settings.speaker': 'Speaker',
+  'settings.noDevices': 'No devices found',
+  'settings.systemDefault': 'System default',
+  'settings.unnamedDevice': '{label} {index}',
+  'settings.micMode': 'Microphone mode',
+  'settings.micMode.open': 'Open mic',
+  'settings.micMode.openHint': 'The bot listens whenever you speak',
+  'settings.micMode.pushToTalk': 'Push to talk',
+  'settings.micMode.pushToTalkHint': 'Hold the talk key or button to speak',
+  'settings.micMode.holdKey': 'Hold {key} or the mic button',
+  'settings.deviceCheck': 'Run device check',
+  'settings.deviceCheckDisconnect': 'Disconnect to run the device check',
+
+  'config.loading': 'Loading configuration…',
+  'config.title': 'Configuration',
+  'config.disconnectFirst': 'Disconnect to change connection settings.',
+  'config.key.serverUrl': 'Server URL',
+  'config.key.connectEndpoint': 'Connect endpoint',
+  'config.key.transport': 'Transport',
+  'config.key.enableAnalytics': 'Analytics tab',
+  'config.key.maxFileSize': 'Max file size (bytes)',
+  'config.key.uploadChunkSize': 'Upload chunk size (bytes)',
+  'config.key.allowedFileTypes': 'Allowed file types (comma separated)',
+  'config.source.default': 'default',
+  'config.source.env': 'build env',
+  'config.source.file': 'config.json',
+  'config.source.user': 'saved',
+  'config.source.query': 'URL',
+  'config.removeOverride': 'Remove saved override',
+  'config.setByUrl': 'Set by the URL; saved values apply without ?{key}=',
+  'config.save': 'Save overrides',
+  'config.resetAll': 'Reset all',
+  'config.issue': '{key}: {message} (ignored)',
+  'config.expected.httpUrl': 'expected an http(s) URL',
+  'config.expected.path': 'expected a path starting with /',
+  'config.expected.oneOf': 'expected one of: {options}',
+  'config.expected.boolean': 'expected true or false',
+  'config.expected.positiveInt': 'expected a positive whole number',
+  'config.expected.fileTypes': 'expected at least one file type',
+  'config.unknownSetting': 'unknown setting',
+  'config.notFromUrl': 'can\'t be set from a link; change it here instead',
+  'config.fileNotObject': '{url} must contain a JSON object',
+  'config.fileFailed': 'could not load {url}: {reason}',
+  'config.resolved': 'Resolved configuration',
+
+  'export.title': 'Export Conversation',
+  'export.needsVoice': 'Subtitles need at least one voice turn',
+  'export.import': 'Import JSON',
+  'export.defaultTitle': 'Conversation',
+
+  'import.notJson': 'File is not valid JSON',
+  'import.notExport': 'File is not a conversation export',
+  'import.version': 'Unsupported export version: {version}',
+  'import.incomplete': 'Export is missing messages, files or startedAt',
+  'import.badMessage': 'Message {index} is malformed',
+  'import.badFile': 'File entry {index} is malformed',
+
+  'history.untitled': 'Session {date}',
+  'history.search': 'Search sessions...',
+  'history.close': 'Close history',
+  'history.disconnectFirst': 'Disconnect to open a past session.',
+  'history.empty': 'No past sessions yet',
+  'history.noMatches': 'No sessions match your search',
+  'history.messages': { one: '{count} message', other: '{count} messages' },
+  'history.files': { one: '{count} file', other: '{count} files' },
+  'history.live': 'live',
+  'history.open': 'Open',
+  'history.continue': 'Continue',
+  'history.continueHint': 'Open and give this conversation to the bot on the next connect',
+  'history.rename': 'Rename',
+  'history.saveName': 'Save name',
+  'history.confirmDelete': 'Delete "{title}"?',
+
+  'recording.title': 'Record this session',
+  'recording.intro': 'Your microphone and the bot\'s audio are recorded on this device, together with the transcript. Nothing is uploaded; you download the recording when it ends.',
+  'recording.video': 'Video',
+  'recording.source.none': 'Audio only',
+  'recording.source.bot': 'Bot video',
+  'recording.source.screen': 'My screen share',
+  'recording.notActive': '(not active)',
+  'recording.consent': 'I consent to this session being recorded, and everyone else taking part has been told and agreed.',
+  'recording.start': 'Start recording',
+  'recording.rec': 'REC',
+  'recording.stop': 'Stop recording',
+  'recording.ready': 'Recording ready · {size}',
+  'recording.download': 'Download recording bundle',
+  'recording.discard': 'Discard recording',
+  'recording.record': 'Record session',
+  'recording.connectFirst': 'Connect to record',
+  'recording.packageFailed': 'Could not package the recording',
+  'recording.unsupported': 'Recording is not supported in this browser',
+
+  'shortcuts.title': 'Keyboard shortcuts',
+  'shortcuts.action.pushToTalk': 'Push to talk (hold)',
+  'shortcuts.action.toggleMic': 'Mute / unmute microphone',
+  'shortcuts.action.toggleCamera': 'Camera on / off',
+  'shortcuts.action.toggleChat': 'Show / hide text chat',
+  'shortcuts.action.toggleConnection': 'Connect / disconnect',
+  'shortcuts.action.interruptBot': 'Interrupt the bot',
+  'shortcuts.action.nextTab': 'Next tab',
+  'shortcuts.action.previousTab': 'Previous tab',
+  'shortcuts.action.showShortcuts': 'Show keyboard shortcuts',
+  'shortcuts.recordingHint': 'Press a key combination, Esc to cancel, Backspace to clear',
+  'shortcuts.change': 'Click to change',
+  'shortcuts.pressKeys': 'Press keys…',
+  'shortcuts.unassigned': 'Unassigned',
+  'shortcuts.conflicts': 'Some keys are assigned twice; only the first action listed will run.',
+  'shortcuts.typingHint': 'Keys without Ctrl, Alt or Meta are ignored while typing.',
+  'shortcuts.reset': 'Reset defaults',
+
+  'functions.title': 'The bot wants to run {name}',
+  'functions.moreWaiting': { one: '{count} more waiting', other: '{count} more waiting' },
+  'functions.deny': 'Deny',
+  'functions.allow': 'Allow once',
+  'functions.called': 'Bot called {name}({args})',
+  'functions.returned': '{name} returned {result}',
+  'functions.failed': '{name} failed: {reason}',
+  'functions.declined': 'You declined {name}',
+
+  'markdown.copy': 'Copy',
+  'markdown.copied': 'Copied',
+  'markdown.copyCode': 'Copy code',
+  'markdown.code': 'code',
+  'markdown.loadImage': 'Load image from {host}',
+
+  'panel.crashed': '{name} stopped working',
+  'panel.tryAgain': 'Try again',
+  'panel.generic': 'Panel',
+
+  'system.welcome': 'Welcome! Connect to start your multi-modal AI conversation.',
+  'system.sharedOnConnect': 'This conversation will be shared with the bot when you connect.',
+  'system.fileUploaded': 'File uploaded: {name}',
+  'system.analyzingFile': 'Analyzing file: {name}',
+  'system.queuedAnalysis': 'Queued analysis: {name} (sent once reconnected)',
+  'system.screenSharingStarted': 'Screen sharing started',
+  'system.screenSharingStopped': 'Screen sharing stopped',
+  'system.recordingStarted': 'Recording started',
+  'system.recordingStopped': 'Recording stopped',
+
+  'notify.importFailed': 'Import failed',
+  'notify.screenShareNotSent': 'The bot was not told about screen sharing',
+  'notify.analysisFailed': 'Analysis of {name} failed',
+  'notify.recordingFailed': 'Recording failed',
+  'notify.connectFailed': 'Could not connect',
+  'notify.sessionError': 'Session error',
+  'notify.botError': 'Bot error',
+  'notify.requestRejected': 'Request rejected',
+  'notify.botLeft': 'The bot left the session',
+  'notify.unknownError': 'Unknown error',
+  'notify.historyLoadFailed': 'Could not load session history',
+  'notify.sessionSaveFailed': 'This session could not be saved',
+  'notify.sessionOpenFailed': 'Could not open the session',
+  'notify.sessionRenameFailed': 'Could not rename the session',
+  'notify.sessionDeleteFailed': 'Could not delete the session',
+  'notify.contextRestoreFailed': 'The previous conversation was not passed to the bot',
+  'notify.devicesFailed': 'Could not access media devices',
+  'notify.interruptFailed': 'Could not interrupt the bot',
+  'notify.source.connection': 'Connection',
+  'notify.source.bot': 'Bot',
+  'notify.source.files': 'Files',
+  'notify.source.screen': 'Screen',
+  'notify.source.export': 'Export',
+  'notify.source.recording': 'Recording',
+  'notify.source.history': 'History',
+  'notify.source.devices': 'Devices',
+
+  'notifications.title': 'Notifications',
+  'notifications.unread': { one: 'Notifications ({count} unread)', other: 'Notifications ({count} unread)' },
+  'notifications.clear': 'Clear all',
+  'notifications.empty': 'No notifications yet.',
+  'notifications.remove': 'Remove',
+
+  'failure.invalidRequest': 'Invalid request: {detail}',
+  'failure.invalidResponse': 'Unexpected response from the bot: {detail}',
+  'failure.notReady': 'The bot is not ready: {detail}',
+  'failure.server': 'The bot reported an error: {detail}',
+  'failure.transport': 'Connection problem: {detail}',
+
+  'precall.title': 'Check your setup: {check}',
+  'precall.ready': 'Ready to join',
+  'precall.step': '{step} / {total}',
+  'precall.check.permissions': 'Permissions',
+  'precall.check.microphone': 'Microphone',
+  'precall.check.camera': 'Camera',
+  'precall.check.speaker': 'Speakers',
+  'precall.check.network': 'Network',
+  'precall.status.pending': 'not checked',
+  'precall.status.running': 'checking',
+  'precall.status.pass': 'passed',
+  'precall.status.warn': 'needs attention',
+  'precall.status.fail': 'failed',
+  'precall.notChecked': 'Not checked yet',
+  'precall.checking': 'Checking…',
+  'precall.permissions.intro': 'The assistant needs your microphone, and your camera if you want to share video. Your browser will ask for permission.',
+  'precall.permissions.allow': 'Allow access',
+  'precall.permissions.askAgain': 'Ask again',
+  'precall.permissions.unsupported': 'This browser cannot access media devices',
+  'precall.permissions.allowed': 'Microphone and camera allowed',
+  'precall.permissions.micOnly': 'Microphone allowed; the camera is unavailable',
+  'precall.permissions.micFailed': 'The microphone could not be opened',
+  'precall.error.blocked': 'Access was blocked. Allow it in the browser\'s site settings.',
+  'precall.error.notFound': 'No device was found',
+  'precall.error.inUse': 'The device is in use by another application',
+  'precall.error.other': 'The device could not be opened',
+  'precall.microphone.speak': 'Say something to test your microphone',
+  'precall.microphone.working': 'Microphone is working',
+  'precall.microphone.record': 'Record a {seconds} s test',
+  'precall.microphone.recording': 'Recording…',
+  'precall.camera.working': 'Camera is working',
+  'precall.speaker.play': 'Play test tone',
+  'precall.speaker.question': 'Did you hear the tone?',
+  'precall.speaker.yes': 'I heard it',
+  'precall.speaker.no': 'I didn\'t hear it',
+  'precall.speaker.heard': 'Test tone heard',
+  'precall.speaker.notHeard': 'Test tone not heard; check the output device and volume',
+  'precall.network.checking': 'Checking that this server can be reached:',
+  'precall.network.notConfigured': '(not configured)',
+  'precall.network.again': 'Check again',
+  'precall.network.noUrl': 'No server URL is configured',
+  'precall.network.slow': 'Reachable, but slow ({ms} ms)',
+  'precall.network.reachable': 'Reachable in {ms} ms',
+  'precall.network.timeout': 'The server did not answer in time',
+  'precall.network.unreachable': 'Could not reach {url}',
+  'precall.summary.pass': 'Everything looks good',
+  'precall.summary.warn': 'You can join, but some checks need attention',
+  'precall.summary.fail': 'Some checks failed',
+  'precall.joinMic': 'Join with microphone on',
+  'precall.joinCam': 'Join with camera on',
+  'precall.skip': 'Skip checks',
+  'precall.back': 'Back',
+  'precall.next': 'Next',
+  'precall.continue': 'Continue',
+
+  'language.title': 'Language',
+  'language.interface': 'Interface language',
+  'language.spoken': 'Spoken language',
+  'language.followInterface': 'Same as interface ({language})',
+  'language.spokenHint': 'Sent to the bot when you connect, so speech recognition and the voice match.',
+  'language.appliesNextConnect': 'Takes effect the next time you connect.',
+
+  'a11y.botSaid': 'Assistant: {text}'
+} as const;
+
+export type MessageKey = keyof typeof en;
@@ -0,0 +1,443 @@
+import type { Catalog } from '../i18n';
+
+export const es: Catalog = {
+  'app.title': 'Asistente de IA avanzado',
+  'app.subtitle': 'Conversación multimodal con voz, texto, archivos y pantalla compartida',
+  'app.transportFailed': 'No se pudo iniciar el transporte',
+  'app.transportFailedSaved': 'Puede que la causa sean tus ajustes de conexión guardados. Restablecerlos recupera los valores predeterminados.',
+  'app.transportFailedDeployed': 'Revisa el transporte en la configuración del despliegue (config.json, variables de compilación o URL).',
+  'app.resetSettings': 'Restablecer ajustes guardados',
+  'app.crashTitle': 'Algo salió mal',
+  'app.crashBody': 'Recarga la página o inténtalo de nuevo más tarde.',
+  'app.crashRefresh': 'Recargar página',
+
+  'common.cancel': 'Cancelar',
+  'common.dismiss': 'Descartar',
+  'common.retry': 'Reintentar',
+  'common.delete': 'Eliminar',
+  'common.refresh': 'Actualizar',
+  'common.noKey': 'sin tecla asignada',
+  'common.close': 'Cerrar',
+
+  'header.shortcuts': 'Atajos de teclado ({combo})',
+  'header.history': 'Historial de sesiones',
+  'header.language': 'Idioma',
+
+  'tabs.chat': 'Chat',
+  'tabs.files': 'Archivos',
+  'tabs.screen': 'Pantalla',
+  'tabs.analytics': 'Estadísticas',
+  'tabs.bot': 'Bot',
+  'tabs.settings': 'Ajustes',
+  'tabs.chatHint': 'El chat se muestra debajo del vídeo',
+  'tabs.chatToggleHint': 'Muéstralo u ocúltalo con el botón de arriba',
+  'tabs.label': 'Paneles',
+
+  'connection.state.disconnected': 'Desconectado',
+  'connection.state.initializing': 'Inicializando',
+  'connection.state.initialized': 'Inicializado',
+  'connection.state.authenticating': 'Autenticando',
+  'connection.state.connecting': 'Conectando',
+  'connection.state.connected': 'Conectado',
+  'connection.state.ready': 'Listo',
+  'connection.state.disconnecting': 'Desconectando',
+  'connection.state.error': 'Error',
+  'connection.reconnecting': 'Reconectando (intento {attempt})',
+  'connection.failed': { one: 'La reconexión falló tras {count} intento', other: 'La reconexión falló tras {count} intentos' },
+  'connection.queued': { one: '{count} en cola', other: '{count} en cola' },
+  'connection.queuedHint': 'Se enviarán automáticamente al reconectar',
+  'connection.connect': 'Conectar',
+  'connection.disconnect': 'Desconectar',
+
+  'video.assistant': 'Asistente de IA',
+  'video.connectPrompt': 'Conéctate para empezar la conversación',
+  'video.panel': 'Vídeo',
+  'video.participants': { one: '{count} conectado', other: '{count} conectados' },
+  'video.holdToTalk': 'Mantén pulsado para hablar',
+  'video.holdToTalkTitle': 'Mantén pulsado para hablar ({key})',
+  'video.talking': 'Hablando…',
+  'video.mute': 'Silenciar micrófono',
+  'video.unmute': 'Activar micrófono',
+  'video.cameraOff': 'Apagar cámara',
+  'video.cameraOn': 'Encender cámara',
+  'video.showCaptions': 'Mostrar subtítulos',
+  'video.hideCaptions': 'Ocultar subtítulos',
+  'video.interrupt': 'Interrumpir',
+  'video.interruptTitle': 'Interrumpir al bot ({key})',
+  'video.showChat': 'Mostrar chat de texto',
+  'video.hideChat': 'Ocultar chat de texto',
+  'video.micOff': 'Micrófono apagado',
+  'video.pin': 'Fijar',
+  'video.unpin': 'Dejar de fijar',
+  'video.fullscreen': 'Pantalla completa',
+  'video.exitFullscreen': 'Salir de pantalla completa',
+
+  'participants.you': 'Tú',
+  'participants.guest': 'Invitado',
+  'participants.yourScreen': 'Tu pantalla',
+
+  'voice.listening': 'Escuchando',
+  'voice.userSpeaking': 'Estás hablando',
+  'voice.thinking': 'Pensando…',
+  'voice.botSpeaking': 'El bot está hablando',
+  'voice.you': 'Tú',
+  'voice.bot': 'Bot',
+  'voice.muted': '{label} (silenciado)',
+
+  'captions.title': 'Subtítulos',
+  'captions.enable': 'Mostrar subtítulos en directo sobre el vídeo',
+  'captions.showUser': 'Incluir lo que digo',
+  'captions.fontSize': 'Tamaño del texto',
+  'captions.size.small': 'Pequeño',
+  'captions.size.medium': 'Mediano',
+  'captions.size.large': 'Grande',
+  'captions.size.xlarge': 'Muy grande',
+  'captions.position': 'Posición',
+  'captions.bottom': 'Abajo',
+  'captions.top': 'Arriba',
+  'captions.opacity': 'Opacidad del fondo',
+  'captions.lines': 'Líneas visibles',
+  'captions.youSaid': 'Tú:',
+
+  'chat.title': 'Chat de texto',
+  'chat.panel': 'Chat',
+  'chat.live': 'En directo',
+  'chat.empty': 'Empieza la conversación...',
+  'chat.placeholder': 'Escribe un mensaje...',
+  'chat.send': 'Enviar',
+  'chat.notSent': 'No enviado',
+  'chat.notSentReason': 'No enviado: {reason}',
+  'chat.copy': 'Copiar mensaje',
+  'chat.edit': 'Editar y reenviar',
+  'chat.pending': 'Enviando…',
+  'chat.queued': 'En cola hasta reconectar',
+  'chat.sent': 'Entregado',
+
+  'files.checking': 'Comprobando archivos...',
+  'files.dropzone': 'Suelta archivos aquí o haz clic para subirlos',
+  'files.supported': 'Se admiten imágenes, PDF, documentos de Word y archivos de texto',
+  'files.rejected': { one: '{count} archivo rechazado', other: '{count} archivos rechazados' },
+  'files.uploaded': 'Archivos subidos ({count})',
+  'files.none': 'Todavía no hay archivos',
+  'files.openPreview': 'Abrir vista previa',
+  'files.analyze': 'Analizar',
+  'files.invalid.empty': 'El archivo está vacío',
+  'files.invalid.tooLarge': 'El archivo supera el límite de {mb} MB',
+  'files.invalid.unrecognised': 'El contenido no es un documento o imagen reconocido',
+  'files.invalid.notAllowed': 'No se permiten archivos {type}',
+  'files.invalid.mismatch': 'El contenido parece {actual}, pero el archivo dice ser {declared}',
+
+  'uploads.status.uploading': 'Subiendo',
+  'uploads.status.paused': 'Esperando conexión',
+  'uploads.status.failed': 'Error',
+  'uploads.status.completed': 'Completado',
+  'uploads.status.cancelled': 'Cancelado',
+  'uploads.retry': 'Reintentar subida',
+  'uploads.cancel': 'Cancelar subida',
+
+  'preview.close': 'Cerrar vista previa',
+  'preview.loading': 'Cargando vista previa...',
+  'preview.unavailable': 'No hay vista previa disponible para este archivo.',
+  'preview.unknownType': 'Tipo desconocido',
+
+  'screen.title': 'Compartir pantalla',
+  'screen.start': 'Compartir',
+  'screen.stop': 'Dejar de compartir',
+  'screen.choosing': 'Eligiendo...',
+  'screen.active': 'Compartiendo pantalla: la IA puede verla y analizarla',
+  'screen.connectFirst': 'Conéctate para compartir tu pantalla con el asistente.',
+  'screen.hint': 'Comparte tu pantalla para recibir ayuda con aplicaciones, sitios web o cualquier contenido visual.',
+  'screen.failed': 'No se pudo compartir la pantalla: {error}',
+  'screen.surface.tab': 'Pestaña del navegador',
+  'screen.surface.window': 'Ventana',
+  'screen.surface.screen': 'Pantalla completa',
+  'screen.surface.unknown': 'Contenido compartido',
+
+  'analytics.title': 'Estadísticas de la conversación',
+  'analytics.analyzing': 'Analizando...',
+  'analytics.totalMessages': 'Mensajes totales',
+  'analytics.filesProcessed': 'Archivos procesados',
+  'analytics.voiceMessages': 'Mensajes de voz',
+  'analytics.textMessages': 'Mensajes de texto',
+  'analytics.analysis': 'Análisis de la conversación',
+  'analytics.updated': 'Actualizado a las {time}',
+  'analytics.failed': 'El análisis falló: {reason}',
+
+  'analysis.none': 'Ninguno',
+  'analysis.yes': 'Sí',
+  'analysis.no': 'No',
+
+  'metrics.title': 'Latencia del pipeline',
+  'metrics.turnLatency': 'De voz a voz (dejas de hablar → el bot habla)',
+  'metrics.turn': 'Turno',
+  'metrics.ttfb': 'Tiempo hasta el primer byte',
+  'metrics.processing': 'Tiempo de procesamiento',
+  'metrics.noData': 'Aún no hay datos',
+
+  'bot.title': 'Configuración del bot',
+  'bot.reload': 'Recargar',
+  'bot.editingLive': 'Editando el bot en directo. Los campos vacíos no se modifican.',
+  'bot.offline': 'Sin conexión. El preajuste seleccionado se envía al servidor al conectar.',
+  'bot.llmModel': 'Modelo LLM',
+  'bot.systemPrompt': 'Prompt del sistema',
+  'bot.serverDefault': 'Predeterminado del servidor',
+  'bot.ttsVoice': 'Voz TTS',
+  'bot.voiceId': 'Id de voz',
+  'bot.sttLanguage': 'Idioma STT',
+  'bot.languageExample': 'p. ej. es',
+  'bot.interrupt': 'Interrumpir la respuesta actual',
+  'bot.apply': 'Aplicar en directo',
+  'bot.applying': 'Aplicando...',
+  'bot.applied': 'Configuración del bot actualizada.',
+  'bot.readFailed': 'No se pudo leer la configuración del bot: {reason}',
+  'bot.updateRejected': 'El bot rechazó el cambio: {reason}',
+  'bot.presets': 'Preajustes',
+  'bot.sentOnConnect': 'Se envía al conectar',
+  'bot.noPreset': 'Ninguno (valores del servidor)',
+  'bot.presetName': 'Nombre del preajuste',
+  'bot.savePreset': 'Guardar los campos anteriores como preajuste',
+  'bot.deletePreset': 'Eliminar el preajuste seleccionado',
+
+  'settings.devices': 'Dispositivos',
+  'settings.speaker': 'Altavoz',
+  'settings.noDevices': 'No se encontraron dispositivos',
+  'settings.systemDefault': 'Predeterminado del sistema',
+  'settings.unnamedDevice': '{label} {index}',
+  'settings.micMode': 'Modo del micrófono',
+  'settings.micMode.open': 'Micrófono abierto',
+  'settings.micMode.openHint': 'El bot escucha siempre que hablas',
+  'settings.micMode.pushToTalk': 'Pulsar para hablar',
+  'settings.micMode.pushToTalkHint': 'Mantén pulsada la tecla o el botón para hablar',
+  'settings.micMode.holdKey': 'Mantén pulsado {key} o el botón del micrófono',
+  'settings.deviceCheck': 'Comprobar dispositivos',
+  'settings.deviceCheckDisconnect': 'Desconéctate para comprobar los dispositivos',
+
+  'config.loading': 'Cargando configuración…',
+  'config.title': 'Configuración',
+  'config.disconnectFirst': 'Desconéctate para cambiar los ajustes de conexión.',
+  'config.key.serverUrl': 'URL del servidor',
+  'config.key.connectEndpoint': 'Endpoint de conexión',
+  'config.key.transport': 'Transporte',
+  'config.key.enableAnalytics': 'Pestaña de análisis',
+  'config.key.maxFileSize': 'Tamaño máximo de archivo (bytes)',
+  'config.key.uploadChunkSize': 'Tamaño de fragmento de subida (bytes)',
+  'config.key.allowedFileTypes': 'Tipos de archivo permitidos (separados por comas)',
+  'config.source.default': 'predeterminado',
+  'config.source.env': 'entorno de compilación',
+  'config.source.file': 'config.json',
+  'config.source.user': 'guardado',
+  'config.source.query': 'URL',
+  'config.removeOverride': 'Quitar el valor guardado',
+  'config.setByUrl': 'Definido por la URL; los valores guardados se aplican sin ?{key}=',
+  'config.save': 'Guardar cambios',
+  'config.resetAll': 'Restablecer todo',
+  'config.issue': '{key}: {message} (ignorado)',
+  'config.expected.httpUrl': 'se esperaba una URL http(s)',
+  'config.expected.path': 'se esperaba una ruta que empiece por /',
+  'config.expected.oneOf': 'se esperaba uno de: {options}',
+  'config.expected.boolean': 'se esperaba true o false',
+  'config.expected.positiveInt': 'se esperaba un número entero positivo',
+  'config.expected.fileTypes': 'se esperaba al menos un tipo de archivo',
+  'config.unknownSetting': 'ajuste desconocido',
+  'config.notFromUrl': 'no se puede fijar desde un enlace; cámbialo aquí',
+  'config.fileNotObject': '{url} debe contener un objeto JSON',
+  'config.fileFailed': 'no se pudo cargar {url}: {reason}',
+  'config.resolved': 'Configuración resuelta',
+
+  'export.title': 'Exportar conversación',
+  'export.needsVoice': 'Los subtítulos necesitan al menos un turno de voz',
+  'export.import': 'Importar JSON',
+  'export.defaultTitle': 'Conversación',
+
+  'import.notJson': 'El archivo no es JSON válido',
+  'import.notExport': 'El archivo no es una exportación de conversación',
+  'import.version': 'Versión de exportación no compatible: {version}',
+  'import.incomplete': 'A la exportación le faltan messages, files o startedAt',
+  'import.badMessage': 'El mensaje {index} está mal formado',
+  'import.badFile': 'La entrada de archivo {index} está mal formada',
+
+  'history.untitled': 'Sesión del {date}',
+  'history.search': 'Buscar sesiones...',
+  'history.close': 'Cerrar historial',
+  'history.disconnectFirst': 'Desconéctate para abrir una sesión anterior.',
+  'history.empty': 'Aún no hay sesiones anteriores',
+  'history.noMatches': 'Ninguna sesión coincide con la búsqueda',
+  'history.messages': { one: '{count} mensaje', other: '{count} mensajes' },
+  'history.files': { one: '{count} archivo', other: '{count} archivos' },
+  'history.live': 'en directo',
+  'history.open': 'Abrir',
+  'history.continue': 'Continuar',
+  'history.continueHint': 'Abrir y pasar esta conversación al bot en la próxima conexión',
+  'history.rename': 'Renombrar',
+  'history.saveName': 'Guardar nombre',
+  'history.confirmDelete': '¿Eliminar «{title}»?',
+
+  'recording.title': 'Grabar esta sesión',
+  'recording.intro': 'Tu micrófono y el audio del bot se graban en este dispositivo, junto con la transcripción. No se sube nada; descargas la grabación al terminar.',
+  'recording.video': 'Vídeo',
+  'recording.source.none': 'Solo audio',
+  'recording.source.bot': 'Vídeo del bot',
+  'recording.source.screen': 'Mi pantalla compartida',
+  'recording.notActive': '(no activo)',
+  'recording.consent': 'Doy mi consentimiento para grabar esta sesión, y el resto de participantes lo sabe y está de acuerdo.',
+  'recording.start': 'Empezar a grabar',
+  'recording.rec': 'REC',
+  'recording.stop': 'Detener grabación',
+  'recording.ready': 'Grabación lista · {size}',
+  'recording.download': 'Descargar el paquete de la grabación',
+  'recording.discard': 'Descartar grabación',
+  'recording.record': 'Grabar sesión',
+  'recording.connectFirst': 'Conéctate para grabar',
+  'recording.packageFailed': 'No se pudo empaquetar la grabación',
+  'recording.unsupported': 'Este navegador no permite grabar',
+
+  'shortcuts.title': 'Atajos de teclado',
+  'shortcuts.action.pushToTalk': 'Pulsar para hablar (mantener)',
+  'shortcuts.action.toggleMic': 'Silenciar / activar micrófono',
+  'shortcuts.action.toggleCamera': 'Encender / apagar cámara',
+  'shortcuts.action.toggleChat': 'Mostrar / ocultar chat de texto',
+  'shortcuts.action.toggleConnection': 'Conectar / desconectar',
+  'shortcuts.action.interruptBot': 'Interrumpir al bot',
+  'shortcuts.action.nextTab': 'Pestaña siguiente',
+  'shortcuts.action.previousTab': 'Pestaña anterior',
+  'shortcuts.action.showShortcuts': 'Mostrar atajos de teclado',
+  'shortcuts.recordingHint': 'Pulsa una combinación de teclas, Esc para cancelar, Retroceso para borrar',
+  'shortcuts.change': 'Haz clic para cambiar',
+  'shortcuts.pressKeys': 'Pulsa las teclas…',
+  'shortcuts.unassigned': 'Sin asignar',
+  'shortcuts.conflicts': 'Algunas teclas están asignadas dos veces; solo se ejecutará la primera acción de la lista.',
+  'shortcuts.typingHint': 'Las teclas sin Ctrl, Alt o Meta se ignoran mientras escribes.',
+  'shortcuts.reset': 'Restablecer valores predeterminados',
+
+  'functions.title': 'El bot quiere ejecutar {name}',
+  'functions.moreWaiting': { one: '{count} más en espera', other: '{count} más en espera' },
+  'functions.deny': 'Denegar',
+  'functions.allow': 'Permitir una vez',
+  'functions.called': 'El bot llamó a {name}({args})',
+  'functions.returned': '{name} devolvió {result}',
+  'functions.failed': '{name} falló: {reason}',
+  'functions.declined': 'Rechazaste {name}',
+
+  'markdown.copy': 'Copiar',
+  'markdown.copied': 'Copiado',
+  'markdown.copyCode': 'Copiar código',
+  'markdown.code': 'código',
+  'markdown.loadImage': 'Cargar imagen de {host}',
+
+  'panel.crashed': '{name} dejó de funcionar',
+  'panel.tryAgain': 'Reintentar',
+  'panel.generic': 'Panel',
+
+  'system.welcome': '¡Bienvenido! Conéctate para empezar tu conversación multimodal con la IA.',
+  'system.sharedOnConnect': 'Esta conversación se compartirá con el bot al conectarte.',
+  'system.fileUploaded': 'Archivo subido: {name}',
+  'system.analyzingFile': 'Analizando archivo: {name}',
+  'system.queuedAnalysis': 'Análisis en cola: {name} (se enviará al reconectar)',
+  'system.screenSharingStarted': 'Has empezado a compartir la pantalla',
+  'system.screenSharingStopped': 'Has dejado de compartir la pantalla',
+  'system.recordingStarted': 'Grabación iniciada',
+  'system.recordingStopped': 'Grabación detenida',
+
+  'notify.importFailed': 'La importación falló',
+  'notify.screenShareNotSent': 'No se pudo avisar al bot de que compartes pantalla',
+  'notify.analysisFailed': 'Falló el análisis de {name}',
+  'notify.recordingFailed': 'La grabación falló',
+  'notify.connectFailed': 'No se pudo conectar',
+  'notify.sessionError': 'Error de sesión',
+  'notify.botError': 'Error del bot',
+  'notify.requestRejected': 'Solicitud rechazada',
+  'notify.botLeft': 'El bot abandonó la sesión',
+  'notify.unknownError': 'Error desconocido',
+  'notify.historyLoadFailed': 'No se pudo cargar el historial de sesiones',
+  'notify.sessionSaveFailed': 'No se pudo guardar esta sesión',
+  'notify.sessionOpenFailed': 'No se pudo abrir la sesión',
+  'notify.sessionRenameFailed': 'No se pudo renombrar la sesión',
+  'notify.sessionDeleteFailed': 'No se pudo eliminar la sesión',
+  'notify.contextRestoreFailed': 'La conversación anterior no se pasó al bot',
+  'notify.devicesFailed': 'No se pudo acceder a los dispositivos multimedia',
+  'notify.interruptFailed': 'No se pudo interrumpir al bot',
+  'notify.source.connection': 'Conexión',
+  'notify.source.bot': 'Bot',
+  'notify.source.files': 'Archivos',
+  'notify.source.screen': 'Pantalla',
+  'notify.source.export': 'Exportación',
+  'notify.source.recording': 'Grabación',
+  'notify.source.history': 'Historial',
+  'notify.source.devices': 'Dispositivos',
+
+  'notifications.title': 'Notificaciones',
+  'notifications.unread': { one: 'Notificaciones ({count} sin leer)', other: 'Notificaciones ({count} sin leer)' },
+  'notifications.clear': 'Borrar todo',
+  'notifications.empty': 'Aún no hay notificaciones.',
+  'notifications.remove': 'Quitar',
+
+  'failure.invalidRequest': 'Solicitud no válida: {detail}',
+  'failure.invalidResponse': 'Respuesta inesperada del bot: {detail}',
+  'failure.notReady': 'El bot no está listo: {detail}',
+  'failure.server': 'El bot informó de un error: {detail}',
+  'failure.transport': 'Problema de conexión: {detail}',
+
+  'precall.title': 'Comprueba tu equipo: {check}',
+  'precall.ready': 'Listo para entrar',
+  'precall.step': '{step} / {total}',
+  'precall.check.permissions': 'Permisos',
+  'precall.check.microphone': 'Micrófono',
+  'precall.check.camera': 'Cámara',
+  'precall.check.speaker': 'Altavoces',
+  'precall.check.network': 'Red',
+  'precall.status.pending': 'sin comprobar',
+  'precall.status.running': 'comprobando',
+  'precall.status.pass': 'correcto',
+  'precall.status.warn': 'requiere atención',
+  'precall.status.fail': 'con errores',
+  'precall.notChecked': 'Aún sin comprobar',
+  'precall.checking': 'Comprobando…',
+  'precall.permissions.intro': 'El asistente necesita tu micrófono, y tu cámara si quieres compartir vídeo. El navegador te pedirá permiso.',
+  'precall.permissions.allow': 'Permitir acceso',
+  'precall.permissions.askAgain': 'Volver a pedir',
+  'precall.permissions.unsupported': 'Este navegador no puede acceder a los dispositivos multimedia',
+  'precall.permissions.allowed': 'Micrófono y cámara permitidos',
+  'precall.permissions.micOnly': 'Micrófono permitido; la cámara no está disponible',
+  'precall.permissions.micFailed': 'No se pudo abrir el micrófono',
+  'precall.error.blocked': 'Se bloqueó el acceso. Permítelo en los ajustes del sitio del navegador.',
+  'precall.error.notFound': 'No se encontró ningún dispositivo',
+  'precall.error.inUse': 'Otra aplicación está usando el dispositivo',
+  'precall.error.other': 'No se pudo abrir el dispositivo',
+  'precall.microphone.speak': 'Di algo para probar el micrófono',
+  'precall.microphone.working': 'El micrófono funciona',
+  'precall.microphone.record': 'Grabar una prueba de {seconds} s',
+  'precall.microphone.recording': 'Grabando…',
+  'precall.camera.working': 'La cámara funciona',
+  'precall.speaker.play': 'Reproducir tono de prueba',
+  'precall.speaker.question': '¿Has oído el tono?',
+  'precall.speaker.yes': 'Lo he oído',
+  'precall.speaker.no': 'No lo he oído',
+  'precall.speaker.heard': 'Tono de prueba oído',
+  'precall.speaker.notHeard': 'No se oyó el tono; revisa el dispositivo de salida y el volumen',
+  'precall.network.checking': 'Comprobando que se puede acceder a este servidor:',
+  'precall.network.notConfigured': '(sin configurar)',
+  'precall.network.again': 'Volver a comprobar',
+  'precall.network.noUrl': 'No hay ninguna URL de servidor configurada',
+  'precall.network.slow': 'Accesible, pero lento ({ms} ms)',
+  'precall.network.reachable': 'Accesible en {ms} ms',
+  'precall.network.timeout': 'El servidor no respondió a tiempo',
+  'precall.network.unreachable': 'No se pudo acceder a {url}',
+  'precall.summary.pass': 'Todo parece correcto',
+  'precall.summary.warn': 'Puedes entrar, pero algunas comprobaciones requieren atención',
+  'precall.summary.fail': 'Algunas comprobaciones fallaron',
+  'precall.joinMic': 'Entrar con el micrófono activado',
+  'precall.joinCam': 'Entrar con la cámara activada',
+  'precall.skip': 'Omitir comprobaciones',
+  'precall.back': 'Atrás',
+  'precall.next': 'Siguiente',
+  'precall.continue': 'Continuar',
+
+  'language.title': 'Idioma',
+  'language.interface': 'Idioma de la interfaz',
+  'language.spoken': 'Idioma hablado',
+  'language.followInterface': 'El de la interfaz ({language})',
+  'language.spokenHint': 'Se envía al bot al conectarte para que el reconocimiento de voz y la voz coincidan.',
+  'language.appliesNextConnect': 'Se aplicará la próxima vez que te conectes.',
+
+  'a11y.botSaid': 'Asistente: {text}'
+};
@@ -0,0 +1,223 @@
+// A small Markdown parser for chat messages. It produces a tree that the
+// renderer turns into React elements, so raw HTML in a message is never
+// interpreted and every URL goes through safeUrl(). Covers what LLM answers
+// actually use: headings, paragraphs, fenced code, lists, block quotes,
+// tables, rules, emphasis, inline code, links, images and bare URLs.
+
+export type Inline =
+  | { type: 'text'; text: string }
+  | { type: 'code'; text: string }
+  | { type: 'strong' | 'em' | 'del'; children: Inline[] }
+  | { type: 'link'; href: string; children: Inline[] }
+  | { type: 'image'; src: string; alt: string; remote: boolean }
+  | { type: 'break' };
+
+export type Align = 'left' | 'center' | 'right' | null;
+
+export type Block =
+  | { type: 'paragraph'; children: Inline[] }
+  | { type: 'heading'; level: number; children: Inline[] }
+  | { type: 'code'; lang: string; text: string }
+  | { type: 'list'; ordered: boolean; start: number; items: Block[][] }
+  | { type: 'quote'; children: Block[] }
+  | { type: 'table'; align: Align[]; header: Inline[][]; rows: Inline[][][] }
+  | { type: 'rule' };
+
+const SAFE_PROTOCOLS = ['http:', 'https:', 'mailto:'];
+const SAFE_IMAGE_DATA = /^data:image\/(png|jpe?g|gif|webp);base64,[a-z0-9+/=\s]+$/i;
+
+// Returns the URL if it is safe to put in href/src, otherwise null. Remote
+// images are allowed here, but the renderer only fetches them on request:
+// loading one unasked would let a reply smuggle data out in its query string.
+export function safeUrl(url: string, kind: 'link' | 'image' = 'link'): string | null {
+  const trimmed = url.trim();
+  if (kind === 'image' && SAFE_IMAGE_DATA.test(trimmed)) return trimmed;
+  try {
+    const parsed = new URL(trimmed);
+    const protocols = kind === 'image' ? ['http:', 'https:'] : SAFE_PROTOCOLS;
+    return protocols.includes(parsed.protocol) ? parsed.href : null;
+  } catch {
+    return null;
+  }
+}
+
+// --- Inline
+
+const INLINE = new RegExp([
+  /`([^`\n]+)`/.source, // 1 code
+  /!\[([^\]\n]*)\]\(([^)\s]+)(?:\s+"[^"\n]*")?\)/.source, // 2 alt, 3 src
+  /\[([^\]\n]+)\]\(([^)\s]+)(?:\s+"[^"\n]*")?\)/.source, // 4 text, 5 href
+  /<(https?:\/\/[^>\s]+)>/.source, // 6 autolink
+  /(https?:\/\/[^\s<]*[^\s<.,:;"')\]!?*_~])/.source, // 7 bare URL
+  /\*\*(?=\S)([\s\S]+?)\*\*|__(?=\S)([\s\S]+?)__/.source, // 8, 9 strong
+  /~~(?=\S)([\s\S]+?)~~/.source, // 10 del
+  /\*(?=[^\s*])([\s\S]+?)\*|(?<![\w])_(?=\S)([\s\S]+?)_(?![\w])/.source, // 11, 12 em
+  /\n/.source // line break
+].join('|'), 'g');
+
+const linkOrText = (raw: string, href: string, children: Inline[]): Inline => {
+  const safe = safeUrl(href);
+  return safe ? { type: 'link', href: safe, children } : { type: 'text', text: raw };
+};
+
+export function parseInline(text: string): Inline[] {
+  const out: Inline[] = [];
+  const pushText = (value: string) => {
+    if (!value) return;
+    const last = out[out.length - 1];
+    if (last?.type === 'text') last.text += value;
+    else out.push({ type: 'text', text: value });
+  };
+
+  let index = 0;
+  for (const m of text.matchAll(INLINE)) {
+    pushText(text.slice(index, m.index));
+    index = (m.index ?? 0) + m[0].length;
+
+    if (m[1] !== undefined) out.push({ type: 'code', text: m[1] });
+    else if (m[3] !== undefined) {
+      const src = safeUrl(m[3], 'image');
+      if (src) out.push({ type: 'image', src, alt: m[2], remote: !src.startsWith('data:') });
+      else pushText(m[0]);
+    }
+    else if (m[5] !== undefined) out.push(linkOrText(m[0], m[5], parseInline(m[4])));
+    else if (m[6] !== undefined) out.push(linkOrText(m[0], m[6], [{ type: 'text', text: m[6] }]));
+    else if (m[7] !== undefined) out.push(linkOrText(m[0], m[7], [{ type: 'text', text: m[7] }]));
+    else if (m[8] !== undefined || m[9] !== undefined) {
+      out.push({ type: 'strong', children: parseInline(m[8] ?? m[9]) });
+    }
+    else if (m[10] !== undefined) out.push({ type: 'del', children: parseInline(m[10]) });
+    else if (m[11] !== undefined || m[12] !== undefined) {
+      out.push({ type: 'em', children: parseInline(m[11] ?? m[12]) });
+    }
+    else out.push({ type: 'break' });
+  }
+  pushText(text.slice(index));
+  return out;
+}
+
+// --- Blocks
+
+const FENCE = /^ {0,3}(`{3,}|~{3,})\s*([\w+#.-]*)/;
+const HEADING = /^ {0,3}(#{1,6})\s+(.*?)\s*#*\s*$/;
+const RULE = /^ {0,3}([-*_])(\s*\1){2,}\s*$/;
+const QUOTE = /^ {0,3}>\s?/;
+const LIST_ITEM = /^( {0,3})([-*+]|\d{1,9}[.)])\s+(.*)$/;
+const TABLE_DIVIDER = /^\s*\|?\s*:?-+:?\s*(\|\s*:?-+:?\s*)*\|?\s*$/;
+
+const splitRow = (line: string) =>
+  line.trim().replace(/^\|/, '').replace(/\|$/, '').split(/(?<!\\)\|/).map(cell => cell.trim().replace(/\\\|/g, '|'));
+
+const alignOf = (cell: string): Align => {
+  const left = cell.startsWith(':');
+  const right = cell.endsWith(':');
+  return left && right ? 'center' : right ? 'right' : left ? 'left' : null;
+};
+
+const startsBlock = (line: string, next?: string) =>
+  FENCE.test(line) || HEADING.test(line) || RULE.test(line) || QUOTE.test(line) || LIST_ITEM.test(line)
+  || (line.includes('|') && next !== undefined && TABLE_DIVIDER.test(next));
+
+function parseLines(lines: string[]): Block[] {
+  const blocks: Block[] = [];
+  let i = 0;
+
+  while (i < lines.length) {
+    const line = lines[i];
+    if (!line.trim()) {
+      i++;
+      continue;
+    }
+
+    const fence = line.match(FENCE);
+    if (fence) {
+      const code: string[] = [];
+      i++;
+      // An unclosed fence runs to the end, which is what a streaming reply looks like
+      while (i < lines.length && !lines[i].trim().startsWith(fence[1])) code.push(lines[i++]);
+      i++;
+      blocks.push({ type: 'code', lang: fence[2].toLowerCase(), text: code.join('\n') });
+      continue;
+    }
+
+    const heading = line.match(HEADING);
+    if (heading) {
+      blocks.push({ type: 'heading', level: heading[1].length, children: parseInline(heading[2]) });
+      i++;
+      continue;
+    }
+
+    if (RULE.test(line)) {
+      blocks.push({ type: 'rule' });
+      i++;
+      continue;
+    }
+
+    if (QUOTE.test(line)) {
+      const quoted: string[] = [];
+      while (i < lines.length && QUOTE.test(lines[i])) quoted.push(lines[i++].replace(QUOTE, ''));
+      blocks.push({ type: 'quote', children: parseLines(quoted) });
+      continue;
+    }
+
+    if (line.includes('|') && i + 1 < lines.length && TABLE_DIVIDER.test(lines[i + 1])) {
+      const header = splitRow(line);
+      const align = splitRow(lines[i + 1]).map(alignOf);
+      const rows: Inline[][][] = [];
+      i += 2;
+      while (i < lines.length && lines[i].includes('|') && lines[i].trim()) {
+        const cells = splitRow(lines[i++]);
+        rows.push(header.map((_, col) => parseInline(cells[col] ?? '')));
+      }
+      blocks.push({ type: 'table', align, header: header.map(parseInline), rows });
+      continue;
+    }
+
+    const item = line.match(LIST_ITEM);
+    if (item) {
+      const ordered = /\d/.test(item[2]);
+      const sameList = (text: string) => {
+        const match = text.match(LIST_ITEM);
+        return !!match && match[1].length <= item[1].length && /\d/.test(match[2]) === ordered;
+      };
+      const items: string[][] = [];
+      while (i < lines.length) {
+        const current = lines[i].match(LIST_ITEM);
+        if (current && sameList(lines[i])) {
+          items.push([current[3]]);
+          i++;
+        } else if (lines[i].trim() && /^\s{2,}/.test(lines[i])) {
+          // Indented continuation or nested list
+          items[items.length - 1].push(lines[i].replace(/^\s{2,4}/, ''));
+          i++;
+        } else if (!lines[i].trim() && i + 1 < lines.length && /^\s{2,}\S/.test(lines[i + 1])) {
+          items[items.length - 1].push('');
+          i++;
+        } else if (!lines[i].trim() && i + 1 < lines.length && sameList(lines[i + 1])) {
+          // Blank line between items of a loose list
+          i++;
+        } else {
+          break;
+        }
+      }
+      blocks.push({
+        type: 'list',
+        ordered,
+        start: ordered ? parseInt(item[2], 10) : 1,
+        items: items.map(parseLines)
+      });
+      continue;
+    }
+
+    const paragraph: string[] = [];
+    while (i < lines.length && lines[i].trim() && (paragraph.length === 0 || !startsBlock(lines[i], lines[i + 1]))) {
+      paragraph.push(lines[i++].trim());
+    }
+    blocks.push({ type: 'paragraph', children: parseInline(paragraph.join('\n')) });
+  }
+
+  return blocks;
+}
+
+export const parseMarkdown = (text: string): Block[] =>
+  parseLines(text.replace(/\r\n?/g, '\n').split('\n'));
@@ -0,0 +1,46 @@
+import { createId } from './utils';
+import type { Message } from './types';
+
+// Helpers for the chat history. Messages are addressed by id so that
+// acknowledgements, retries and streamed replies find the right bubble even
+// after other messages were inserted or deleted around it.
+
+export function createMessage(
+  sender: Message['sender'],
+  content: string,
+  type: Message['type'],
+  fields: Partial<Message> = {}
+): Message {
+  return {
+    id: createId(),
+    sender,
+    content,
+    type,
+    timestamp: new Date().toISOString(),
+    ...fields
+  };
+}
+
+export const systemMessage = (content: string) => createMessage('system', content, 'system');
+
+// Sessions saved before messages had ids get fresh ones
+export const ensureMessageIds = (messages: Message[]): Message[] =>
+  messages.map(m => (m.id ? m : { ...m, id: createId() }));
+
+export const updateMessage = (messages: Message[], id: string, patch: Partial<Message>): Message[] =>
+  messages.map(m => (m.id === id ? { ...m, ...patch } : m));
+
+export const removeMessage = (messages: Message[], id: string): Message[] =>
+  messages.filter(m => m.id !== id);
+
+// Inserts a message in its turn: after the user message it answers and
+// anything already following it, but before the user's next message.
+// Without a known turn it goes at the end.
+export function insertInTurn(messages: Message[], message: Message): Message[] {
+  const turn = message.replyTo ? messages.findIndex(m => m.id === message.replyTo) : -1;
+  if (turn === -1) return [...messages, message];
+
+  let idx = turn + 1;
+  while (idx < messages.length && messages[idx].sender !== 'user') idx++;
+  return [...messages.slice(0, idx), message, ...messages.slice(idx)];
+}
@@ -0,0 +1,57 @@
+import type { PipecatMetricData } from '@pipecat-ai/client-js';
+import { formatNumber, type Locale } from './i18n';
+
+export type ServiceKind = 'stt' | 'llm' | 'tts';
+
+export const SERVICE_KINDS: ServiceKind[] = ['stt', 'llm', 'tts'];
+
+export interface MetricSample {
+  at: number;    // epoch ms when the sample arrived
+  value: number; // milliseconds
+}
+
+export type ServiceSeries = Record<ServiceKind, MetricSample[]>;
+
+export const MAX_SAMPLES = 120;
+
+export const emptySeries = (): ServiceSeries => ({ stt: [], llm: [], tts: [] });
+
+// Pipecat reports processors by class name, e.g. "DeepgramSTTService#0".
+// The service suffix decides. Vendor names are no guide (Deepgram, OpenAI,
+// Cartesia and others sell more than one kind of service), so a processor
+// without a recognisable suffix is left unclassified.
+export function classifyProcessor(processor: string): ServiceKind | null {
+  if (/tts/i.test(processor)) return 'tts';
+  if (/stt|transcri|whisper/i.test(processor)) return 'stt';
+  if (/llm/i.test(processor)) return 'llm';
+  return null;
+}
+
+export const appendSample = (series: MetricSample[], sample: MetricSample) =>
+  [...series, sample].slice(-MAX_SAMPLES);
+
+// Pipecat metrics are in seconds; everything here is kept in milliseconds
+export function addMetrics(series: ServiceSeries, data: PipecatMetricData[] | undefined, at: number) {
+  if (!data?.length) return series;
+  const next = { ...series };
+  data.forEach(({ processor, value }) => {
+    const kind = classifyProcessor(processor);
+    if (kind && Number.isFinite(value)) {
+      next[kind] = appendSample(next[kind], { at, value: value * 1000 });
+    }
+  });
+  return next;
+}
+
+// Nearest-rank percentile
+export function percentile(samples: MetricSample[], p: number) {
+  if (samples.length === 0) return null;
+  const sorted = samples.map(s => s.value).sort((a, b) => a - b);
+  const rank = Math.ceil((p / 100) * sorted.length) - 1;
+  return sorted[Math.min(sorted.length - 1, Math.max(0, rank))];
+}
+
+export const formatMs = (locale: Locale, ms: number | null) =>
+  ms === null ? '—'
+    : ms >= 1000 ? formatNumber(locale, ms / 1000, { style: 'unit', unit: 'second', unitDisplay: 'narrow', maximumFractionDigits: 2 })
+    : formatNumber(locale, Math.round(ms), { style: 'unit', unit: 'millisecond', unitDisplay: 'narrow' });
@@ -0,0 +1,60 @@
+import type { RTVIMessage } from '@pipecat-ai/client-js';
+import { createId } from './utils';
+import type { Translatable } from './i18n';
+
+// In-app notifications. Each one shows as a toast for a while and stays in
+// the history drawer; repeats within a short window collapse into one entry.
+
+export type Severity = 'info' | 'success' | 'warning' | 'error';
+
+export interface AppNotification {
+  id: string;
+  severity: Severity;
+  title: string;
+  message?: string;
+  source?: string; // where it came from, e.g. "Connection" or "Files"
+  createdAt: string;
+  count: number;
+  read: boolean;
+}
+
+export type NotificationInput = Pick<AppNotification, 'severity' | 'title' | 'message' | 'source'>;
+
+export const TOAST_DURATION_MS: Record<Severity, number> = {
+  info: 4000,
+  success: 4000,
+  warning: 6000,
+  error: 8000
+};
+
+export const HISTORY_LIMIT = 100;
+const REPEAT_WINDOW_MS = 5000;
+
+const sameNotification = (a: NotificationInput, b: NotificationInput) =>
+  a.severity === b.severity && a.title === b.title && a.message === b.message && a.source === b.source;
+
+// Returns the new history and the id of the entry that should be toasted
+export function addNotification(
+  history: AppNotification[],
+  input: NotificationInput,
+  now = new Date()
+): { history: AppNotification[]; id: string } {
+  const [latest] = history;
+  if (latest && sameNotification(latest, input) && now.getTime() - Date.parse(latest.createdAt) < REPEAT_WINDOW_MS) {
+    const bumped = { ...latest, count: latest.count + 1, createdAt: now.toISOString(), read: false };
+    return { history: [bumped, ...history.slice(1)], id: latest.id };
+  }
+
+  const entry: AppNotification = { ...input, id: createId(), createdAt: now.toISOString(), count: 1, read: false };
+  return { history: [entry, ...history].slice(0, HISTORY_LIMIT), id: entry.id };
+}
+
+// RTVI error messages carry the text in data.message (errors raised by the
+// bot or transport) or data.error (error responses to a request)
+export function describeRTVIError(message: RTVIMessage): { text: Translatable; fatal: boolean } {
+  const data = (message.data ?? {}) as { message?: unknown; error?: unknown; fatal?: unknown };
+  const text = typeof data.message === 'string' ? data.message
+    : typeof data.error === 'string' ? data.error
+    : { key: 'notify.unknownError' } as const;
+  return { text, fatal: data.fatal === true };
+}
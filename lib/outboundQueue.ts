@@ -0,0 +1,33 @@
+import type { RTVIActionRequestData } from '@pipecat-ai/client-js';
+import { loadJSON, saveJSON } from './storage';
+
+// Durable outbox for actions issued while the transport is down. Items are
+// kept in localStorage so a reload doesn't lose them, and replayed in order.
+
+const QUEUE_KEY = 'rtvi.outbox';
+const DELIVERED_KEY = 'rtvi.outbox.delivered';
+const DELIVERED_LIMIT = 200;
+
+export interface OutboundItem {
+  id: string;
+  dedupeKey: string; // identical pending requests collapse into one
+  label: string;     // shown to the user, e.g. the message text or file name
+  request: RTVIActionRequestData;
+  queuedAt: string;
+}
+
+export const loadOutbox = () => loadJSON<OutboundItem[]>(QUEUE_KEY, []);
+
+export const saveOutbox = (items: OutboundItem[]) => saveJSON(QUEUE_KEY, items);
+
+// Ids delivered recently. Guards against replaying an item whose removal from
+// the outbox didn't make it to storage (e.g. the tab closed mid-flush).
+export const loadDelivered = () => new Set(loadJSON<string[]>(DELIVERED_KEY, []));
+
+export function markDelivered(delivered: Set<string>, id: string) {
+  delivered.add(id);
+  if (delivered.size > DELIVERED_LIMIT) {
+    delivered.delete(delivered.values().next().value as string);
+  }
+  saveJSON(DELIVERED_KEY, Array.from(delivered));
+}
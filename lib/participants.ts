@@ -0,0 +1,44 @@
+import type { Participant } from '@pipecat-ai/client-js';
+import type { Translatable } from './i18n';
+
+// Who is in the call. The transport only reports remote joins, so the local
+// participant is added on connect under the fixed id LOCAL_ID.
+
+export const LOCAL_ID = 'local';
+
+export interface CallParticipant {
+  id: string;
+  name: string;
+  local: boolean;
+  isBot: boolean;
+  joinedAt: string;
+}
+
+export const participantId = (p: Participant) => (p.local ? LOCAL_ID : p.id);
+
+export function upsertParticipant(
+  participants: CallParticipant[],
+  p: Participant,
+  isBot = false
+): CallParticipant[] {
+  const id = participantId(p);
+  const existing = participants.find(item => item.id === id);
+  if (existing) {
+    return participants.map(item => item.id === id
+      ? { ...item, name: p.name || item.name, isBot: item.isBot || isBot }
+      : item);
+  }
+  return [...participants, {
+    id,
+    name: p.name,
+    local: p.local,
+    isBot,
+    joinedAt: new Date().toISOString()
+  }];
+}
+
+export const displayName = (p: CallParticipant): Translatable =>
+  p.name || { key: p.local ? 'participants.you' : p.isBot ? 'video.assistant' : 'participants.guest' };
+
+export const removeParticipant = (participants: CallParticipant[], p: Participant) =>
+  participants.filter(item => item.id !== participantId(p));
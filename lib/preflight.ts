@@ -0,0 +1,87 @@
+import { loadJSON, saveJSON } from './storage';
+import type { Translatable } from './i18n';
+import type { MessageKey } from './locales/en';
+
+// Pre-call checks run before joining. Each check ends as pass, warn or fail;
+// the outcome decides whether we join with the mic and camera on.
+
+export type CheckId = 'permissions' | 'microphone' | 'camera' | 'speaker' | 'network';
+export type CheckStatus = 'pending' | 'running' | 'pass' | 'warn' | 'fail';
+
+export interface CheckResult {
+  status: CheckStatus;
+  detail?: Translatable;
+}
+
+export type PreflightResults = Record<CheckId, CheckResult>;
+
+export interface MediaFlags {
+  mic: boolean;
+  cam: boolean;
+}
+
+export const CHECK_IDS: CheckId[] = ['permissions', 'microphone', 'camera', 'speaker', 'network'];
+
+export const CHECK_LABELS: Record<CheckId, MessageKey> = {
+  permissions: 'precall.check.permissions',
+  microphone: 'precall.check.microphone',
+  camera: 'precall.check.camera',
+  speaker: 'precall.check.speaker',
+  network: 'precall.check.network'
+};
+
+export const initialResults = (): PreflightResults =>
+  CHECK_IDS.reduce((results, id) => ({ ...results, [id]: { status: 'pending' } }), {} as PreflightResults);
+
+// Worst status wins; anything not yet run counts as a warning
+export function summarize(results: PreflightResults): 'pass' | 'warn' | 'fail' {
+  const statuses = CHECK_IDS.map(id => results[id].status);
+  if (statuses.includes('fail')) return 'fail';
+  return statuses.every(status => status === 'pass') ? 'pass' : 'warn';
+}
+
+// A device that failed its check starts off. Untested ones keep the user's
+// last choice; joining on video stays opt-in.
+export function mediaFlagsFor(results: PreflightResults, preferred: MediaFlags): MediaFlags {
+  return {
+    mic: preferred.mic && results.microphone.status !== 'fail',
+    cam: preferred.cam && results.camera.status !== 'fail'
+  };
+}
+
+// Mic level (0..1, as from an AnalyserNode) below which we assume nothing was heard
+export const SILENCE_LEVEL = 0.02;
+export const SLOW_NETWORK_MS = 1500;
+const NETWORK_TIMEOUT_MS = 8000;
+
+// Any HTTP response proves the server is there. An opaque no-cors request is
+// enough for that, and avoids failing on servers that only allow POST.
+export async function checkEndpoint(url: string): Promise<CheckResult> {
+  if (!url) return { status: 'fail', detail: { key: 'precall.network.noUrl' } };
+
+  const controller = new AbortController();
+  const timer = setTimeout(() => controller.abort(), NETWORK_TIMEOUT_MS);
+  const started = performance.now();
+  try {
+    await fetch(url, { method: 'HEAD', mode: 'no-cors', cache: 'no-store', signal: controller.signal });
+    const elapsed = Math.round(performance.now() - started);
+    return elapsed > SLOW_NETWORK_MS
+      ? { status: 'warn', detail: { key: 'precall.network.slow', params: { ms: elapsed } } }
+      : { status: 'pass', detail: { key: 'precall.network.reachable', params: { ms: elapsed } } };
+  } catch {
+    return {
+      status: 'fail',
+      detail: controller.signal.aborted
+        ? { key: 'precall.network.timeout' }
+        : { key: 'precall.network.unreachable', params: { url } }
+    };
+  } finally {
+    clearTimeout(timer);
+  }
+}
+
+const FLAGS_KEY = 'rtvi.mediaDefaults';
+
+export const loadMediaFlags = () => loadJSON<MediaFlags>(FLAGS_KEY, { mic: true, cam: false });
+
+export const saveMediaFlags = (flags: MediaFlags) => saveJSON(FLAGS_KEY, flags);
@@ -0,0 +1,18 @@
+export interface BackoffOptions {
+  baseDelay: number;
+  maxDelay: number;
+  maxAttempts: number;
+}
+
+export const DEFAULT_BACKOFF: BackoffOptions = {
+  baseDelay: 1000,
+  maxDelay: 30000,
+  maxAttempts: 10
+};
+
+// Exponential backoff with "equal jitter": half the delay is fixed and half is
+// random, so clients that dropped together don't all come back at once.
+export function backoffDelay(attempt: number, { baseDelay, maxDelay }: BackoffOptions = DEFAULT_BACKOFF) {
+  const capped = Math.min(maxDelay, baseDelay * 2 ** Math.max(0, attempt - 1));
+  return capped / 2 + Math.random() * (capped / 2);
+}
@@ -0,0 +1,76 @@
+import type { Message } from './types';
+import { toJSON, toSRT, toWebVTT } from './conversationExport';
+import type { ZipEntry } from './zip';
+import type { MessageKey } from './locales/en';
+
+// Session recording: what gets recorded and how the download bundle is laid
+// out. Transcript times are offsets from the recording start, so subtitles
+// line up with the media file.
+
+export type RecordingVideoSource = 'none' | 'bot' | 'screen';
+
+export const VIDEO_SOURCE_LABELS: Record<RecordingVideoSource, MessageKey> = {
+  none: 'recording.source.none',
+  bot: 'recording.source.bot',
+  screen: 'recording.source.screen'
+};
+
+const VIDEO_TYPES = ['video/webm;codecs=vp8,opus', 'video/webm', 'video/mp4'];
+const AUDIO_TYPES = ['audio/webm;codecs=opus', 'audio/webm', 'audio/mp4', 'audio/ogg'];
+
+// First container the browser can record, or '' to let it choose
+export function pickMimeType(withVideo: boolean): string {
+  if (typeof MediaRecorder === 'undefined') return '';
+  return (withVideo ? VIDEO_TYPES : AUDIO_TYPES).find(type => MediaRecorder.isTypeSupported(type)) ?? '';
+}
+
+export const extensionFor = (mimeType: string) =>
+  mimeType.includes('mp4') ? 'mp4' : mimeType.includes('ogg') ? 'ogg' : 'webm';
+
+export function formatElapsed(ms: number) {
+  const total = Math.floor(ms / 1000);
+  const hours = Math.floor(total / 3600);
+  const minutes = String(Math.floor((total % 3600) / 60)).padStart(2, '0');
+  const seconds = String(total % 60).padStart(2, '0');
+  return hours > 0 ? `${hours}:${minutes}:${seconds}` : `${minutes}:${seconds}`;
+}
+
+export interface RecordingSession {
+  startedAt: string;
+  stoppedAt: string;
+  consentedAt: string;
+  videoSource: RecordingVideoSource;
+  mimeType: string;
+  media: Blob;
+  messages: Message[];
+}
+
+export const bundleName = (startedAt: string) =>
+  `session-${startedAt.slice(0, 19).replace(/[:T]/g, '-')}`;
+
+// recording.<ext>, transcript in VTT/SRT/JSON, and a manifest recording when
+// consent was given and what was captured
+export function bundleEntries(session: RecordingSession): ZipEntry[] {
+  const { startedAt, stoppedAt, mimeType, media } = session;
+  const messages = session.messages.filter(m => m.timestamp >= startedAt && m.timestamp <= stoppedAt);
+  const source = { title: 'Session recording', startedAt, messages, files: [] };
+  const mediaName = `recording.${extensionFor(mimeType)}`;
+
+  return [
+    { name: mediaName, data: media },
+    { name: 'transcript.vtt', data: toWebVTT(source) },
+    { name: 'transcript.srt', data: toSRT(source) },
+    { name: 'transcript.json', data: toJSON(source) },
+    {
+      name: 'manifest.json',
+      data: JSON.stringify({
+        startedAt,
+        stoppedAt,
+        durationMs: Date.parse(stoppedAt) - Date.parse(startedAt),
+        consentedAt: session.consentedAt,
+        media: { file: mediaName, mimeType, bytes: media.size, video: session.videoSource },
+        messageCount: messages.length
+      }, null, 2)
+    }
+  ];
+}
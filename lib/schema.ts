@@ -0,0 +1,65 @@
+// Minimal runtime validators for data crossing the RTVI boundary. A schema
+// parses an unknown value into T or throws a SchemaError naming the bad path.
+
+export class SchemaError extends Error {
+  constructor(readonly path: string, expected: string) {
+    super(`${path || 'value'}: expected ${expected}`);
+    this.name = 'SchemaError';
+  }
+}
+
+export type Schema<T> = (value: unknown, path?: string) => T;
+
+export type Infer<S> = S extends Schema<infer T> ? T : never;
+
+const check = <T>(expected: string, test: (value: unknown) => boolean): Schema<T> =>
+  (value, path = '') => {
+    if (!test(value)) throw new SchemaError(path, expected);
+    return value as T;
+  };
+
+export const string = check<string>('string', v => typeof v === 'string');
+
+export const number = check<number>('number', v => typeof v === 'number' && Number.isFinite(v));
+
+export const boolean = check<boolean>('boolean', v => typeof v === 'boolean');
+
+export const unknown: Schema<unknown> = value => value;
+
+export const oneOf = <T extends string>(...options: T[]) =>
+  check<T>(options.map(o => `'${o}'`).join(' | '), v => options.includes(v as T));
+
+export const optional = <T>(schema: Schema<T>): Schema<T | undefined> =>
+  (value, path) => (value === undefined ? undefined : schema(value, path));
+
+export const nullable = <T>(schema: Schema<T>): Schema<T | null> =>
+  (value, path) => (value === null || value === undefined ? null : schema(value, path));
+
+export const array = <T>(item: Schema<T>): Schema<T[]> => (value, path = '') => {
+  if (!Array.isArray(value)) throw new SchemaError(path, 'array');
+  return value.map((v, idx) => item(v, `${path}[${idx}]`));
+};
+
+export const record: Schema<Record<string, unknown>> =
+  check('object', v => typeof v === 'object' && v !== null && !Array.isArray(v));
+
+export type Shape = Record<string, Schema<unknown>>;
+
+type OptionalKeys<S extends Shape> = {
+  [K in keyof S]: undefined extends Infer<S[K]> ? K : never
+}[keyof S];
+
+// Keys whose schema accepts undefined become optional properties
+export type InferShape<S extends Shape> =
+  { [K in Exclude<keyof S, OptionalKeys<S>>]: Infer<S[K]> } &
+  { [K in OptionalKeys<S>]?: Infer<S[K]> };
+
+// Unknown keys are kept so newer servers can add fields without breaking us
+export const object = <S extends Shape>(shape: S): Schema<InferShape<S>> => (value, path = '') => {
+  const input = record(value, path);
+  const output: Record<string, unknown> = { ...input };
+  for (const [key, schema] of Object.entries(shape)) {
+    output[key] = schema(input[key], path ? `${path}.${key}` : key);
+  }
+  return output as InferShape<S>;
+};
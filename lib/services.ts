@@ -0,0 +1,188 @@
+import type { RTVIActionRequestData, RTVIClient } from '@pipecat-ai/client-js';
+import {
+  array,
+  boolean,
+  nullable,
+  number,
+  object,
+  oneOf,
+  optional,
+  record,
+  SchemaError,
+  string,
+  type InferShape,
+  type Schema,
+  type Shape
+} from './schema';
+import type { Translatable } from './i18n';
+import type { MessageKey } from './locales/en';
+
+// Every action the client sends to the bot, with its argument and result
+// schemas. Requests are validated before they leave and results before the UI
+// sees them, so a protocol mismatch surfaces as an ActionFailure instead of
+// undefined fields further down.
+
+interface ActionSpec<A extends Shape, R> {
+  args: A;
+  result: Schema<R>;
+}
+
+const action = <A extends Shape, R>(args: A, result: Schema<R>): ActionSpec<A, R> => ({ args, result });
+
+const empty = nullable(record);
+
+export const SERVICES = {
+  chat: {
+    send_text: action({
+      message: string,
+      mode: optional(oneOf('text', 'mixed')),
+      message_id: optional(string) // lets the bot tag its reply with the turn
+    }, nullable(object({ message_id: optional(string) }))) // acknowledgement
+  },
+  analysis: {
+    // Analysis results have no fixed fields; AnalysisResult renders any object
+    analyze_content: action({ content_type: oneOf('file', 'conversation'), data: record }, nullable(record))
+  },
+  screen: {
+    toggle_sharing: action({ enabled: boolean }, empty)
+  },
+  file_processor: {
+    begin_upload: action({
+      upload_id: string,
+      filename: string,
+      file_type: string,
+      size: number,
+      chunk_size: number,
+      total_chunks: number
+    }, nullable(object({ received_chunks: optional(number) }))),
+    upload_chunk: action({ upload_id: string, index: number, data: string }, empty),
+    complete_upload: action({
+      upload_id: string,
+      checksum: string,
+      algorithm: oneOf('sha-256')
+    }, nullable(object({ verified: optional(boolean) }))),
+    cancel_upload: action({ upload_id: string }, empty)
+  },
+  llm: {
+    append_to_messages: action({
+      messages: array(object({ role: oneOf('user', 'assistant', 'system'), content: string })),
+      run_immediately: optional(boolean)
+    }, nullable(boolean))
+  }
+} as const;
+
+type Services = typeof SERVICES;
+export type ServiceName = keyof Services;
+export type ActionName<S extends ServiceName> = keyof Services[S] & string;
+
+type SpecOf<S extends ServiceName, A extends ActionName<S>> = Services[S][A];
+
+export type ActionArgs<S extends ServiceName, A extends ActionName<S>> =
+  SpecOf<S, A> extends ActionSpec<infer Args, unknown> ? InferShape<Args> : never;
+
+export type ActionResult<S extends ServiceName, A extends ActionName<S>> =
+  SpecOf<S, A> extends ActionSpec<Shape, infer R> ? R : never;
+
+const specOf = (service: string, name: string) =>
+  (SERVICES as Record<string, Record<string, ActionSpec<Shape, unknown> | undefined> | undefined>)[service]?.[name];
+
+export type ActionFailureKind = 'invalid_request' | 'invalid_response' | 'not_ready' | 'server' | 'transport';
+
+export class ActionFailure extends Error {
+  constructor(
+    readonly kind: ActionFailureKind,
+    readonly service: string,
+    readonly action: string,
+    message: string
+  ) {
+    super(message);
+    this.name = 'ActionFailure';
+  }
+}
+
+const FAILURE_LABELS: Record<ActionFailureKind, MessageKey> = {
+  invalid_request: 'failure.invalidRequest',
+  invalid_response: 'failure.invalidResponse',
+  not_ready: 'failure.notReady',
+  server: 'failure.server',
+  transport: 'failure.transport'
+};
+
+// One line suitable for a status message or an error banner
+export const describeFailure = (error: unknown): Translatable => {
+  if (error instanceof ActionFailure) return { key: FAILURE_LABELS[error.kind], params: { detail: error.message } };
+  return error instanceof Error ? error.message : String(error);
+};
+
+// client.action rejects with the bot's error-response message rather than an
+// Error, and with BotNotReadyError when called before the bot is ready.
+export function toActionFailure(error: unknown, service: string, name: string): ActionFailure {
+  if (error instanceof ActionFailure) return error;
+  if (error instanceof Error && error.name === 'BotNotReadyError') {
+    return new ActionFailure('not_ready', service, name, error.message || 'Bot not ready');
+  }
+
+  const message = error as { type?: string; data?: { error?: unknown } } | null;
+  if (message && typeof message === 'object' && message.type === 'error-response') {
+    return new ActionFailure('server', service, name, String(message.data?.error ?? 'Unknown error'));
+  }
+
+  return new ActionFailure('transport', service, name, error instanceof Error ? error.message : String(error));
+}
+
+// Builds a validated request. The result is plain data, so it can be queued
+// and replayed later (see useOutboundQueue).
+export function buildRequest<S extends ServiceName, A extends ActionName<S>>(
+  service: S,
+  name: A,
+  args: ActionArgs<S, A>
+): RTVIActionRequestData {
+  const spec = specOf(service, name);
+  if (!spec) throw new ActionFailure('invalid_request', service, name, `Unknown action ${service}/${name}`);
+
+  try {
+    const values = object(spec.args)(args) as Record<string, unknown>;
+    return {
+      service,
+      action: name,
+      arguments: Object.keys(spec.args)
+        .filter(key => values[key] !== undefined)
+        .map(key => ({ name: key, value: values[key] }))
+    };
+  } catch (error) {
+    if (error instanceof SchemaError) throw new ActionFailure('invalid_request', service, name, error.message);
+    throw error;
+  }
+}
+
+function parseResult(service: string, name: string, result: unknown): unknown {
+  const spec = specOf(service, name);
+  try {
+    return spec ? spec.result(result, 'result') : result;
+  } catch (error) {
+    if (error instanceof SchemaError) throw new ActionFailure('invalid_response', service, name, error.message);
+    throw error;
+  }
+}
+
+// Sends a request built by buildRequest and validates the result against the
+// catalog. Requests for actions outside the catalog pass through unchecked.
+export async function dispatchRequest(client: RTVIClient, request: RTVIActionRequestData): Promise<unknown> {
+  const { service, action: name } = request;
+  let result: unknown;
+  try {
+    result = (await client.action(request))?.data?.result;
+  } catch (error) {
+    throw toActionFailure(error, service, name);
+  }
+  return parseResult(service, name, result);
+}
+
+export async function callAction<S extends ServiceName, A extends ActionName<S>>(
+  client: RTVIClient,
+  service: S,
+  name: A,
+  args: ActionArgs<S, A>
+): Promise<ActionResult<S, A>> {
+  return await dispatchRequest(client, buildRequest(service, name, args)) as ActionResult<S, A>;
+}
@@ -0,0 +1,102 @@
+import type { Analytics, FileData, Message } from './types';
+import { formatDate, translate, type Locale } from './i18n';
+
+// IndexedDB-backed history of past conversations. Each connection is stored
+// as one session record; file contents are never persisted, only metadata.
+
+const DB_NAME = 'rtvi-client';
+const DB_VERSION = 1;
+const STORE = 'sessions';
+
+export type StoredFile = Omit<FileData, 'file'>;
+
+export interface StoredSession {
+  id: string;
+  title: string;
+  startedAt: string;
+  endedAt?: string;
+  updatedAt: string;
+  restoredFrom?: string; // session whose context was replayed into this one
+  messages: Message[];
+  files: StoredFile[];
+  analytics: Analytics;
+}
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+function openDb(): Promise<IDBDatabase> {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const store = request.result.createObjectStore(STORE, { keyPath: 'id' });
+        store.createIndex('startedAt', 'startedAt');
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        dbPromise = null;
+        reject(request.error);
+      };
+    });
+  }
+  return dbPromise;
+}
+
+async function run<T>(
+  mode: IDBTransactionMode,
+  operation: (store: IDBObjectStore) => IDBRequest<T>
+): Promise<T> {
+  const db = await openDb();
+  return new Promise((resolve, reject) => {
+    const request = operation(db.transaction(STORE, mode).objectStore(STORE));
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+export function toStoredFile(file: FileData): StoredFile {
+  const meta = { ...file };
+  delete meta.file;
+  return meta;
+}
+
+// Newest first
+export async function listSessions(): Promise<StoredSession[]> {
+  const sessions = await run<StoredSession[]>('readonly', store => store.index('startedAt').getAll());
+  return sessions.reverse();
+}
+
+export const getSession = (id: string) =>
+  run<StoredSession | undefined>('readonly', store => store.get(id));
+
+export const saveSession = (session: StoredSession) =>
+  run('readwrite', store => store.put({ ...session, updatedAt: new Date().toISOString() }));
+
+export const deleteSession = (id: string) =>
+  run('readwrite', store => store.delete(id));
+
+export async function renameSession(id: string, title: string) {
+  const session = await getSession(id);
+  if (session) await saveSession({ ...session, title });
+}
+
+export function searchSessions(sessions: StoredSession[], query: string) {
+  const needle = query.trim().toLowerCase();
+  if (!needle) return sessions;
+  return sessions.filter(session =>
+    session.title.toLowerCase().includes(needle) ||
+    session.files.some(f => f.name.toLowerCase().includes(needle)) ||
+    session.messages.some(m => m.content.toLowerCase().includes(needle))
+  );
+}
+
+// Titles come from the first thing the user said, falling back to the date
+export function defaultSessionTitle(locale: Locale, messages: Message[], startedAt: string) {
+  const first = messages.find(m => m.sender === 'user' && m.content.trim());
+  if (first) {
+    const text = first.content.trim().replace(/\s+/g, ' ');
+    return text.length > 48 ? `${text.slice(0, 48)}…` : text;
+  }
+  const date = formatDate(locale, startedAt, { dateStyle: 'medium' });
+  return translate(locale, 'history.untitled', { date });
+}
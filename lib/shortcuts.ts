@@ -0,0 +1,94 @@
+import { loadJSON, saveJSON } from './storage';
+import type { MessageKey } from './locales/en';
+
+// Keyboard shortcuts. A binding is a combo string such as "Alt+M" or "Space":
+// modifiers in a fixed order, then the key. Letters and digits come from
+// KeyboardEvent.code so that Alt/Option combos work on every layout.
+
+export type ShortcutAction =
+  | 'pushToTalk'
+  | 'toggleMic'
+  | 'toggleCamera'
+  | 'toggleChat'
+  | 'toggleConnection'
+  | 'interruptBot'
+  | 'nextTab'
+  | 'previousTab'
+  | 'showShortcuts';
+
+export type ShortcutMap = Record<ShortcutAction, string>;
+
+export const SHORTCUT_LABELS: Record<ShortcutAction, MessageKey> = {
+  pushToTalk: 'shortcuts.action.pushToTalk',
+  toggleMic: 'shortcuts.action.toggleMic',
+  toggleCamera: 'shortcuts.action.toggleCamera',
+  toggleChat: 'shortcuts.action.toggleChat',
+  toggleConnection: 'shortcuts.action.toggleConnection',
+  interruptBot: 'shortcuts.action.interruptBot',
+  nextTab: 'shortcuts.action.nextTab',
+  previousTab: 'shortcuts.action.previousTab',
+  showShortcuts: 'shortcuts.action.showShortcuts'
+};
+
+export const SHORTCUT_ACTIONS = Object.keys(SHORTCUT_LABELS) as ShortcutAction[];
+
+export const DEFAULT_SHORTCUTS: ShortcutMap = {
+  pushToTalk: 'Space',
+  toggleMic: 'Alt+M',
+  toggleCamera: 'Alt+V',
+  toggleChat: 'Alt+C',
+  toggleConnection: 'Alt+K',
+  interruptBot: 'Alt+I',
+  nextTab: 'Alt+ArrowRight',
+  previousTab: 'Alt+ArrowLeft',
+  showShortcuts: '?'
+};
+
+const SHORTCUTS_KEY = 'rtvi.shortcuts';
+
+const MODIFIER_KEYS = ['Control', 'Alt', 'Shift', 'Meta'];
+
+const keyName = (event: KeyboardEvent) => {
+  const code = event.code.match(/^(?:Key|Digit)(\w)$/);
+  if (code) return code[1];
+  if (event.key === ' ') return 'Space';
+  return event.key.length === 1 ? event.key.toUpperCase() : event.key;
+};
+
+// The combo string for a key press, or null for a bare modifier
+export function comboFromEvent(event: KeyboardEvent): string | null {
+  if (MODIFIER_KEYS.includes(event.key)) return null;
+  const key = keyName(event);
+  // Shift is part of a symbol like "?" already
+  const shiftIsImplied = key.length === 1 && !/[A-Z0-9]/.test(key);
+  return [
+    event.ctrlKey && 'Ctrl',
+    event.altKey && 'Alt',
+    event.shiftKey && !shiftIsImplied && 'Shift',
+    event.metaKey && 'Meta',
+    key
+  ].filter(Boolean).join('+');
+}
+
+export const hasModifier = (combo: string) => /^(Ctrl|Alt|Meta)\+/.test(combo);
+
+export const formatCombo = (combo: string) =>
+  combo.replace('ArrowRight', '→').replace('ArrowLeft', '←').replace('ArrowUp', '↑').replace('ArrowDown', '↓');
+
+// Combos bound to more than one action
+export function findConflicts(map: ShortcutMap): Set<string> {
+  const seen = new Set<string>();
+  const conflicts = new Set<string>();
+  Object.values(map).forEach(combo => {
+    if (combo && seen.has(combo)) conflicts.add(combo);
+    seen.add(combo);
+  });
+  return conflicts;
+}
+
+export const loadShortcuts = (): ShortcutMap => ({
+  ...DEFAULT_SHORTCUTS,
+  ...loadJSON<Partial<ShortcutMap>>(SHORTCUTS_KEY, {})
+});
+
+export const saveShortcuts = (map: ShortcutMap) => saveJSON(SHORTCUTS_KEY, map);
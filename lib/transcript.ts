@@ -0,0 +1,58 @@
+import type { Message } from './types';
+import { createMessage, insertInTurn } from './messages';
+
+type Sender = Message['sender'];
+
+const findStreamingIndex = (messages: Message[], sender: Sender) => {
+  for (let i = messages.length - 1; i >= 0; i--) {
+    if (messages[i].sender === sender && messages[i].streaming) return i;
+  }
+  return -1;
+};
+
+// Adds text to the sender's open bubble, creating one if none is streaming.
+// 'append' grows the bubble (bot token stream), 'replace' swaps its content
+// (user STT partials, which resend the whole utterance each time). `fields`
+// only apply when a new bubble is created; one with `replyTo` is placed in
+// the turn it answers.
+export function upsertStreamingMessage(
+  messages: Message[],
+  sender: Sender,
+  text: string,
+  mode: 'append' | 'replace',
+  fields: Partial<Message> = {}
+): Message[] {
+  const idx = findStreamingIndex(messages, sender);
+  if (idx === -1) {
+    return insertInTurn(messages, createMessage(sender, text, 'voice', { ...fields, streaming: true }));
+  }
+
+  const current = messages[idx];
+  const next = [...messages];
+  next[idx] = {
+    ...current,
+    content: mode === 'append' ? current.content + text : text
+  };
+  return next;
+}
+
+// Closes the sender's open bubble. Empty bubbles are dropped entirely.
+export function finalizeStreamingMessage(
+  messages: Message[],
+  sender: Sender,
+  overrides: Partial<Pick<Message, 'content' | 'type'>> = {}
+): Message[] {
+  const idx = findStreamingIndex(messages, sender);
+  if (idx === -1) return messages;
+
+  const finalized: Message = { ...messages[idx], ...overrides, streaming: false };
+  finalized.content = finalized.content.trim();
+
+  if (!finalized.content) {
+    return messages.filter((_, i) => i !== idx);
+  }
+
+  const next = [...messages];
+  next[idx] = finalized;
+  return next;
+}
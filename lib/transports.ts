@@ -0,0 +1,53 @@
+import type { RTVIClientParams, Transport } from '@pipecat-ai/client-js';
+import { DailyTransport } from '@pipecat-ai/daily-transport';
+
+// The transports this build can connect with. Only Daily is bundled: the
+// pipecat WebSocket and Small WebRTC transports are published against
+// client-js 0.4 and later, and this app is built on the 0.3 client, so bots
+// that only speak those transports can't be reached from this build.
+export type TransportKind = 'daily';
+
+export interface TransportSettings {
+  serverUrl: string;
+  connectEndpoint: string;
+}
+
+interface TransportDefinition {
+  label: string;
+  create: () => Transport;
+  params: (settings: TransportSettings) => RTVIClientParams;
+}
+
+const TRANSPORTS: Record<TransportKind, TransportDefinition> = {
+  daily: {
+    label: 'Daily (WebRTC)',
+    create: () => new DailyTransport(),
+    // POSTs to the bot's connect endpoint, which answers with the
+    // { room_url, token } of the Daily room the bot has joined
+    params: ({ serverUrl, connectEndpoint }) => ({
+      baseUrl: serverUrl,
+      endpoints: { connect: connectEndpoint }
+    })
+  }
+};
+
+export const TRANSPORT_KINDS = Object.keys(TRANSPORTS) as TransportKind[];
+
+export const isTransportKind = (value: string): value is TransportKind =>
+  Object.prototype.hasOwnProperty.call(TRANSPORTS, value);
+
+export const transportLabel = (kind: TransportKind) => TRANSPORTS[kind].label;
+
+export function createTransport(kind: TransportKind, settings: TransportSettings) {
+  const definition = TRANSPORTS[kind];
+  return {
+    transport: definition.create(),
+    params: definition.params(settings)
+  };
+}
+
+// The URL the client POSTs to when connecting, for reachability checks
+export function connectUrl(kind: TransportKind, settings: TransportSettings) {
+  const { baseUrl, endpoints } = TRANSPORTS[kind].params(settings);
+  return `${baseUrl ?? ''}${endpoints?.connect ?? ''}`;
+}
@@ -0,0 +1,40 @@
+// Shared types used across the app, hooks and panels
+
+export interface FileData {
+  id: string;
+  name: string;
+  type: string;
+  size: number;
+  checksum?: string; // SHA-256 of the uploaded bytes, confirmed by the server
+  file?: File;       // local copy, only available in the session that uploaded it
+  uploadedAt: string;
+}
+
+export type DeliveryStatus = 'pending' | 'queued' | 'sent' | 'failed';
+
+export interface Message {
+  id: string;
+  sender: 'user' | 'bot' | 'system';
+  content: string;
+  type: 'text' | 'voice' | 'system';
+  timestamp: string;
+  streaming?: boolean; // true while a transcript bubble is still receiving text
+  status?: DeliveryStatus; // delivery of user text messages to the bot
+  error?: string; // why a user message could not be sent
+  replyTo?: string; // id of the user message a bot reply answers
+}
+
+export interface Analytics {
+  totalMessages: number;
+  filesProcessed: number;
+  voiceMessages: number;
+  textMessages: number;
+}
+
+// Latest structured result of the analysis/analyze_content conversation action
+export interface AnalysisState {
+  result: unknown;
+  loading: boolean;
+  error: string | null;
+  updatedAt: string | null;
+}
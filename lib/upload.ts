@@ -0,0 +1,155 @@
+import { createId } from './utils';
+import type { ActionArgs, ActionName, ActionResult } from './services';
+import type { Translatable } from './i18n';
+
+// Chunked file upload protocol for the file_processor service (schemas in
+// lib/services.ts).
+//
+//   begin_upload    { upload_id, filename, file_type, size, chunk_size, total_chunks }
+//                   -> { received_chunks?: number } so a reconnect can resume
+//   upload_chunk    { upload_id, index, data }   (data is base64)
+//   complete_upload { upload_id, checksum, algorithm }
+//                   -> { verified: boolean }
+//   cancel_upload   { upload_id }
+
+export type UploadStatus = 'uploading' | 'paused' | 'failed' | 'completed' | 'cancelled';
+
+export interface UploadProgress {
+  id: string;
+  name: string;
+  size: number;
+  totalChunks: number;
+  sentChunks: number;
+  status: UploadStatus;
+  error?: Translatable;
+}
+
+export interface UploadJob {
+  id: string;
+  file: File;
+  chunkSize: number;
+  nextChunk: number; // first chunk the server has not acknowledged
+  checksum?: string;
+  cancelled: boolean;
+  running: boolean;
+}
+
+export type UploadSend = <A extends ActionName<'file_processor'>>(
+  action: A,
+  args: ActionArgs<'file_processor', A>
+) => Promise<ActionResult<'file_processor', A>>;
+
+export const CHUNK_MAX_ATTEMPTS = 3;
+const RETRY_BASE_DELAY = 500;
+
+export class UploadCancelledError extends Error {
+  constructor() {
+    super('Upload cancelled');
+    this.name = 'UploadCancelledError';
+  }
+}
+
+export const chunkCount = (size: number, chunkSize: number) =>
+  Math.max(1, Math.ceil(size / chunkSize));
+
+export function createUploadJob(file: File, chunkSize: number): UploadJob {
+  return {
+    id: createId(),
+    file,
+    chunkSize,
+    nextChunk: 0,
+    cancelled: false,
+    running: false
+  };
+}
+
+const toBase64 = (buffer: ArrayBuffer) => {
+  const bytes = new Uint8Array(buffer);
+  let binary = '';
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  }
+  return btoa(binary);
+};
+
+export async function sha256Hex(blob: Blob) {
+  const digest = await crypto.subtle.digest('SHA-256', await blob.arrayBuffer());
+  return Array.from(new Uint8Array(digest))
+    .map(b => b.toString(16).padStart(2, '0'))
+    .join('');
+}
+
+export async function readChunkBase64(file: Blob, index: number, chunkSize: number) {
+  const start = index * chunkSize;
+  return toBase64(await file.slice(start, start + chunkSize).arrayBuffer());
+}
+
+const wait = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+async function withRetry<T>(fn: () => Promise<T>, job: UploadJob): Promise<T> {
+  for (let attempt = 1; ; attempt++) {
+    if (job.cancelled) throw new UploadCancelledError();
+    let result: T;
+    try {
+      result = await fn();
+    } catch (error) {
+      if (job.cancelled) throw new UploadCancelledError();
+      if (attempt >= CHUNK_MAX_ATTEMPTS) throw error;
+      await wait(RETRY_BASE_DELAY * 2 ** (attempt - 1));
+      continue;
+    }
+    // Cancel may have been pressed while the request was in flight
+    if (job.cancelled) throw new UploadCancelledError();
+    return result;
+  }
+}
+
+// Sends the file from job.nextChunk onward and returns the verified checksum.
+// Progress is kept on the job, so calling this again after a failure resumes.
+export async function runUpload(
+  job: UploadJob,
+  send: UploadSend,
+  onProgress: (sentChunks: number) => void
+): Promise<string> {
+  const { file, chunkSize, id } = job;
+  const totalChunks = chunkCount(file.size, chunkSize);
+  job.checksum ??= await sha256Hex(file);
+
+  const begin = await withRetry(() => send('begin_upload', {
+    upload_id: id,
+    filename: file.name,
+    file_type: file.type,
+    size: file.size,
+    chunk_size: chunkSize,
+    total_chunks: totalChunks
+  }), job);
+
+  // Trust the server's count when it has one; it may have lost chunks we think were sent
+  const received = begin?.received_chunks;
+  if (typeof received === 'number') {
+    job.nextChunk = Math.max(0, Math.min(received, totalChunks));
+  }
+  onProgress(job.nextChunk);
+
+  while (job.nextChunk < totalChunks) {
+    const index = job.nextChunk;
+    const data = await readChunkBase64(file, index, chunkSize);
+    await withRetry(() => send('upload_chunk', { upload_id: id, index, data }), job);
+    job.nextChunk = index + 1;
+    onProgress(job.nextChunk);
+  }
+
+  const checksum = job.checksum;
+  const complete = await withRetry(() => send('complete_upload', {
+    upload_id: id,
+    checksum,
+    algorithm: 'sha-256'
+  }), job);
+
+  if (complete?.verified === false) {
+    // Start over on the next attempt rather than resuming a corrupt upload
+    job.nextChunk = 0;
+    throw new Error('Server checksum did not match');
+  }
+  return checksum;
+}
@@ -0,0 +1,60 @@
+import { loadJSON, saveJSON } from './storage';
+
+// Turn-taking state for the voice UI, derived from the RTVI speaking events.
+// "thinking" covers the gap between the user finishing and the bot answering.
+
+export type ConversationPhase = 'idle' | 'listening' | 'userSpeaking' | 'thinking' | 'botSpeaking';
+
+export type VoiceEvent =
+  | 'ready'
+  | 'disconnected'
+  | 'userStarted'
+  | 'userStopped'
+  | 'llmStarted'     // the bot began generating, e.g. for a typed message
+  | 'replyFinished'  // a text-only reply ended without any speech
+  | 'botStarted'
+  | 'botStopped'
+  | 'thinkingTimeout';
+
+// How long "thinking" may last before we assume no reply is coming
+export const THINKING_TIMEOUT_MS = 15000;
+
+export function nextPhase(phase: ConversationPhase, event: VoiceEvent): ConversationPhase {
+  switch (event) {
+    case 'disconnected':
+      return 'idle';
+    case 'ready':
+      return phase === 'idle' ? 'listening' : phase;
+    case 'userStarted':
+      return 'userSpeaking'; // also when talking over the bot
+    case 'userStopped':
+      return phase === 'userSpeaking' ? 'thinking' : phase;
+    case 'llmStarted':
+      return phase === 'listening' ? 'thinking' : phase;
+    case 'botStarted':
+      return phase === 'idle' ? phase : 'botSpeaking';
+    case 'botStopped':
+      return phase === 'botSpeaking' ? 'listening' : phase;
+    case 'replyFinished':
+    case 'thinkingTimeout':
+      return phase === 'thinking' ? 'listening' : phase;
+  }
+}
+
+// Transports report RMS-like levels where speech rarely passes 0.3; the
+// square root spreads that range over the meter.
+export const meterLevel = (level: number) => Math.min(1, Math.sqrt(Math.max(0, level)) * 1.4);
+
+// Peak hold with decay, so meters fall smoothly instead of flickering
+export const smoothLevel = (previous: number, level: number, decay = 0.75) =>
+  Math.max(level, previous * decay);
+
+// Open mic relies on the bot's VAD; push-to-talk keeps the mic closed except
+// while the talk key or button is held.
+export type MicMode = 'open' | 'pushToTalk';
+
+const MIC_MODE_KEY = 'rtvi.micMode';
+
+export const loadMicMode = () => loadJSON<MicMode>(MIC_MODE_KEY, 'open');
+
+export const saveMicMode = (mode: MicMode) => saveJSON(MIC_MODE_KEY, mode);
@@ -2,55 +2,40 @@
 import React from 'react'
 import ReactDOM from 'react-dom/client'
 import App from './App'
+import { ErrorBoundary } from './components/ErrorBoundary'
+import { loadLocale, LOCALES, translate } from './lib/i18n'
 import './src/index.css'
 
-// Error boundary for production
-class ErrorBoundary extends React.Component<
-  { children: React.ReactNode },
-  { hasError: boolean }
-> {
-  constructor(props: { children: React.ReactNode }) {
-    super(props)
-    this.state = { hasError: false }
-  }
-
-  static getDerivedStateFromError(error: Error) {
-    return { hasError: true }
-  }
-
-  componentDidCatch(error: Error, errorInfo: React.ErrorInfo) {
-    console.error('Application error:', error, errorInfo)
-  }
-
-  render() {
-    if (this.state.hasError) {
-      return (
-        <div className="min-h-screen flex items-center justify-center bg-gray-50">
-          <div className="text-center">
-            <h1 className="text-2xl font-bold text-gray-800 mb-4">
-              Something went wrong
-            </h1>
-            <p className="text-gray-600 mb-4">
-              Please refresh the page or try again later.
-            </p>
-            <button
-              onClick={() => window.location.reload()}
-              className="px-4 py-2 bg-blue-500 text-white rounded-lg hover:bg-blue-600 transition-colors"
-            >
-              Refresh Page
-            </button>
-          </div>
-        </div>
-      )
-    }
-
-    return this.props.children
-  }
+// Last line of defence for production; panels have their own boundaries.
+// Rendered outside the i18n provider, so it reads the saved locale itself.
+const CrashScreen: React.FC = () => {
+  const locale = loadLocale()
+  return (
+    <div className="min-h-screen flex items-center justify-center bg-gray-50" dir={LOCALES[locale].dir}>
+      <div className="text-center">
+        <h1 className="text-2xl font-bold text-gray-800 mb-4">
+          {translate(locale, 'app.crashTitle')}
+        </h1>
+        <p className="text-gray-600 mb-4">
+          {translate(locale, 'app.crashBody')}
+        </p>
+        <button
+          onClick={() => window.location.reload()}
+          className="px-4 py-2 bg-blue-500 text-white rounded-lg hover:bg-blue-600 transition-colors"
+        >
+          {translate(locale, 'app.crashRefresh')}
+        </button>
+      </div>
+    </div>
+  )
 }
 
 ReactDOM.createRoot(document.getElementById('root')!).render(
   <React.StrictMode>
-    <ErrorBoundary>
+    <ErrorBoundary
+      fallback={() => <CrashScreen />}
+      onError={(error, errorInfo) => console.error('Application error:', error, errorInfo)}
+    >
       <App />
     </ErrorBoundary>
   </React.StrictMode>,
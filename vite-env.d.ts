@@ -0,0 +1,15 @@
+/// <reference types="vite/client" />
+
+interface ImportMetaEnv {
+  readonly VITE_SERVER_URL?: string;
+  readonly VITE_CONNECT_ENDPOINT?: string;
+  readonly VITE_TRANSPORT?: string;
+  readonly VITE_ENABLE_ANALYTICS?: string;
+  readonly VITE_MAX_FILE_SIZE?: string;
+  readonly VITE_UPLOAD_CHUNK_SIZE?: string;
+  readonly VITE_ALLOWED_FILE_TYPES?: string;
+}
+
+interface ImportMeta {
+  readonly env: ImportMetaEnv;
+}